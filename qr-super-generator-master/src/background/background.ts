@@ -3,12 +3,53 @@
  * Handles extension lifecycle, commands, and message passing
  */
 
-import { generateQRCode } from '../utils/qr-generator';
-import { getCurrentTab, saveToStorage, getFromStorage } from '../utils/chrome-apis';
+import { generateQRCode, detectQRType } from '../utils/qr-generator';
+import { decodeAllQRCodes } from '../utils/qr-decoder';
+import { getCurrentTab } from '../utils/chrome-apis';
+import {
+  addToDecodedHistory,
+  addToQRHistory,
+  getAnalytics,
+  getDecodedHistory,
+  getQRHistory,
+  getQROptions,
+  getUserPreferences,
+  initializeStorage,
+  purgeExpiredTrash,
+  trackQRGeneration,
+  updateAnalytics as saveAnalytics
+} from '../utils/storage';
+import { runStorageMigrations } from '../utils/storage-migrations';
+import { createRecipe, renderHistoryItem } from '../utils/qr-recipe';
+import { createMessageRouter, sendToTab } from '../utils/messaging';
+import type {
+  AnalyticsData,
+  AnalyticsUpdate,
+  BackgroundMessageMap,
+  DecodedQRData,
+  ExtensionTab,
+  QRCodeData,
+  QRGeneratedEvent,
+  QRGenerationSource,
+  ExtensionEvent,
+  ShortcutTriggerData
+} from '../types';
+
+const DECODE_IMAGE_MENU_ID = 'decode-qr-image';
+const LINK_QR_MENU_ID = 'qr-for-link';
+const SELECTION_QR_MENU_ID = 'qr-for-selection';
+const PAGE_QR_MENU_ID = 'qr-for-page';
+
+// One key press can reach us twice: as the manifest command and from the content script
+const SHORTCUT_DEBOUNCE_MS = 1000;
+let lastShortcut = { tabId: -1, time: 0 };
+
+const DECODE_NOTIFICATION_PREFIX = 'decoded-qr:';
 
 // Extension installation and updates
 chrome.runtime.onInstalled.addListener((details) => {
   console.log('QR Super Generator installed:', details.reason);
+  registerContextMenus();
   
   if (details.reason === 'install') {
     // First time installation
@@ -22,30 +63,9 @@ chrome.runtime.onInstalled.addListener((details) => {
 // Initialize extension on first install
 async function initializeExtension() {
   try {
-    // Set default settings
-    const defaultSettings = {
-      qrOptions: {
-        width: 256,
-        margin: 1,
-        color: {
-          dark: '#000000',
-          light: '#FFFFFF'
-        },
-        errorCorrectionLevel: 'M'
-      },
-      analytics: {
-        enabled: true,
-        qrCodesGenerated: 0,
-        installDate: new Date().toISOString()
-      },
-      preferences: {
-        autoDownload: false,
-        showNotifications: true,
-        defaultFilename: 'qr-code'
-      }
-    };
-
-    await saveToStorage(defaultSettings);
+    // Stamp the schema version so later updates only run newer migrations
+    await runStorageMigrations();
+    await initializeStorage();
     console.log('Extension initialized with default settings');
   } catch (error) {
     console.error('Failed to initialize extension:', error);
@@ -57,23 +77,160 @@ async function handleExtensionUpdate(previousVersion?: string) {
   try {
     console.log(`Extension updated from ${previousVersion} to ${chrome.runtime.getManifest().version}`);
     
-    // Perform any necessary data migrations here
-    const settings = await getFromStorage();
-    
-    // Example: Add new settings for new version
-    if (!settings.preferences) {
-      settings.preferences = {
-        autoDownload: false,
-        showNotifications: true,
-        defaultFilename: 'qr-code'
-      };
-      await saveToStorage(settings);
-    }
+    // Move data written by older versions into the current layout, then fill in new defaults
+    await runStorageMigrations();
+    await initializeStorage();
   } catch (error) {
     console.error('Failed to handle extension update:', error);
   }
 }
 
+// Register context menu entries (recreated on every install or update so they never duplicate)
+function registerContextMenus() {
+  chrome.contextMenus.removeAll(() => {
+    chrome.contextMenus.create({
+      id: LINK_QR_MENU_ID,
+      title: 'QR for this link',
+      contexts: ['link']
+    });
+    chrome.contextMenus.create({
+      id: SELECTION_QR_MENU_ID,
+      title: 'QR for selected text',
+      contexts: ['selection']
+    });
+    chrome.contextMenus.create({
+      id: PAGE_QR_MENU_ID,
+      title: 'QR for this page',
+      contexts: ['page']
+    });
+    chrome.contextMenus.create({
+      id: DECODE_IMAGE_MENU_ID,
+      title: 'Decode QR in this image',
+      contexts: ['image']
+    });
+  });
+}
+
+// Handle context menu clicks
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+  switch (info.menuItemId) {
+    case LINK_QR_MENU_ID:
+      if (info.linkUrl) {
+        handleQuickQRGeneration(info.linkUrl, info.linkUrl, 'context-menu');
+      }
+      break;
+
+    case SELECTION_QR_MENU_ID:
+      if (info.selectionText) {
+        handleQuickQRGeneration(info.selectionText, 'Selected Text', 'context-menu');
+      }
+      break;
+
+    case PAGE_QR_MENU_ID: {
+      const pageUrl = info.pageUrl || tab?.url;
+      if (pageUrl) {
+        handleQuickQRGeneration(pageUrl, tab?.title, 'context-menu');
+      }
+      break;
+    }
+
+    case DECODE_IMAGE_MENU_ID:
+      if (info.srcUrl) {
+        handleImageDecode(info.srcUrl, tab);
+      }
+      break;
+  }
+});
+
+// Decode every QR code in an image from the page and report the payloads
+async function handleImageDecode(imageUrl: string, tab?: chrome.tabs.Tab) {
+  try {
+    const response = await fetch(imageUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch image: ${response.status}`);
+    }
+
+    const codes = await decodeAllQRCodes(await response.blob());
+    if (codes.length === 0) {
+      chrome.notifications.create({
+        type: 'basic',
+        iconUrl: 'icons/icon48.png',
+        title: 'No QR Code Found',
+        message: 'Could not find a readable QR code in this image.'
+      });
+      return;
+    }
+
+    const timestamp = new Date().toISOString();
+    const entries: DecodedQRData[] = codes.map((code, index) => ({
+      id: Date.now() + index,
+      text: code.data,
+      timestamp,
+      type: detectQRType(code.data),
+      // Inline images can be megabytes long, so only real URLs are kept
+      imageUrl: imageUrl.startsWith('data:') ? undefined : imageUrl,
+      pageUrl: tab?.url,
+      pageTitle: tab?.title
+    }));
+    await addToDecodedHistory(entries);
+
+    const buttons = [{ title: entries.length > 1 ? 'Copy All' : 'Copy' }];
+    if (entries[0].type === 'url') {
+      buttons.push({ title: 'Open Link' });
+    }
+
+    // The notification id carries the history ids so button clicks work after the worker restarts
+    const notificationId = `${DECODE_NOTIFICATION_PREFIX}${entries.map(entry => entry.id).join(',')}`;
+    if (entries.length === 1) {
+      chrome.notifications.create(notificationId, {
+        type: 'basic',
+        iconUrl: 'icons/icon48.png',
+        title: 'QR Code Decoded',
+        message: entries[0].text,
+        buttons
+      });
+    } else {
+      chrome.notifications.create(notificationId, {
+        type: 'list',
+        iconUrl: 'icons/icon48.png',
+        title: `${entries.length} QR Codes Decoded`,
+        message: `${entries.length} QR codes found in this image`,
+        items: entries.map((entry, index) => ({ title: `${index + 1}.`, message: entry.text })),
+        buttons
+      });
+    }
+  } catch (error) {
+    console.error('QR decoding from image failed:', error);
+
+    chrome.notifications.create({
+      type: 'basic',
+      iconUrl: 'icons/icon48.png',
+      title: 'QR Decoding Failed',
+      message: 'Could not read this image. Please try again.'
+    });
+  }
+}
+
+// Handle Copy / Open buttons on a decode notification
+async function handleDecodedNotificationButton(notificationId: string, buttonIndex: number) {
+  const ids = notificationId.slice(DECODE_NOTIFICATION_PREFIX.length).split(',').map(Number);
+  const history = await getDecodedHistory(100);
+  const entries = history.filter(entry => ids.includes(entry.id));
+
+  if (entries.length === 0) return;
+
+  if (buttonIndex === 0) {
+    // Clipboard access needs a page, so the active tab's content script does the copy
+    const tab = await getCurrentTab();
+    if (tab.id) {
+      await sendToTab(tab.id, 'copyToClipboard', { text: entries.map(entry => entry.text).join('\n') });
+    }
+  } else if (buttonIndex === 1) {
+    const url = entries[0].text.trim();
+    chrome.tabs.create({ url: /^https?:\/\//i.test(url) ? url : `https://${url}` });
+  }
+}
+
 // Handle keyboard shortcut commands
 chrome.commands.onCommand.addListener(async (command) => {
   console.log('Command received:', command);
@@ -82,7 +239,8 @@ chrome.commands.onCommand.addListener(async (command) => {
     try {
       const tab = await getCurrentTab();
       if (tab.url) {
-        await handleQuickQRGeneration(tab.url, tab.title);
+        const selectedText = tab.id !== undefined ? await getTabSelection(tab.id) : '';
+        await handleShortcut(tab.id, { url: tab.url, title: tab.title, selectedText });
       }
     } catch (error) {
       console.error('Failed to handle quick QR generation:', error);
@@ -90,52 +248,92 @@ chrome.commands.onCommand.addListener(async (command) => {
   }
 });
 
-// Quick QR generation from keyboard shortcut
-async function handleQuickQRGeneration(url: string, title?: string) {
+// Ask the content script for the current selection
+async function getTabSelection(tabId: number): Promise<string> {
   try {
-    const settings = await getFromStorage(['qrOptions', 'preferences', 'analytics']);
-    const qrDataUrl = await generateQRCode(url, settings.qrOptions);
-    
-    // Save to history
-    const history = await getFromStorage(['qrHistory']);
-    const qrHistory = history.qrHistory || [];
+    const pageInfo = await sendToTab(tabId, 'getPageInfo');
+    return pageInfo.selection;
+  } catch (error) {
+    // Pages the content script can't run on have no selection to offer
+    return '';
+  }
+}
+
+// Shortcut mode: QR for the selection (or the page itself), shown in an in-page overlay
+async function handleShortcut(tabId: number | undefined, trigger: ShortcutTriggerData) {
+  const now = Date.now();
+  if (tabId !== undefined && tabId === lastShortcut.tabId && now - lastShortcut.time < SHORTCUT_DEBOUNCE_MS) {
+    return;
+  }
+  lastShortcut = { tabId: tabId ?? -1, time: now };
+
+  const selectedText = trigger.selectedText?.trim();
+  const text = selectedText || trigger.url;
+  const title = selectedText ? 'Selected Text' : trigger.title;
+
+  const entry = await handleQuickQRGeneration(text, title, 'shortcut', false);
+  if (!entry) return;
+
+  try {
+    if (tabId === undefined) {
+      throw new Error('No tab to show the overlay in');
+    }
+
+    await sendToTab(tabId, 'showQROverlay', { dataUrl: entry.dataUrl, text: entry.text, title: entry.title });
+  } catch (error) {
+    // Pages the content script can't run on (e.g. chrome://) get a notification instead
+    console.error('Failed to show QR overlay:', error);
+    showGeneratedNotification(title || text);
+  }
+}
+
+// Broadcast an extension event to open extension pages; it's fine if none are listening
+function emitExtensionEvent(event: ExtensionEvent) {
+  chrome.runtime.sendMessage(event).catch(() => undefined);
+}
+
+// Quick QR generation from the keyboard shortcut or a context menu
+async function handleQuickQRGeneration(
+  text: string,
+  title?: string,
+  source: QRGenerationSource = 'shortcut',
+  notify = true
+): Promise<QRCodeData | null> {
+  try {
+    const qrOptions = await getQROptions();
+    const preferences = await getUserPreferences();
+    const qrDataUrl = await generateQRCode(text, qrOptions);
+    const contentType = detectQRType(text) === 'url' ? 'url' : 'text';
     
-    const newEntry = {
+    const newEntry: QRCodeData = {
       id: Date.now(),
-      text: url,
+      text,
       dataUrl: qrDataUrl,
       timestamp: new Date().toISOString(),
       title: title || 'Quick QR Code',
-      fromShortcut: true
+      type: contentType,
+      fromShortcut: source === 'shortcut',
+      source,
+      recipe: await createRecipe(text, qrOptions, { contentType })
     };
     
-    const updatedHistory = [newEntry, ...qrHistory.slice(0, 9)];
-    
-    // Update analytics
-    const analytics = settings.analytics || {};
-    analytics.qrCodesGenerated = (analytics.qrCodesGenerated || 0) + 1;
-    analytics.lastGenerated = new Date().toISOString();
-    
-    await saveToStorage({
-      qrHistory: updatedHistory,
-      analytics: analytics
-    });
+    // Save to the same history the popup shows, and count it
+    await addToQRHistory(newEntry);
+    await trackQRGeneration(source, qrOptions.width || 256);
     
     // Show notification if enabled
-    if (settings.preferences?.showNotifications) {
-      chrome.notifications.create({
-        type: 'basic',
-        iconUrl: 'icons/icon48.png',
-        title: 'QR Code Generated',
-        message: `QR code created for: ${title || url}`,
-        buttons: [
-          { title: 'Download' },
-          { title: 'Copy' }
-        ]
-      });
+    if (notify && preferences?.showNotifications) {
+      showGeneratedNotification(title || text);
     }
     
+    const event: QRGeneratedEvent = {
+      type: 'qr-generated',
+      data: { qrData: newEntry, source, timestamp: newEntry.timestamp }
+    };
+    emitExtensionEvent(event);
+    
     console.log('Quick QR generation completed');
+    return newEntry;
   } catch (error) {
     console.error('Quick QR generation failed:', error);
     
@@ -146,23 +344,42 @@ async function handleQuickQRGeneration(url: string, title?: string) {
       title: 'QR Generation Failed',
       message: 'Failed to generate QR code. Please try again.'
     });
+    return null;
   }
 }
 
+// Notify that a code was generated; the buttons act on the newest history entry
+function showGeneratedNotification(label: string) {
+  chrome.notifications.create({
+    type: 'basic',
+    iconUrl: 'icons/icon48.png',
+    title: 'QR Code Generated',
+    message: `QR code created for: ${label}`,
+    buttons: [
+      { title: 'Download' },
+      { title: 'Copy' }
+    ]
+  });
+}
+
 // Handle notification button clicks
 chrome.notifications.onButtonClicked.addListener(async (notificationId, buttonIndex) => {
   try {
-    const history = await getFromStorage(['qrHistory']);
-    const qrHistory = history.qrHistory || [];
+    if (notificationId.startsWith(DECODE_NOTIFICATION_PREFIX)) {
+      await handleDecodedNotificationButton(notificationId, buttonIndex);
+      chrome.notifications.clear(notificationId);
+      return;
+    }
+
+    const [latestQR] = await getQRHistory(1);
     
-    if (qrHistory.length > 0) {
-      const latestQR = qrHistory[0];
+    if (latestQR) {
       
       if (buttonIndex === 0) {
         // Download button clicked
         const filename = `qr-code-${Date.now()}.png`;
         chrome.downloads.download({
-          url: latestQR.dataUrl,
+          url: await renderHistoryItem(latestQR),
           filename: filename
         });
       } else if (buttonIndex === 1) {
@@ -171,10 +388,7 @@ chrome.notifications.onButtonClicked.addListener(async (notificationId, buttonIn
         // We'll send a message to the active tab to handle this
         const tab = await getCurrentTab();
         if (tab.id) {
-          chrome.tabs.sendMessage(tab.id, {
-            action: 'copyToClipboard',
-            text: latestQR.text
-          });
+          await sendToTab(tab.id, 'copyToClipboard', { text: latestQR.text });
         }
       }
     }
@@ -187,39 +401,22 @@ chrome.notifications.onButtonClicked.addListener(async (notificationId, buttonIn
 });
 
 // Handle messages from popup and content scripts
-chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-  console.log('Message received in background:', message);
-  
-  switch (message.action) {
-    case 'generateQR':
-      handleQRGenerationRequest(message.data)
-        .then(result => sendResponse({ success: true, data: result }))
-        .catch(error => sendResponse({ success: false, error: error.message }));
-      return true; // Keep message channel open for async response
-      
-    case 'getBatchTabs':
-      getBatchTabsData()
-        .then(result => sendResponse({ success: true, data: result }))
-        .catch(error => sendResponse({ success: false, error: error.message }));
-      return true;
-      
-    case 'updateAnalytics':
-      updateAnalytics(message.data)
-        .then(() => sendResponse({ success: true }))
-        .catch(error => sendResponse({ success: false, error: error.message }));
-      return true;
-      
-    default:
-      sendResponse({ success: false, error: 'Unknown action' });
-      return false;
-  }
-});
+chrome.runtime.onMessage.addListener(createMessageRouter<BackgroundMessageMap>({
+  generateQR: data => handleQRGenerationRequest(data),
+  shortcutTriggered: (data, sender) => handleShortcut(sender.tab?.id, data),
+  getBatchTabs: () => getBatchTabsData(),
+  updateAnalytics: data => updateAnalytics(data)
+}, {
+  generateQR: 'QR_GENERATION_FAILED',
+  getBatchTabs: 'TAB_ACCESS_DENIED',
+  updateAnalytics: 'STORAGE_ERROR'
+}));
 
 // Handle QR generation requests
-async function handleQRGenerationRequest(data: any) {
+async function handleQRGenerationRequest(data: { text: string }) {
   try {
-    const settings = await getFromStorage(['qrOptions']);
-    const qrDataUrl = await generateQRCode(data.text, settings.qrOptions);
+    const qrOptions = await getQROptions();
+    const qrDataUrl = await generateQRCode(data.text, qrOptions);
     
     // Update analytics
     await updateAnalytics({ qrGenerated: true });
@@ -232,7 +429,7 @@ async function handleQRGenerationRequest(data: any) {
 }
 
 // Get batch tabs data
-async function getBatchTabsData() {
+async function getBatchTabsData(): Promise<ExtensionTab[]> {
   try {
     const tabs = await new Promise<chrome.tabs.Tab[]>((resolve, reject) => {
       chrome.tabs.query({}, (tabs) => {
@@ -252,22 +449,22 @@ async function getBatchTabsData() {
 }
 
 // Update analytics
-async function updateAnalytics(data: any) {
+async function updateAnalytics(data: AnalyticsUpdate) {
   try {
-    const current = await getFromStorage(['analytics']);
-    const analytics = current.analytics || {};
+    const analytics = await getAnalytics();
+    const updates: Partial<AnalyticsData> = {};
     
     if (data.qrGenerated) {
-      analytics.qrCodesGenerated = (analytics.qrCodesGenerated || 0) + 1;
-      analytics.lastGenerated = new Date().toISOString();
+      updates.qrCodesGenerated = (analytics.qrCodesGenerated || 0) + 1;
+      updates.lastGenerated = new Date().toISOString();
     }
     
     if (data.extensionOpened) {
-      analytics.timesOpened = (analytics.timesOpened || 0) + 1;
-      analytics.lastOpened = new Date().toISOString();
+      updates.timesOpened = (analytics.timesOpened || 0) + 1;
+      updates.lastOpened = new Date().toISOString();
     }
     
-    await saveToStorage({ analytics });
+    await saveAnalytics(updates);
   } catch (error) {
     console.error('Failed to update analytics:', error);
     throw error;
@@ -277,6 +474,7 @@ async function updateAnalytics(data: any) {
 // Handle extension startup
 chrome.runtime.onStartup.addListener(() => {
   console.log('QR Super Generator started');
+  purgeExpiredTrash().catch(error => console.error('Failed to purge the trash:', error));
 });
 
 // Handle tab updates for potential auto-generation features
@@ -287,21 +485,4 @@ chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
   }
 });
 
-// Clean up old data periodically
-setInterval(async () => {
-  try {
-    const data = await getFromStorage(['qrHistory']);
-    const qrHistory = data.qrHistory || [];
-    
-    // Keep only last 50 entries
-    if (qrHistory.length > 50) {
-      const trimmedHistory = qrHistory.slice(0, 50);
-      await saveToStorage({ qrHistory: trimmedHistory });
-      console.log('Cleaned up old QR history entries');
-    }
-  } catch (error) {
-    console.error('Failed to clean up old data:', error);
-  }
-}, 60 * 60 * 1000); // Run every hour
-
 console.log('QR Super Generator background script loaded'); 
\ No newline at end of file
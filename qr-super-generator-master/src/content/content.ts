@@ -3,33 +3,18 @@
  * Handles minimal page interactions and clipboard operations
  */
 
+import { ContentMessageMap, PageInfo, QROverlayData, ScreenRegion } from '../types';
+import { createExtensionError, createMessageRouter, MessageError, sendToBackground } from '../utils/messaging';
+
 // Listen for messages from background script
-chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-  console.log('Content script received message:', message);
-  
-  switch (message.action) {
-    case 'copyToClipboard':
-      handleCopyToClipboard(message.text)
-        .then(() => sendResponse({ success: true }))
-        .catch(error => sendResponse({ success: false, error: error.message }));
-      return true; // Keep message channel open for async response
-      
-    case 'getPageInfo':
-      const pageInfo = getPageInfo();
-      sendResponse({ success: true, data: pageInfo });
-      return false;
-      
-    case 'highlightElement':
-      highlightElement(message.selector)
-        .then(() => sendResponse({ success: true }))
-        .catch(error => sendResponse({ success: false, error: error.message }));
-      return true;
-      
-    default:
-      sendResponse({ success: false, error: 'Unknown action' });
-      return false;
-  }
-});
+chrome.runtime.onMessage.addListener(createMessageRouter<ContentMessageMap>({
+  copyToClipboard: ({ text }) => handleCopyToClipboard(text),
+  getPageInfo: () => getPageInfo(),
+  showQROverlay: data => showQROverlay(data),
+  highlightElement: ({ selector, region, label }) => highlightElement(selector, region, label)
+}, {
+  copyToClipboard: 'CLIPBOARD_ERROR'
+}));
 
 /**
  * Copy text to clipboard using the modern Clipboard API
@@ -128,10 +113,103 @@ function showCopyNotification(message: string): void {
   }, 3000);
 }
 
+const OVERLAY_HOST_ID = 'qr-super-generator-overlay';
+
+/**
+ * Show a generated QR code in a small in-page panel (shortcut mode).
+ * Rendered inside a shadow root so page styles can't leak in.
+ */
+function showQROverlay(data: QROverlayData): void {
+  document.getElementById(OVERLAY_HOST_ID)?.remove();
+
+  const host = document.createElement('div');
+  host.id = OVERLAY_HOST_ID;
+  host.style.cssText = 'position: fixed; top: 20px; right: 20px; z-index: 2147483647;';
+  const root = host.attachShadow({ mode: 'closed' });
+
+  const panel = document.createElement('div');
+  panel.style.cssText = `
+    width: 240px;
+    padding: 16px;
+    background: white;
+    border-radius: 12px;
+    box-shadow: 0 8px 24px rgba(0, 0, 0, 0.2);
+    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+    color: #111827;
+    transition: all 0.3s ease;
+    opacity: 0;
+    transform: translateY(-10px);
+  `;
+
+  const heading = document.createElement('div');
+  heading.textContent = data.title;
+  heading.style.cssText = 'font-size: 14px; font-weight: 600; margin-bottom: 8px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;';
+
+  const image = document.createElement('img');
+  image.src = data.dataUrl;
+  image.alt = 'QR Code';
+  image.style.cssText = 'display: block; width: 208px; height: 208px; image-rendering: pixelated;';
+
+  const caption = document.createElement('div');
+  caption.textContent = data.text;
+  caption.title = data.text;
+  caption.style.cssText = 'font-size: 12px; color: #6b7280; margin: 8px 0 12px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;';
+
+  const actions = document.createElement('div');
+  actions.style.cssText = 'display: flex; gap: 8px;';
+
+  const close = () => {
+    document.removeEventListener('keydown', handleKeydown, true);
+    host.remove();
+  };
+  const handleKeydown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') close();
+  };
+
+  const createButton = (label: string, primary: boolean, onClick: () => void) => {
+    const button = document.createElement('button');
+    button.textContent = label;
+    button.style.cssText = `
+      flex: 1;
+      padding: 6px 0;
+      border: ${primary ? 'none' : '1px solid #d1d5db'};
+      border-radius: 6px;
+      background: ${primary ? '#3b82f6' : 'white'};
+      color: ${primary ? 'white' : '#374151'};
+      font: 500 12px -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+      cursor: pointer;
+    `;
+    button.addEventListener('click', onClick);
+    return button;
+  };
+
+  actions.appendChild(createButton('Download', true, () => {
+    const link = document.createElement('a');
+    link.href = data.dataUrl;
+    link.download = `qr-code-${Date.now()}.png`;
+    link.click();
+  }));
+  actions.appendChild(createButton('Copy', false, () => {
+    handleCopyToClipboard(data.text).catch(error => console.error('Overlay copy failed:', error));
+  }));
+  actions.appendChild(createButton('Close', false, close));
+
+  panel.append(heading, image, caption, actions);
+  root.appendChild(panel);
+  document.body.appendChild(host);
+  document.addEventListener('keydown', handleKeydown, true);
+
+  // Animate in
+  requestAnimationFrame(() => {
+    panel.style.opacity = '1';
+    panel.style.transform = 'translateY(0)';
+  });
+}
+
 /**
  * Get useful page information for QR code generation
  */
-function getPageInfo(): any {
+function getPageInfo(): PageInfo {
   return {
     url: window.location.href,
     title: document.title,
@@ -189,31 +267,125 @@ function getSelectedText(): string {
   return selection ? selection.toString().trim() : '';
 }
 
+const VISUAL_ELEMENTS = ['IMG', 'CANVAS', 'SVG', 'VIDEO', 'PICTURE', 'OBJECT', 'EMBED'];
+
+// Elements much larger than the code itself (hero banners, page backgrounds) are not outlined
+const MAX_ELEMENT_AREA_RATIO = 25;
+
+/**
+ * Find the image-like element under a viewport rectangle, if any
+ */
+function findVisualElementAt(rect: { left: number; top: number; width: number; height: number }): HTMLElement | null {
+  const candidates = document.elementsFromPoint(rect.left + rect.width / 2, rect.top + rect.height / 2);
+
+  const maxArea = rect.width * rect.height * MAX_ELEMENT_AREA_RATIO;
+
+  for (const candidate of candidates) {
+    const tagName = candidate.tagName.toUpperCase();
+    const bounds = candidate.getBoundingClientRect();
+    // Skip page-sized containers whose background merely happens to sit behind the code
+    if (bounds.width * bounds.height > maxArea) continue;
+
+    const hasBackgroundImage = getComputedStyle(candidate).backgroundImage !== 'none';
+    if (VISUAL_ELEMENTS.includes(tagName) || hasBackgroundImage) {
+      return candidate as HTMLElement;
+    }
+  }
+
+  return null;
+}
+
 /**
- * Highlight an element on the page (for potential future features)
+ * Draw a labelled box over a viewport rectangle
  */
-async function highlightElement(selector: string): Promise<void> {
+function createHighlightBox(rect: { left: number; top: number; width: number; height: number }, label?: string): HTMLElement {
+  const box = document.createElement('div');
+  box.style.cssText = `
+    position: fixed;
+    left: ${rect.left - 4}px;
+    top: ${rect.top - 4}px;
+    width: ${rect.width + 8}px;
+    height: ${rect.height + 8}px;
+    border: 3px solid #3b82f6;
+    border-radius: 6px;
+    background: rgba(59, 130, 246, 0.1);
+    box-sizing: border-box;
+    pointer-events: none;
+    z-index: 2147483647;
+  `;
+
+  if (label) {
+    const badge = document.createElement('span');
+    badge.textContent = label;
+    badge.style.cssText = `
+      position: absolute;
+      top: -12px;
+      left: -12px;
+      min-width: 22px;
+      height: 22px;
+      padding: 0 6px;
+      border-radius: 11px;
+      background: #3b82f6;
+      color: white;
+      font: 600 12px/22px -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+      text-align: center;
+      box-sizing: border-box;
+    `;
+    box.appendChild(badge);
+  }
+
+  document.body.appendChild(box);
+  return box;
+}
+
+/**
+ * Highlight an element on the page, found by CSS selector or by a region of a
+ * visible-tab screenshot (e.g. where a QR code was decoded)
+ */
+async function highlightElement(selector?: string, region?: ScreenRegion, label?: string): Promise<void> {
   return new Promise((resolve, reject) => {
     try {
-      const element = document.querySelector(selector);
-      if (!element) {
-        reject(new Error('Element not found'));
+      let element: HTMLElement | null = null;
+      let box: HTMLElement | null = null;
+
+      if (region) {
+        // Screenshots are in device pixels; the viewport is in CSS pixels
+        const scale = 1 / (window.devicePixelRatio || 1);
+        const rect = {
+          left: region.x * scale,
+          top: region.y * scale,
+          width: region.width * scale,
+          height: region.height * scale
+        };
+        element = findVisualElementAt(rect);
+        box = createHighlightBox(rect, label);
+      } else if (selector) {
+        element = document.querySelector(selector) as HTMLElement | null;
+      }
+
+      if (!element && !box) {
+        reject(new MessageError(createExtensionError('ELEMENT_NOT_FOUND', 'Element not found', 'highlightElement')));
         return;
       }
       
       // Add highlight styling
-      const originalOutline = (element as HTMLElement).style.outline;
-      const originalBackground = (element as HTMLElement).style.backgroundColor;
+      const originalOutline = element?.style.outline || '';
+      const originalBackground = element?.style.backgroundColor || '';
       
-      (element as HTMLElement).style.outline = '3px solid #3b82f6';
-      (element as HTMLElement).style.backgroundColor = 'rgba(59, 130, 246, 0.1)';
+      if (element) {
+        element.style.outline = '3px solid #3b82f6';
+        element.style.backgroundColor = 'rgba(59, 130, 246, 0.1)';
+      }
       
-      // Remove highlight after 2 seconds
+      // Screenshot regions stay up longer so every code can be found on the page
       setTimeout(() => {
-        (element as HTMLElement).style.outline = originalOutline;
-        (element as HTMLElement).style.backgroundColor = originalBackground;
+        if (element) {
+          element.style.outline = originalOutline;
+          element.style.backgroundColor = originalBackground;
+        }
+        box?.remove();
         resolve();
-      }, 2000);
+      }, region ? 6000 : 2000);
     } catch (error) {
       reject(error);
     }
@@ -271,14 +443,11 @@ document.addEventListener('keydown', (event) => {
     event.preventDefault();
     
     // Send message to background script that shortcut was triggered on this page
-    chrome.runtime.sendMessage({
-      action: 'shortcutTriggered',
-      data: {
-        url: window.location.href,
-        title: document.title,
-        selectedText: getSelectedText()
-      }
-    });
+    sendToBackground('shortcutTriggered', {
+      url: window.location.href,
+      title: document.title,
+      selectedText: getSelectedText()
+    }).catch(error => console.error('Failed to report shortcut:', error));
   }
 });
 
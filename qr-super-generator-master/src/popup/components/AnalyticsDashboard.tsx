@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { BarChart3, TrendingUp, Activity, Clock, Target, Globe, Wifi, FileText, Star, Award, Zap, Calendar } from 'lucide-react';
+import { getQRHistoryEntries, getAnalytics } from '../../utils/storage';
 
 interface AnalyticsData {
   totalGenerated: number;
@@ -42,11 +43,11 @@ const AnalyticsDashboard: React.FC = () => {
     try {
       // Load data from storage
       const result = await new Promise<any>(resolve => {
-        chrome.storage.local.get(['qrHistory', 'analytics', 'achievements'], resolve);
+        chrome.storage.local.get(['achievements'], resolve);
       });
 
-      const qrHistory = result.qrHistory || [];
-      const savedAnalytics = result.analytics || {};
+      const qrHistory = await getQRHistoryEntries();
+      const savedAnalytics = await getAnalytics();
       const achievements = result.achievements || [];
 
       // Calculate analytics
@@ -130,8 +131,8 @@ const AnalyticsDashboard: React.FC = () => {
         typeDistribution,
         hourlyDistribution,
         mostUsedDomains,
-        averageSize: savedAnalytics.averageSize || 256,
-        favoriteColors: savedAnalytics.favoriteColors || [],
+        averageSize: savedAnalytics.averageQRSize || 256,
+        favoriteColors: [],
         streakDays,
         achievements
       });
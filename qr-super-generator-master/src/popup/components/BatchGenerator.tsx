@@ -1,9 +1,12 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Layers, Download, RefreshCw, Check, X, Eye, EyeOff, Archive } from 'lucide-react';
-import { generateBatchQRCodes, QROptions } from '../../utils/qr-generator';
+import { Layers, Download, RefreshCw, Check, X, Eye, EyeOff, Archive, FileText, Settings } from 'lucide-react';
+import { generateBatchQRCodes, generateQRCodeSVG, QROptions } from '../../utils/qr-generator';
+import { exportQRCodesToPDF, PDFExportOptions, PaperSize, PDFLayout } from '../../utils/pdf-exporter';
 import { getAllTabs } from '../../utils/chrome-apis';
+import { createRecipe } from '../../utils/qr-recipe';
 import { addToQRHistory, trackQRGeneration } from '../../utils/storage';
-import { QRCodeData, ExtensionTab } from '../../types';
+import { QRCodeData, ExtensionTab, FileFormat, BatchGenerationResult } from '../../types';
+import ScanBadge from './ScanBadge';
 import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
 
@@ -19,6 +22,8 @@ interface TabSelection {
   qrData?: QRCodeData;
 }
 
+type ZipFormat = Extract<FileFormat, 'png' | 'svg'>;
+
 interface BatchProgress {
   total: number;
   completed: number;
@@ -44,6 +49,15 @@ const BatchGenerator: React.FC<BatchGeneratorProps> = ({
   });
   const [showPreview, setShowPreview] = useState(false);
   const [results, setResults] = useState<QRCodeData[]>([]);
+  const [batchResult, setBatchResult] = useState<BatchGenerationResult | null>(null);
+  const [zipFormat, setZipFormat] = useState<ZipFormat>('png');
+  const [showPdfOptions, setShowPdfOptions] = useState(false);
+  const [pdfOptions, setPdfOptions] = useState<PDFExportOptions>({
+    paperSize: 'A4',
+    layout: 'grid',
+    margin: 15,
+    dpi: 300
+  });
   
   // QR Options
   const [qrOptions] = useState<QROptions>({
@@ -112,6 +126,7 @@ const BatchGenerator: React.FC<BatchGeneratorProps> = ({
   // Get selected tabs
   const selectedTabs = tabs.filter(tab => tab.selected);
   const selectedCount = selectedTabs.length;
+  const unscannable = batchResult?.failed.filter(item => item.reason === 'scannability') || [];
 
   // Generate QR codes for selected tabs
   const generateBatch = useCallback(async () => {
@@ -129,9 +144,11 @@ const BatchGenerator: React.FC<BatchGeneratorProps> = ({
     });
     setError('');
     setResults([]);
+    setBatchResult(null);
 
     const urls = selectedTabs.map(({ tab }) => tab.url || '');
     const batchResults: QRCodeData[] = [];
+    const summary: BatchGenerationResult = { successful: [], failed: [], total: urls.length };
 
     try {
       // Generate QR codes in chunks to avoid overwhelming the browser
@@ -146,6 +163,18 @@ const BatchGenerator: React.FC<BatchGeneratorProps> = ({
         for (let j = 0; j < chunkResults.length; j++) {
           const result = chunkResults[j];
           const tabInfo = chunkTabs[j];
+          const title = tabInfo.tab.title || 'Browser Tab';
+
+          if (result.error) {
+            summary.failed.push({
+              text: result.text,
+              error: result.error,
+              title,
+              reason: result.verified === false ? 'scannability' : 'generation'
+            });
+          } else {
+            summary.successful.push({ text: result.text, dataUrl: result.dataUrl, title });
+          }
           
           setProgress(prev => ({
             ...prev,
@@ -161,7 +190,7 @@ const BatchGenerator: React.FC<BatchGeneratorProps> = ({
               text: result.text,
               dataUrl: result.dataUrl,
               timestamp: new Date().toISOString(),
-              title: tabInfo.tab.title || 'Browser Tab',
+              title,
               type: 'url',
               metadata: {
                 size: qrOptions.width || 256,
@@ -170,7 +199,8 @@ const BatchGenerator: React.FC<BatchGeneratorProps> = ({
                   dark: qrOptions.color?.dark || '#000000',
                   light: qrOptions.color?.light || '#FFFFFF'
                 }
-              }
+              },
+              recipe: await createRecipe(result.text, qrOptions, { contentType: 'url' })
             };
 
             batchResults.push(qrData);
@@ -201,6 +231,7 @@ const BatchGenerator: React.FC<BatchGeneratorProps> = ({
       }
 
       setResults(batchResults);
+      setBatchResult(summary);
       onBatchComplete?.(batchResults);
       
     } catch (err) {
@@ -219,18 +250,23 @@ const BatchGenerator: React.FC<BatchGeneratorProps> = ({
       const zip = new JSZip();
       
       for (const qrData of results) {
-        // Convert data URL to blob
-        const response = await fetch(qrData.dataUrl);
-        const blob = await response.blob();
-        
         // Create safe filename
         const safeTitle = qrData.title
           .replace(/[^a-z0-9]/gi, '_')
           .toLowerCase()
           .substring(0, 50);
         
-        const filename = `${safeTitle}_${qrData.id}.png`;
-        zip.file(filename, blob);
+        const filename = `${safeTitle}_${qrData.id}.${zipFormat}`;
+        
+        if (zipFormat === 'svg') {
+          // Vector output is rendered from the source text rather than the raster preview
+          zip.file(filename, await generateQRCodeSVG(qrData.text, qrOptions));
+        } else {
+          // Convert data URL to blob
+          const response = await fetch(qrData.dataUrl);
+          const blob = await response.blob();
+          zip.file(filename, blob);
+        }
       }
 
       // Generate and download ZIP
@@ -242,7 +278,30 @@ const BatchGenerator: React.FC<BatchGeneratorProps> = ({
       console.error('ZIP download failed:', err);
       setError('Failed to download ZIP file');
     }
-  }, [results]);
+  }, [results, zipFormat, qrOptions]);
+
+  // Download all QR codes as a printable PDF
+  const downloadAsPDF = useCallback(async () => {
+    if (results.length === 0) return;
+
+    try {
+      const pdf = await exportQRCodesToPDF(
+        results.map(qrData => ({ text: qrData.text, title: qrData.title, options: qrOptions })),
+        { ...pdfOptions, documentTitle: 'QR Codes Batch' }
+      );
+      const timestamp = new Date().toISOString().split('T')[0];
+      saveAs(pdf, `qr_codes_batch_${timestamp}.pdf`);
+      
+    } catch (err) {
+      console.error('PDF export failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export PDF');
+    }
+  }, [results, pdfOptions, qrOptions]);
+
+  // Update PDF export options
+  const updatePdfOptions = (updates: Partial<PDFExportOptions>) => {
+    setPdfOptions(prev => ({ ...prev, ...updates }));
+  };
 
   // Download individual QR code
   const downloadIndividual = async (qrData: QRCodeData) => {
@@ -322,15 +381,112 @@ const BatchGenerator: React.FC<BatchGeneratorProps> = ({
               <p className="text-xs text-green-600">
                 Success: {progress.successful} • Failed: {progress.failed}
               </p>
+              {batchResult && (
+                <ScanBadge
+                  className="mt-1"
+                  verification={{
+                    verified: unscannable.length === 0,
+                    error: `${unscannable.length} code${unscannable.length === 1 ? '' : 's'} did not decode back to their URL`
+                  }}
+                />
+              )}
+            </div>
+            <div className="flex items-center space-x-2">
+              <select
+                value={zipFormat}
+                onChange={(e) => setZipFormat(e.target.value as ZipFormat)}
+                className="px-2 py-1.5 border border-green-300 rounded text-sm text-green-800 bg-white"
+                title="Image format inside the ZIP"
+              >
+                <option value="png">PNG</option>
+                <option value="svg">SVG</option>
+              </select>
+              <button
+                onClick={downloadAsZip}
+                className="flex items-center space-x-1 px-3 py-1.5 bg-green-600 text-white text-sm rounded hover:bg-green-700"
+              >
+                <Archive className="w-4 h-4" />
+                <span>ZIP</span>
+              </button>
+              <button
+                onClick={downloadAsPDF}
+                className="flex items-center space-x-1 px-3 py-1.5 bg-green-600 text-white text-sm rounded hover:bg-green-700"
+              >
+                <FileText className="w-4 h-4" />
+                <span>PDF</span>
+              </button>
+              <button
+                onClick={() => setShowPdfOptions(!showPdfOptions)}
+                className="p-1.5 text-green-700 hover:bg-green-100 rounded"
+                title="PDF settings"
+              >
+                <Settings className="w-4 h-4" />
+              </button>
             </div>
-            <button
-              onClick={downloadAsZip}
-              className="flex items-center space-x-1 px-3 py-1.5 bg-green-600 text-white text-sm rounded hover:bg-green-700"
-            >
-              <Archive className="w-4 h-4" />
-              <span>ZIP</span>
-            </button>
           </div>
+
+          {/* Scannability Failures */}
+          {unscannable.length > 0 && (
+            <div className="mt-3 pt-3 border-t border-green-200 space-y-1">
+              <p className="text-xs font-medium text-red-700">Not exported — failed the scannability check:</p>
+              {unscannable.map((item, index) => (
+                <p key={index} className="text-xs text-red-600 truncate" title={item.text}>
+                  {item.title}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {/* PDF Settings */}
+          {showPdfOptions && (
+            <div className="grid grid-cols-2 gap-3 mt-3 pt-3 border-t border-green-200">
+              <div>
+                <label className="block text-xs font-medium text-green-800 mb-1">Paper</label>
+                <select
+                  value={pdfOptions.paperSize}
+                  onChange={(e) => updatePdfOptions({ paperSize: e.target.value as PaperSize })}
+                  className="w-full px-2 py-1 border border-green-300 rounded text-sm bg-white"
+                >
+                  <option value="A4">A4</option>
+                  <option value="Letter">Letter</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-green-800 mb-1">Layout</label>
+                <select
+                  value={pdfOptions.layout}
+                  onChange={(e) => updatePdfOptions({ layout: e.target.value as PDFLayout })}
+                  className="w-full px-2 py-1 border border-green-300 rounded text-sm bg-white"
+                >
+                  <option value="grid">Grid sheet</option>
+                  <option value="single">One per page</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-green-800 mb-1">Margin (mm)</label>
+                <input
+                  type="number"
+                  value={pdfOptions.margin}
+                  onChange={(e) => updatePdfOptions({ margin: parseInt(e.target.value) || 0 })}
+                  className="w-full px-2 py-1 border border-green-300 rounded text-sm"
+                  min="0"
+                  max="50"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-green-800 mb-1">Resolution</label>
+                <select
+                  value={pdfOptions.dpi}
+                  onChange={(e) => updatePdfOptions({ dpi: parseInt(e.target.value) })}
+                  className="w-full px-2 py-1 border border-green-300 rounded text-sm bg-white"
+                >
+                  <option value={150}>150 DPI</option>
+                  <option value={300}>300 DPI</option>
+                  <option value={600}>600 DPI</option>
+                </select>
+              </div>
+            </div>
+          )}
         </div>
       )}
 
@@ -402,7 +558,9 @@ const BatchGenerator: React.FC<BatchGeneratorProps> = ({
                     </p>
                     
                     {qrData && (
-                      <Check className="w-4 h-4 text-green-600" />
+                      <span title="Scannability verified">
+                        <Check className="w-4 h-4 text-green-600" />
+                      </span>
                     )}
                     
                     {tabError && (
@@ -477,7 +635,7 @@ const BatchGenerator: React.FC<BatchGeneratorProps> = ({
         <p className="text-sm text-blue-800">
           Generate QR codes for multiple browser tabs at once. 
           Select the tabs you want to include and click generate.
-          All QR codes can be downloaded as a ZIP file.
+          All QR codes can be downloaded as a ZIP file or a printable PDF sheet.
         </p>
       </div>
     </div>
@@ -0,0 +1,667 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { CalendarDays, Download, Copy, Plus, Trash2, GitBranch, X, Repeat, Bell, Users } from 'lucide-react';
+import { generateQRCode, QROptions } from '../../utils/qr-generator';
+import {
+  buildCalendarPayload,
+  createEventUid,
+  validateCalendarEvent,
+  zonedTimeToDate,
+  CALENDAR_WEEKDAYS
+} from '../../utils/calendar-payload';
+import { downloadFile } from '../../utils/chrome-apis';
+import { createRecipe, loadRecipeForEditing } from '../../utils/qr-recipe';
+import { addToQRHistory, trackQRGeneration, trackDownload, createRevisionLink } from '../../utils/storage';
+import { CalendarAttendee, CalendarEvent, CalendarFrequency, CalendarWeekday, QRCodeData } from '../../types';
+
+interface CalendarQRGeneratorProps {
+  onQRGenerated?: (qrData: QRCodeData) => void;
+  // History entry to edit; saving creates a new revision linked to it
+  editItem?: QRCodeData;
+  onCancelEdit?: () => void;
+  className?: string;
+}
+
+// What the form edits; dates are wall-clock times in the chosen time zone
+interface CalendarForm {
+  title: string;
+  location: string;
+  description: string;
+  url: string;
+  allDay: boolean;
+  start: string;
+  end: string;
+  timeZone: string;
+  repeat: 'none' | CalendarFrequency;
+  interval: number;
+  byDay: CalendarWeekday[];
+  ends: 'never' | 'count' | 'until';
+  count: number;
+  until: string;
+  // Minutes before the event, or null for no reminder
+  reminder: number | null;
+  organizerName: string;
+  organizerEmail: string;
+  attendees: CalendarAttendee[];
+  compact: boolean;
+  uid: string;
+}
+
+const REPEAT_OPTIONS: Array<{ value: CalendarForm['repeat']; label: string }> = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'DAILY', label: 'Daily' },
+  { value: 'WEEKLY', label: 'Weekly' },
+  { value: 'MONTHLY', label: 'Monthly' },
+  { value: 'YEARLY', label: 'Yearly' }
+];
+
+const REMINDER_OPTIONS: Array<{ value: number | null; label: string }> = [
+  { value: null, label: 'No reminder' },
+  { value: 0, label: 'At start time' },
+  { value: 5, label: '5 minutes before' },
+  { value: 15, label: '15 minutes before' },
+  { value: 30, label: '30 minutes before' },
+  { value: 60, label: '1 hour before' },
+  { value: 1440, label: '1 day before' }
+];
+
+const localTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Every zone the browser knows, where supported
+const TIME_ZONES: string[] =
+  (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf?.('timeZone') ||
+  Array.from(new Set([localTimeZone, 'UTC', 'Europe/London', 'Europe/Berlin', 'America/New_York', 'America/Los_Angeles', 'Asia/Tokyo', 'Australia/Sydney']));
+
+const toInputValue = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// A new event starts at the next full hour and lasts an hour
+const createEmptyForm = (): CalendarForm => {
+  const start = new Date();
+  start.setHours(start.getHours() + 1, 0, 0, 0);
+  return {
+    title: '',
+    location: '',
+    description: '',
+    url: '',
+    allDay: false,
+    start: toInputValue(start),
+    end: toInputValue(new Date(start.getTime() + 60 * 60 * 1000)),
+    timeZone: localTimeZone,
+    repeat: 'none',
+    interval: 1,
+    byDay: [],
+    ends: 'never',
+    count: 10,
+    until: '',
+    reminder: 15,
+    organizerName: '',
+    organizerEmail: '',
+    attendees: [],
+    compact: false,
+    uid: createEventUid()
+  };
+};
+
+// Turn the form into an event; throws if a date can't be read
+const toCalendarEvent = (form: CalendarForm): CalendarEvent => ({
+  title: form.title,
+  start: zonedTimeToDate(form.start, form.timeZone),
+  end: zonedTimeToDate(form.end, form.timeZone),
+  location: form.location,
+  description: form.description,
+  url: form.url,
+  timeZone: form.timeZone,
+  allDay: form.allDay,
+  uid: form.uid,
+  organizer: form.organizerEmail.trim() ? { email: form.organizerEmail, name: form.organizerName } : undefined,
+  attendees: form.attendees,
+  alarms: form.reminder !== null ? [{ minutesBefore: form.reminder }] : undefined,
+  recurrence: form.repeat !== 'none'
+    ? {
+        frequency: form.repeat,
+        interval: form.interval,
+        count: form.ends === 'count' ? form.count : undefined,
+        // The repeat ends after the whole last day
+        until: form.ends === 'until' && form.until ? zonedTimeToDate(`${form.until}T23:59`, form.timeZone) : undefined,
+        byDay: form.repeat === 'WEEKLY' ? form.byDay : undefined
+      }
+    : undefined
+});
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const CalendarQRGenerator: React.FC<CalendarQRGeneratorProps> = ({
+  onQRGenerated,
+  editItem,
+  onCancelEdit,
+  className = ''
+}) => {
+  // Event form state
+  const [form, setForm] = useState<CalendarForm>(createEmptyForm);
+
+  // Component state
+  const [qrDataUrl, setQrDataUrl] = useState<string>('');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [revisionBase, setRevisionBase] = useState<QRCodeData | null>(editItem || null);
+  const [qrOptions, setQrOptions] = useState<QROptions>({
+    width: 256,
+    margin: 1,
+    color: {
+      dark: '#000000',
+      light: '#FFFFFF'
+    },
+    // Events are long, so a lower level keeps the code readable
+    errorCorrectionLevel: 'L',
+    type: 'image/png'
+  });
+
+  // Restore the event and render options of the entry being edited; the UID stays, so calendars update the event
+  useEffect(() => {
+    if (!editItem) return;
+
+    setRevisionBase(editItem);
+    loadRecipeForEditing(editItem)
+      .then(editable => {
+        if (typeof editable.fields?.event === 'string') {
+          setForm({ ...createEmptyForm(), ...JSON.parse(editable.fields.event) });
+        }
+        setQrOptions({ ...editable.options, type: 'image/png' });
+      })
+      .catch(err => {
+        console.error('Failed to load calendar QR code for editing:', err);
+        setError('Failed to load this QR code for editing');
+      });
+  }, [editItem]);
+
+  // Size of the payload as it would be encoded now
+  let payloadBytes = 0;
+  try {
+    payloadBytes = new TextEncoder().encode(buildCalendarPayload(toCalendarEvent(form), { compact: form.compact })).length;
+  } catch (err) {
+    payloadBytes = 0;
+  }
+
+  // Generate calendar QR code
+  const generateQR = useCallback(async () => {
+    let event: CalendarEvent;
+    try {
+      event = toCalendarEvent(form);
+    } catch (err) {
+      setError('Enter a start and end date');
+      return;
+    }
+
+    const validation = validateCalendarEvent(event);
+    if (!validation.isValid) {
+      setError(validation.error || 'Invalid event details');
+      return;
+    }
+
+    setIsGenerating(true);
+    setError('');
+
+    try {
+      const payload = buildCalendarPayload(event, { compact: form.compact });
+      const dataUrl = await generateQRCode(payload, qrOptions);
+      setQrDataUrl(dataUrl);
+
+      const qrData: QRCodeData = {
+        id: Date.now(),
+        text: payload,
+        dataUrl,
+        timestamp: new Date().toISOString(),
+        title: `Event: ${form.title.trim()}`,
+        revision: revisionBase ? await createRevisionLink(revisionBase) : undefined,
+        type: 'calendar',
+        metadata: {
+          size: qrOptions.width || 256,
+          errorLevel: qrOptions.errorCorrectionLevel || 'L',
+          color: {
+            dark: qrOptions.color?.dark || '#000000',
+            light: qrOptions.color?.light || '#FFFFFF'
+          }
+        },
+        recipe: await createRecipe(payload, qrOptions, {
+          contentType: 'calendar',
+          // Attendees and recurrence are nested, so the form is kept as JSON
+          fields: { event: JSON.stringify(form) }
+        })
+      };
+
+      // Save to history and track analytics
+      await addToQRHistory(qrData);
+      await trackQRGeneration('calendar', qrOptions.width || 256);
+      if (revisionBase) {
+        setRevisionBase(qrData);
+      }
+
+      onQRGenerated?.(qrData);
+    } catch (err) {
+      console.error('Calendar QR generation failed:', err);
+      setError('Failed to generate event QR code. Try the compact size or a shorter description.');
+      setQrDataUrl('');
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [form, qrOptions, revisionBase, onQRGenerated]);
+
+  // Update form data
+  const updateForm = (updates: Partial<CalendarForm>) => {
+    setForm(prev => ({ ...prev, ...updates }));
+    setQrDataUrl('');
+    setError('');
+  };
+
+  // Date inputs switch between dates and date-times
+  const toggleAllDay = (allDay: boolean) => {
+    updateForm({
+      allDay,
+      start: allDay ? form.start.slice(0, 10) : `${form.start.slice(0, 10)}T09:00`,
+      end: allDay ? form.end.slice(0, 10) : `${form.end.slice(0, 10)}T10:00`
+    });
+  };
+
+  const toggleWeekday = (day: CalendarWeekday) => {
+    updateForm({ byDay: form.byDay.includes(day) ? form.byDay.filter(item => item !== day) : [...form.byDay, day] });
+  };
+
+  const updateAttendee = (index: number, updates: Partial<CalendarAttendee>) => {
+    updateForm({ attendees: form.attendees.map((attendee, i) => (i === index ? { ...attendee, ...updates } : attendee)) });
+  };
+
+  // Download QR code
+  const handleDownload = async () => {
+    if (!qrDataUrl) return;
+
+    try {
+      const name = form.title.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+      await downloadFile(qrDataUrl, `event-${name}-${Date.now()}.png`);
+      await trackDownload();
+    } catch (err) {
+      console.error('Download failed:', err);
+      setError('Failed to download QR code');
+    }
+  };
+
+  // Copy to clipboard
+  const handleCopy = async () => {
+    if (!qrDataUrl) return;
+
+    try {
+      const response = await fetch(qrDataUrl);
+      const blob = await response.blob();
+      await navigator.clipboard.write([new ClipboardItem({ [blob.type]: blob })]);
+      setError('');
+    } catch (err) {
+      console.error('Copy failed:', err);
+      setError('Failed to copy to clipboard');
+    }
+  };
+
+  // Clear form
+  const clearForm = () => {
+    setForm(createEmptyForm());
+    setQrDataUrl('');
+    setError('');
+  };
+
+  return (
+    <div className={`bg-white rounded-lg border p-4 space-y-4 ${className}`}>
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <CalendarDays className="w-5 h-5 text-blue-600" />
+          <h3 className="font-semibold text-gray-900">Calendar Event QR Generator</h3>
+        </div>
+
+        <button
+          onClick={clearForm}
+          className="text-sm text-gray-500 hover:text-gray-700"
+        >
+          Clear
+        </button>
+      </div>
+
+      {/* Revision Banner */}
+      {revisionBase && (
+        <div className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg px-3 py-2">
+          <div className="flex items-center space-x-2 min-w-0">
+            <GitBranch className="w-4 h-4 text-blue-600 flex-shrink-0" />
+            <span className="text-sm text-blue-900 truncate">
+              Editing {revisionBase.title} (v{revisionBase.revision?.number || 1})
+            </span>
+          </div>
+          <button
+            onClick={() => {
+              setRevisionBase(null);
+              onCancelEdit?.();
+            }}
+            className="p-1 text-blue-400 hover:text-blue-700"
+            title="Stop editing"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Event Form */}
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Title *</label>
+          <input
+            type="text"
+            value={form.title}
+            onChange={(e) => updateForm({ title: e.target.value })}
+            placeholder="Team meeting"
+            className={inputClass}
+          />
+        </div>
+
+        {/* When */}
+        <div className="space-y-2">
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={form.allDay}
+              onChange={(e) => toggleAllDay(e.target.checked)}
+              className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 focus:ring-2"
+            />
+            <span className="text-sm text-gray-700">All-day event</span>
+          </label>
+          <div className="flex space-x-2">
+            <div className="flex-1">
+              <label className="block text-xs text-gray-500 mb-1">Starts</label>
+              <input
+                type={form.allDay ? 'date' : 'datetime-local'}
+                value={form.start}
+                onChange={(e) => updateForm({ start: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div className="flex-1">
+              <label className="block text-xs text-gray-500 mb-1">{form.allDay ? 'Last day' : 'Ends'}</label>
+              <input
+                type={form.allDay ? 'date' : 'datetime-local'}
+                value={form.end}
+                onChange={(e) => updateForm({ end: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Time zone</label>
+            <select
+              value={form.timeZone}
+              onChange={(e) => updateForm({ timeZone: e.target.value })}
+              className={inputClass}
+            >
+              {TIME_ZONES.map(zone => (
+                <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Recurrence */}
+        <div className="space-y-2">
+          <label className="flex items-center text-sm font-medium text-gray-700">
+            <Repeat className="w-3 h-3 mr-1" />
+            Repeat
+          </label>
+          <div className="flex space-x-2">
+            <select
+              value={form.repeat}
+              onChange={(e) => updateForm({ repeat: e.target.value as CalendarForm['repeat'] })}
+              className={inputClass}
+            >
+              {REPEAT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            {form.repeat !== 'none' && (
+              <input
+                type="number"
+                min={1}
+                value={form.interval}
+                onChange={(e) => updateForm({ interval: Math.max(1, Number(e.target.value) || 1) })}
+                className="w-20 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                title="Repeat every N periods"
+              />
+            )}
+          </div>
+
+          {form.repeat === 'WEEKLY' && (
+            <div className="flex space-x-1">
+              {CALENDAR_WEEKDAYS.map(day => (
+                <button
+                  key={day}
+                  onClick={() => toggleWeekday(day)}
+                  className={`flex-1 py-1 text-xs font-medium rounded-md transition-colors ${
+                    form.byDay.includes(day) ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  {day}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {form.repeat !== 'none' && (
+            <div className="flex space-x-2">
+              <select
+                value={form.ends}
+                onChange={(e) => updateForm({ ends: e.target.value as CalendarForm['ends'] })}
+                className={inputClass}
+              >
+                <option value="never">Never ends</option>
+                <option value="count">Ends after</option>
+                <option value="until">Ends on</option>
+              </select>
+              {form.ends === 'count' && (
+                <input
+                  type="number"
+                  min={1}
+                  value={form.count}
+                  onChange={(e) => updateForm({ count: Math.max(1, Number(e.target.value) || 1) })}
+                  className="w-24 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  title="Number of occurrences"
+                />
+              )}
+              {form.ends === 'until' && (
+                <input
+                  type="date"
+                  value={form.until}
+                  onChange={(e) => updateForm({ until: e.target.value })}
+                  className={inputClass}
+                />
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Reminder */}
+        <div>
+          <label className="flex items-center text-sm font-medium text-gray-700 mb-1">
+            <Bell className="w-3 h-3 mr-1" />
+            Reminder
+          </label>
+          <select
+            value={form.reminder === null ? 'none' : String(form.reminder)}
+            onChange={(e) => updateForm({ reminder: e.target.value === 'none' ? null : Number(e.target.value) })}
+            className={inputClass}
+          >
+            {REMINDER_OPTIONS.map(option => (
+              <option key={option.label} value={option.value === null ? 'none' : String(option.value)}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Details */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+          <input
+            type="text"
+            value={form.location}
+            onChange={(e) => updateForm({ location: e.target.value })}
+            placeholder="Conference room, address or link"
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+          <textarea
+            value={form.description}
+            onChange={(e) => updateForm({ description: e.target.value })}
+            rows={2}
+            className={`${inputClass} resize-none`}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Link</label>
+          <input
+            type="url"
+            value={form.url}
+            onChange={(e) => updateForm({ url: e.target.value })}
+            placeholder="https://example.com/event"
+            className={inputClass}
+          />
+        </div>
+
+        {/* People */}
+        <div className="space-y-2">
+          <label className="flex items-center text-sm font-medium text-gray-700">
+            <Users className="w-3 h-3 mr-1" />
+            Organizer and Attendees
+          </label>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={form.organizerName}
+              onChange={(e) => updateForm({ organizerName: e.target.value })}
+              placeholder="Organizer name"
+              className={inputClass}
+            />
+            <input
+              type="email"
+              value={form.organizerEmail}
+              onChange={(e) => updateForm({ organizerEmail: e.target.value })}
+              placeholder="organizer@example.com"
+              className={inputClass}
+            />
+          </div>
+          {form.attendees.map((attendee, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <input
+                type="email"
+                value={attendee.email}
+                onChange={(e) => updateAttendee(index, { email: e.target.value })}
+                placeholder="guest@example.com"
+                className={inputClass}
+              />
+              <label className="flex items-center space-x-1 text-xs text-gray-600 whitespace-nowrap">
+                <input
+                  type="checkbox"
+                  checked={!!attendee.optional}
+                  onChange={(e) => updateAttendee(index, { optional: e.target.checked || undefined })}
+                />
+                <span>Optional</span>
+              </label>
+              <button
+                onClick={() => updateForm({ attendees: form.attendees.filter((_, i) => i !== index) })}
+                className="p-2 text-gray-400 hover:text-red-500"
+                title="Remove attendee"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => updateForm({ attendees: [...form.attendees, { email: '' }] })}
+            className="flex items-center text-xs text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Add attendee
+          </button>
+        </div>
+
+        {/* Compact Size */}
+        <div>
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={form.compact}
+              onChange={(e) => updateForm({ compact: e.target.checked })}
+              className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 focus:ring-2"
+            />
+            <span className="text-sm text-gray-700">Compact size</span>
+          </label>
+          <p className="text-xs text-gray-500 mt-1">
+            {form.compact
+              ? 'Times are written in UTC, without a time zone definition or event id'
+              : 'Full iCalendar with time zone rules and an event id, so calendars can update the event'}
+            {payloadBytes > 0 && ` · ${payloadBytes} bytes`}
+          </p>
+        </div>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {/* Generate Button */}
+      <button
+        onClick={generateQR}
+        disabled={!form.title.trim() || isGenerating}
+        className="w-full bg-primary-600 text-white py-2 px-4 rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+      >
+        {isGenerating ? 'Generating...' : revisionBase ? 'Save Event QR Revision' : 'Generate Event QR Code'}
+      </button>
+
+      {/* QR Preview */}
+      {qrDataUrl && (
+        <div className="space-y-3">
+          <div className="bg-gray-50 rounded-lg p-4 flex justify-center">
+            <div className="bg-white p-2 rounded shadow-sm">
+              <img
+                src={qrDataUrl}
+                alt="Calendar Event QR Code"
+                className="block w-48 h-48"
+              />
+            </div>
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex space-x-2">
+            <button
+              onClick={handleCopy}
+              className="flex-1 flex items-center justify-center space-x-2 py-2 px-4 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors text-sm font-medium"
+            >
+              <Copy className="w-4 h-4" />
+              <span>Copy</span>
+            </button>
+
+            <button
+              onClick={handleDownload}
+              className="flex-1 flex items-center justify-center space-x-2 py-2 px-4 bg-primary-600 text-white hover:bg-primary-700 rounded-lg transition-colors text-sm font-medium"
+            >
+              <Download className="w-4 h-4" />
+              <span>Download</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalendarQRGenerator;
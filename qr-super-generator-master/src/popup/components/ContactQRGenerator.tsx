@@ -0,0 +1,543 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { Contact, Download, Copy, Plus, Trash2, GitBranch, X, Phone, Mail, MapPin } from 'lucide-react';
+import { generateQRCode, QROptions } from '../../utils/qr-generator';
+import { buildContactPayload, getContactDisplayName, validateContact, CONTACT_FORMAT_LABELS } from '../../utils/contact-payload';
+import { downloadFile } from '../../utils/chrome-apis';
+import { createRecipe, loadRecipeForEditing } from '../../utils/qr-recipe';
+import { addToQRHistory, trackQRGeneration, trackDownload, createRevisionLink } from '../../utils/storage';
+import { ContactEmail, ContactEmailType, ContactFormat, ContactInfo, ContactPhone, ContactPhoneType, QRCodeData } from '../../types';
+
+interface ContactQRGeneratorProps {
+  onQRGenerated?: (qrData: QRCodeData) => void;
+  // History entry to edit; saving creates a new revision linked to it
+  editItem?: QRCodeData;
+  onCancelEdit?: () => void;
+  className?: string;
+}
+
+const PHONE_TYPES: Array<{ value: ContactPhoneType; label: string }> = [
+  { value: 'cell', label: 'Mobile' },
+  { value: 'work', label: 'Work' },
+  { value: 'home', label: 'Home' },
+  { value: 'fax', label: 'Fax' }
+];
+
+const EMAIL_TYPES: Array<{ value: ContactEmailType; label: string }> = [
+  { value: 'work', label: 'Work' },
+  { value: 'home', label: 'Home' }
+];
+
+const EMPTY_CONTACT: ContactInfo = {
+  firstName: '',
+  lastName: '',
+  phones: [{ number: '', type: 'cell' }],
+  emails: [{ address: '', type: 'work' }],
+  address: {}
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const ContactQRGenerator: React.FC<ContactQRGeneratorProps> = ({
+  onQRGenerated,
+  editItem,
+  onCancelEdit,
+  className = ''
+}) => {
+  // Contact form state
+  const [contact, setContact] = useState<ContactInfo>(EMPTY_CONTACT);
+  const [format, setFormat] = useState<ContactFormat>('vcard3');
+
+  // Component state
+  const [qrDataUrl, setQrDataUrl] = useState<string>('');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [revisionBase, setRevisionBase] = useState<QRCodeData | null>(editItem || null);
+  const [qrOptions, setQrOptions] = useState<QROptions>({
+    width: 256,
+    margin: 1,
+    color: {
+      dark: '#000000',
+      light: '#FFFFFF'
+    },
+    // Contacts are long, so a lower level keeps the code readable
+    errorCorrectionLevel: 'L',
+    type: 'image/png'
+  });
+
+  // Restore the contact details and render options of the entry being edited
+  useEffect(() => {
+    if (!editItem) return;
+
+    setRevisionBase(editItem);
+    loadRecipeForEditing(editItem)
+      .then(editable => {
+        const { fields } = editable;
+        if (typeof fields?.contact === 'string') {
+          setContact(JSON.parse(fields.contact));
+        }
+        if (fields?.format === 'vcard3' || fields?.format === 'vcard4' || fields?.format === 'mecard') {
+          setFormat(fields.format);
+        }
+        setQrOptions({ ...editable.options, type: 'image/png' });
+      })
+      .catch(err => {
+        console.error('Failed to load contact QR code for editing:', err);
+        setError('Failed to load this QR code for editing');
+      });
+  }, [editItem]);
+
+  const payload = buildContactPayload(contact, format);
+  const payloadBytes = new TextEncoder().encode(payload).length;
+
+  // Generate contact QR code
+  const generateQR = useCallback(async () => {
+    const validation = validateContact(contact);
+    if (!validation.isValid) {
+      setError(validation.error || 'Invalid contact details');
+      return;
+    }
+
+    setIsGenerating(true);
+    setError('');
+
+    try {
+      const dataUrl = await generateQRCode(payload, qrOptions);
+      setQrDataUrl(dataUrl);
+
+      const qrData: QRCodeData = {
+        id: Date.now(),
+        text: payload,
+        dataUrl,
+        timestamp: new Date().toISOString(),
+        title: `Contact: ${getContactDisplayName(contact)}`,
+        revision: revisionBase ? await createRevisionLink(revisionBase) : undefined,
+        type: 'contact',
+        metadata: {
+          size: qrOptions.width || 256,
+          errorLevel: qrOptions.errorCorrectionLevel || 'L',
+          color: {
+            dark: qrOptions.color?.dark || '#000000',
+            light: qrOptions.color?.light || '#FFFFFF'
+          }
+        },
+        recipe: await createRecipe(payload, qrOptions, {
+          contentType: 'contact',
+          // Phones and emails are lists, so the contact is kept as JSON
+          fields: { format, contact: JSON.stringify(contact) }
+        })
+      };
+
+      // Save to history and track analytics
+      await addToQRHistory(qrData);
+      await trackQRGeneration('contact', qrOptions.width || 256);
+      if (revisionBase) {
+        setRevisionBase(qrData);
+      }
+
+      onQRGenerated?.(qrData);
+    } catch (err) {
+      console.error('Contact QR generation failed:', err);
+      setError('Failed to generate contact QR code. The contact may be too long for a QR code.');
+      setQrDataUrl('');
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [contact, format, payload, qrOptions, revisionBase, onQRGenerated]);
+
+  // Update contact data
+  const updateContact = (updates: Partial<ContactInfo>) => {
+    setContact(prev => ({ ...prev, ...updates }));
+    setQrDataUrl('');
+    setError('');
+  };
+
+  const updateAddress = (updates: Partial<NonNullable<ContactInfo['address']>>) => {
+    updateContact({ address: { ...contact.address, ...updates } });
+  };
+
+  const updatePhone = (index: number, updates: Partial<ContactPhone>) => {
+    updateContact({ phones: (contact.phones || []).map((phone, i) => (i === index ? { ...phone, ...updates } : phone)) });
+  };
+
+  const updateEmail = (index: number, updates: Partial<ContactEmail>) => {
+    updateContact({ emails: (contact.emails || []).map((email, i) => (i === index ? { ...email, ...updates } : email)) });
+  };
+
+  // Download QR code
+  const handleDownload = async () => {
+    if (!qrDataUrl) return;
+
+    try {
+      const name = getContactDisplayName(contact).replace(/[^a-z0-9]/gi, '_').toLowerCase();
+      await downloadFile(qrDataUrl, `contact-${name}-${Date.now()}.png`);
+      await trackDownload();
+    } catch (err) {
+      console.error('Download failed:', err);
+      setError('Failed to download QR code');
+    }
+  };
+
+  // Copy to clipboard
+  const handleCopy = async () => {
+    if (!qrDataUrl) return;
+
+    try {
+      const response = await fetch(qrDataUrl);
+      const blob = await response.blob();
+      await navigator.clipboard.write([new ClipboardItem({ [blob.type]: blob })]);
+      setError('');
+    } catch (err) {
+      console.error('Copy failed:', err);
+      setError('Failed to copy to clipboard');
+    }
+  };
+
+  // Clear form
+  const clearForm = () => {
+    setContact(EMPTY_CONTACT);
+    setQrDataUrl('');
+    setError('');
+  };
+
+  return (
+    <div className={`bg-white rounded-lg border p-4 space-y-4 ${className}`}>
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Contact className="w-5 h-5 text-blue-600" />
+          <h3 className="font-semibold text-gray-900">Contact QR Generator</h3>
+        </div>
+
+        <button
+          onClick={clearForm}
+          className="text-sm text-gray-500 hover:text-gray-700"
+        >
+          Clear
+        </button>
+      </div>
+
+      {/* Revision Banner */}
+      {revisionBase && (
+        <div className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg px-3 py-2">
+          <div className="flex items-center space-x-2 min-w-0">
+            <GitBranch className="w-4 h-4 text-blue-600 flex-shrink-0" />
+            <span className="text-sm text-blue-900 truncate">
+              Editing {revisionBase.title} (v{revisionBase.revision?.number || 1})
+            </span>
+          </div>
+          <button
+            onClick={() => {
+              setRevisionBase(null);
+              onCancelEdit?.();
+            }}
+            className="p-1 text-blue-400 hover:text-blue-700"
+            title="Stop editing"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Format */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+        <div className="flex space-x-1 bg-gray-100 rounded-lg p-1">
+          {(Object.keys(CONTACT_FORMAT_LABELS) as ContactFormat[]).map(value => (
+            <button
+              key={value}
+              onClick={() => {
+                setFormat(value);
+                setQrDataUrl('');
+              }}
+              className={`flex-1 py-2 px-3 text-sm font-medium rounded-md transition-colors ${
+                format === value
+                  ? 'bg-white text-blue-600 shadow-sm'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {CONTACT_FORMAT_LABELS[value]}
+            </button>
+          ))}
+        </div>
+        {format === 'mecard' && (
+          <p className="text-xs text-gray-500 mt-1">
+            MECARD makes smaller codes but leaves out the job title, photo and phone types
+          </p>
+        )}
+      </div>
+
+      {/* Contact Form */}
+      <div className="space-y-4">
+        {/* Name */}
+        <div className="flex space-x-2">
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 mb-1">First Name</label>
+            <input
+              type="text"
+              value={contact.firstName || ''}
+              onChange={(e) => updateContact({ firstName: e.target.value })}
+              placeholder="Jane"
+              className={inputClass}
+            />
+          </div>
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Last Name</label>
+            <input
+              type="text"
+              value={contact.lastName || ''}
+              onChange={(e) => updateContact({ lastName: e.target.value })}
+              placeholder="Doe"
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        {/* Organization */}
+        <div className="flex space-x-2">
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Organization</label>
+            <input
+              type="text"
+              value={contact.organization || ''}
+              onChange={(e) => updateContact({ organization: e.target.value })}
+              placeholder="Acme Inc."
+              className={inputClass}
+            />
+          </div>
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Job Title</label>
+            <input
+              type="text"
+              value={contact.jobTitle || ''}
+              onChange={(e) => updateContact({ jobTitle: e.target.value })}
+              placeholder="Engineer"
+              disabled={format === 'mecard'}
+              className={`${inputClass} disabled:opacity-50`}
+            />
+          </div>
+        </div>
+
+        {/* Phones */}
+        <div className="space-y-2">
+          <label className="flex items-center text-sm font-medium text-gray-700">
+            <Phone className="w-3 h-3 mr-1" />
+            Phone Numbers
+          </label>
+          {(contact.phones || []).map((phone, index) => (
+            <div key={index} className="flex space-x-2">
+              <select
+                value={phone.type || 'cell'}
+                onChange={(e) => updatePhone(index, { type: e.target.value as ContactPhoneType })}
+                className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                {PHONE_TYPES.map(type => (
+                  <option key={type.value} value={type.value}>{type.label}</option>
+                ))}
+              </select>
+              <input
+                type="tel"
+                value={phone.number}
+                onChange={(e) => updatePhone(index, { number: e.target.value })}
+                placeholder="+1 555 123 4567"
+                className={inputClass}
+              />
+              <button
+                onClick={() => updateContact({ phones: (contact.phones || []).filter((_, i) => i !== index) })}
+                className="p-2 text-gray-400 hover:text-red-500"
+                title="Remove phone number"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => updateContact({ phones: [...(contact.phones || []), { number: '', type: 'work' }] })}
+            className="flex items-center text-xs text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Add phone
+          </button>
+        </div>
+
+        {/* Emails */}
+        <div className="space-y-2">
+          <label className="flex items-center text-sm font-medium text-gray-700">
+            <Mail className="w-3 h-3 mr-1" />
+            Email Addresses
+          </label>
+          {(contact.emails || []).map((email, index) => (
+            <div key={index} className="flex space-x-2">
+              <select
+                value={email.type || 'work'}
+                onChange={(e) => updateEmail(index, { type: e.target.value as ContactEmailType })}
+                className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                {EMAIL_TYPES.map(type => (
+                  <option key={type.value} value={type.value}>{type.label}</option>
+                ))}
+              </select>
+              <input
+                type="email"
+                value={email.address}
+                onChange={(e) => updateEmail(index, { address: e.target.value })}
+                placeholder="jane@example.com"
+                className={inputClass}
+              />
+              <button
+                onClick={() => updateContact({ emails: (contact.emails || []).filter((_, i) => i !== index) })}
+                className="p-2 text-gray-400 hover:text-red-500"
+                title="Remove email address"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => updateContact({ emails: [...(contact.emails || []), { address: '', type: 'home' }] })}
+            className="flex items-center text-xs text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Add email
+          </button>
+        </div>
+
+        {/* Address */}
+        <div className="space-y-2">
+          <label className="flex items-center text-sm font-medium text-gray-700">
+            <MapPin className="w-3 h-3 mr-1" />
+            Address
+          </label>
+          <input
+            type="text"
+            value={contact.address?.street || ''}
+            onChange={(e) => updateAddress({ street: e.target.value })}
+            placeholder="Street"
+            className={inputClass}
+          />
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={contact.address?.city || ''}
+              onChange={(e) => updateAddress({ city: e.target.value })}
+              placeholder="City"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={contact.address?.state || ''}
+              onChange={(e) => updateAddress({ state: e.target.value })}
+              placeholder="State"
+              className={inputClass}
+            />
+          </div>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={contact.address?.zipCode || ''}
+              onChange={(e) => updateAddress({ zipCode: e.target.value })}
+              placeholder="ZIP code"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={contact.address?.country || ''}
+              onChange={(e) => updateAddress({ country: e.target.value })}
+              placeholder="Country"
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        {/* Website and Photo */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Website</label>
+          <input
+            type="url"
+            value={contact.website || ''}
+            onChange={(e) => updateContact({ website: e.target.value })}
+            placeholder="https://example.com"
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Photo Link</label>
+          <input
+            type="url"
+            value={contact.photoUrl || ''}
+            onChange={(e) => updateContact({ photoUrl: e.target.value })}
+            placeholder="https://example.com/photo.jpg"
+            disabled={format === 'mecard'}
+            className={`${inputClass} disabled:opacity-50`}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+          <textarea
+            value={contact.note || ''}
+            onChange={(e) => updateContact({ note: e.target.value })}
+            rows={2}
+            className={`${inputClass} resize-none`}
+          />
+        </div>
+
+        <p className="text-xs text-gray-500">
+          {payloadBytes} bytes of contact data{payloadBytes > 1200 ? ' — large codes are harder to scan' : ''}
+        </p>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {/* Generate Button */}
+      <button
+        onClick={generateQR}
+        disabled={!getContactDisplayName(contact) || isGenerating}
+        className="w-full bg-primary-600 text-white py-2 px-4 rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+      >
+        {isGenerating ? 'Generating...' : revisionBase ? 'Save Contact QR Revision' : 'Generate Contact QR Code'}
+      </button>
+
+      {/* QR Preview */}
+      {qrDataUrl && (
+        <div className="space-y-3">
+          <div className="bg-gray-50 rounded-lg p-4 flex justify-center">
+            <div className="bg-white p-2 rounded shadow-sm">
+              <img
+                src={qrDataUrl}
+                alt="Contact QR Code"
+                className="block w-48 h-48"
+              />
+            </div>
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex space-x-2">
+            <button
+              onClick={handleCopy}
+              className="flex-1 flex items-center justify-center space-x-2 py-2 px-4 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors text-sm font-medium"
+            >
+              <Copy className="w-4 h-4" />
+              <span>Copy</span>
+            </button>
+
+            <button
+              onClick={handleDownload}
+              className="flex-1 flex items-center justify-center space-x-2 py-2 px-4 bg-primary-600 text-white hover:bg-primary-700 rounded-lg transition-colors text-sm font-medium"
+            >
+              <Download className="w-4 h-4" />
+              <span>Download</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContactQRGenerator;
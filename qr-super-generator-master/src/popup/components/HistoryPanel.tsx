@@ -1,6 +1,30 @@
-import React, { useState, useEffect } from 'react';
-import { History, Search, Filter, Copy, Download, ExternalLink, Trash2, Archive, Star, Clock, Globe, Wifi, FileText, Sparkles, AlertCircle } from 'lucide-react';
-import { QRCodeData } from '../../types';
+import React, { useState, useEffect, useCallback } from 'react';
+import { History, Search, Filter, Copy, Download, ExternalLink, Trash2, Archive, Star, Clock, Globe, Wifi, FileText, Sparkles, AlertCircle, Pencil, GitBranch, Heart, Tag, Folder, FolderOpen, RotateCcw } from 'lucide-react';
+import { QRCodeData, QRCollection } from '../../types';
+import {
+  searchQRHistory,
+  getQRHistoryCount,
+  removeFromQRHistory,
+  clearQRHistory,
+  restoreQRCodes,
+  getTrashCount,
+  getQRRevisionChain,
+  getRevisedQRIds,
+  getQRCollections,
+  getQRCollectionCounts,
+  getQRTags,
+  createQRCollection,
+  deleteQRCollection,
+  moveQRCodesToCollection,
+  addTagsToQRCodes,
+  removeTagFromQRCodes,
+  setQRFavorite
+} from '../../utils/storage';
+import { HistoryQuery } from '../../utils/history-db';
+import { getHighlightRanges } from '../../utils/history-search';
+import { renderHistoryItem } from '../../utils/qr-recipe';
+import HistorySidebar, { LibraryFilter } from './HistorySidebar';
+import TrashPanel from './TrashPanel';
 
 // QR Code Image component with error handling
 const QRCodeImage: React.FC<{ src: string; alt: string; className: string }> = ({ src, alt, className }) => {
@@ -17,7 +41,8 @@ const QRCodeImage: React.FC<{ src: string; alt: string; className: string }> = (
     setImageError(true);
   };
 
-  if (imageError) {
+  // A recipe that failed to render comes back without an image
+  if (imageError || !src) {
     return (
       <div className={`${className} flex items-center justify-center bg-gray-700/50`}>
         <AlertCircle className="w-6 h-6 text-gray-400" />
@@ -45,86 +70,195 @@ const QRCodeImage: React.FC<{ src: string; alt: string; className: string }> = (
   );
 };
 
+// Mark the parts of a value that matched the search
+const Highlight: React.FC<{ value: string; matches?: string[] }> = ({ value, matches }) => {
+  const ranges = matches && matches.length > 0 ? getHighlightRanges(value, matches) : [];
+  if (ranges.length === 0) return <>{value}</>;
+
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > last) parts.push(value.slice(last, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-400/30 text-inherit rounded-sm">
+        {value.slice(start, end)}
+      </mark>
+    );
+    last = end;
+  });
+  if (last < value.length) parts.push(value.slice(last));
+
+  return <>{parts}</>;
+};
+
+// Deleted ids that can still be put back from the trash
+interface UndoState {
+  ids: number[];
+  message: string;
+}
+
+// Toast offering to undo the last delete
+const UndoToast: React.FC<{ undo: UndoState; onUndo: () => void; onDismiss: () => void }> = ({ undo, onUndo, onDismiss }) => {
+  useEffect(() => {
+    const timeoutId = setTimeout(onDismiss, UNDO_DURATION);
+    return () => clearTimeout(timeoutId);
+  }, [undo, onDismiss]);
+
+  return (
+    <div className="fixed bottom-4 left-4 right-4 z-50 glass-card flex items-center justify-between bg-dark-800/95">
+      <span className="text-sm text-white">{undo.message}</span>
+      <button onClick={onUndo} className="flex items-center space-x-1 text-sm text-primary-300 hover:text-white">
+        <RotateCcw className="w-4 h-4" />
+        <span>Undo</span>
+      </button>
+    </div>
+  );
+};
+
 interface HistoryPanelProps {
   recentQRCodes: QRCodeData[];
   onClearHistory: () => void;
+  onEdit?: (qr: QRCodeData) => void;
 }
 
 type FilterType = 'all' | 'url' | 'wifi' | 'text' | 'custom';
 type SortType = 'newest' | 'oldest' | 'type' | 'title';
 
-const HistoryPanel: React.FC<HistoryPanelProps> = ({ recentQRCodes, onClearHistory }) => {
+// History is read from the database a page at a time
+const PAGE_SIZE = 30;
+// Wait for a pause in typing before searching
+const SEARCH_DELAY = 200;
+// How long the undo toast stays up after a delete
+const UNDO_DURATION = 6000;
+
+// Turn the sidebar selection into history query fields
+const toLibraryQuery = (library: LibraryFilter): Pick<HistoryQuery, 'collectionId' | 'tag' | 'favorite'> => {
+  switch (library.kind) {
+    case 'favorites': return { favorite: true };
+    case 'unfiled': return { collectionId: null };
+    case 'collection': return { collectionId: library.id };
+    case 'tag': return { tag: library.tag };
+    default: return {};
+  }
+};
+
+// Skip entries that have neither a recipe nor a stored image to show
+const isDisplayable = (qr: QRCodeData) =>
+  qr && qr.text && qr.timestamp && (qr.recipe || qr.dataUrl.startsWith('data:image/'));
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ recentQRCodes, onClearHistory, onEdit }) => {
   const [allQRCodes, setAllQRCodes] = useState<QRCodeData[]>([]);
   const [filteredCodes, setFilteredCodes] = useState<QRCodeData[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  const [activeSearch, setActiveSearch] = useState('');
+  const [searchMatches, setSearchMatches] = useState<Record<number, string[]>>({});
+  const [searchErrors, setSearchErrors] = useState<string[]>([]);
   const [filter, setFilter] = useState<FilterType>('all');
   const [sortBy, setSortBy] = useState<SortType>('newest');
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
   const [showBulkActions, setShowBulkActions] = useState(false);
 
-  useEffect(() => {
-    // Load all QR codes from history
-    const loadHistory = async () => {
-      try {
-        const result = await chrome.storage.local.get(['qrHistory']);
-        if (result.qrHistory && Array.isArray(result.qrHistory)) {
-          // Validate QR codes and filter out corrupted ones
-          const validQRCodes = result.qrHistory.filter(qr => 
-            qr && 
-            qr.dataUrl && 
-            qr.text && 
-            qr.timestamp &&
-            qr.dataUrl.startsWith('data:image/')
-          );
-          setAllQRCodes(validQRCodes);
-        }
-      } catch (error) {
-        console.error('Failed to load QR history:', error);
-        setAllQRCodes([]);
-      }
-    };
-    
-    loadHistory();
-  }, [recentQRCodes]);
+  const [nextOffset, setNextOffset] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  // Revision chains: which roots have revisions, and the chain shown for one entry
+  const [revisedIds, setRevisedIds] = useState<Set<number>>(new Set());
+  const [chainOwner, setChainOwner] = useState<number | null>(null);
+  const [revisionChain, setRevisionChain] = useState<QRCodeData[]>([]);
+
+  // Library organisation: folders, tags and the sidebar selection
+  const [showSidebar, setShowSidebar] = useState(false);
+  const [library, setLibrary] = useState<LibraryFilter>({ kind: 'all' });
+  const [collections, setCollections] = useState<QRCollection[]>([]);
+  const [collectionCounts, setCollectionCounts] = useState<Map<string, number>>(new Map());
+  const [tags, setTags] = useState<Array<{ tag: string; count: number }>>([]);
+  const [bulkTag, setBulkTag] = useState('');
+  // Trash
+  const [showTrash, setShowTrash] = useState(false);
+  const [trashCount, setTrashCount] = useState(0);
+  const [undo, setUndo] = useState<UndoState | null>(null);
 
   useEffect(() => {
-    let filtered = [...allQRCodes];
-
-    // Apply search filter
-    if (searchTerm) {
-      filtered = filtered.filter(qr => 
-        qr.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        qr.text.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-    }
+    const timeoutId = setTimeout(() => setActiveSearch(searchTerm.trim()), SEARCH_DELAY);
+    return () => clearTimeout(timeoutId);
+  }, [searchTerm]);
+
+  // Load one page of history matching the current search, type filter and date order
+  const loadPage = useCallback(async (offset: number) => {
+    const page = await searchQRHistory(activeSearch, {
+      offset,
+      limit: PAGE_SIZE,
+      type: filter !== 'all' ? filter : undefined,
+      ...toLibraryQuery(library),
+      order: sortBy === 'oldest' ? 'oldest' : 'newest'
+    });
 
-    // Apply type filter
-    if (filter !== 'all') {
-      filtered = filtered.filter(qr => qr.type === filter);
+    const validQRCodes = page.items.filter(isDisplayable);
+    setAllQRCodes(prev => (offset === 0 ? validQRCodes : [...prev, ...validQRCodes]));
+    setSearchMatches(prev => (offset === 0 ? page.matches : { ...prev, ...page.matches }));
+    setSearchErrors(page.errors);
+    setNextOffset(offset + page.items.length);
+    setHasMore(page.hasMore);
+  }, [activeSearch, filter, sortBy, library]);
+
+  const refreshLibrary = useCallback(async () => {
+    try {
+      const [nextCollections, nextCounts, nextTags] = await Promise.all([
+        getQRCollections(),
+        getQRCollectionCounts(),
+        getQRTags()
+      ]);
+      setCollections(nextCollections);
+      setCollectionCounts(nextCounts);
+      setTags(nextTags);
+    } catch (error) {
+      console.error('Failed to load library:', error);
     }
+  }, []);
 
-    // Apply sorting
-    filtered.sort((a, b) => {
-      switch (sortBy) {
-        case 'newest':
-          return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
-        case 'oldest':
-          return new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
-        case 'type':
-          return (a.type || '').localeCompare(b.type || '');
-        case 'title':
-          return a.title.localeCompare(b.title);
-        default:
-          return 0;
-      }
+  useEffect(() => {
+    loadPage(0).catch(error => {
+      console.error('Failed to load QR history:', error);
+      setAllQRCodes([]);
     });
+    getQRHistoryCount().then(setTotalCount).catch(() => setTotalCount(0));
+    getTrashCount().then(setTrashCount).catch(() => setTrashCount(0));
+    getRevisedQRIds().then(setRevisedIds).catch(() => setRevisedIds(new Set()));
+  }, [loadPage, recentQRCodes]);
+
+  useEffect(() => {
+    refreshLibrary();
+  }, [refreshLibrary, recentQRCodes]);
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+    try {
+      await loadPage(nextOffset);
+    } catch (error) {
+      console.error('Failed to load more history:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
-    setFilteredCodes(filtered);
-  }, [allQRCodes, searchTerm, filter, sortBy]);
+  useEffect(() => {
+    const sorted = [...allQRCodes];
+
+    // Date order comes from the database; other orders apply to what's loaded
+    if (sortBy === 'type') {
+      sorted.sort((a, b) => (a.type || '').localeCompare(b.type || ''));
+    } else if (sortBy === 'title') {
+      sorted.sort((a, b) => a.title.localeCompare(b.title));
+    }
+
+    setFilteredCodes(sorted);
+  }, [allQRCodes, sortBy]);
 
   const handleCopy = async (qr: QRCodeData) => {
     try {
-      const response = await fetch(qr.dataUrl);
+      const response = await fetch(await renderHistoryItem(qr, { type: 'image/png' }));
       const blob = await response.blob();
       await navigator.clipboard.write([new ClipboardItem({ [blob.type]: blob })]);
     } catch (error) {
@@ -132,17 +266,137 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ recentQRCodes, onClearHisto
     }
   };
 
-  const handleDownload = (qr: QRCodeData) => {
-    const link = document.createElement('a');
-    link.href = qr.dataUrl;
-    link.download = `${qr.title.replace(/[^a-z0-9]/gi, '_')}.png`;
-    link.click();
+  const handleDownload = async (qr: QRCodeData) => {
+    try {
+      // List images are thumbnails, so render the recipe again at full size
+      const link = document.createElement('a');
+      link.href = await renderHistoryItem(qr, { type: 'image/png' });
+      link.download = `${qr.title.replace(/[^a-z0-9]/gi, '_')}.png`;
+      link.click();
+    } catch (error) {
+      console.error('Failed to download:', error);
+    }
+  };
+
+  const toggleRevisionChain = async (qr: QRCodeData) => {
+    if (chainOwner === qr.id) {
+      setChainOwner(null);
+      return;
+    }
+
+    try {
+      setRevisionChain(await getQRRevisionChain(qr));
+      setChainOwner(qr.id);
+    } catch (error) {
+      console.error('Failed to load revisions:', error);
+    }
+  };
+
+  const handleToggleFavorite = async (qr: QRCodeData) => {
+    try {
+      await setQRFavorite(qr.id, !qr.favorite);
+      setAllQRCodes(prev => prev
+        .map(item => (item.id === qr.id ? { ...item, favorite: !qr.favorite } : item))
+        .filter(item => library.kind !== 'favorites' || item.favorite));
+    } catch (error) {
+      console.error('Failed to update favorite:', error);
+    }
+  };
+
+  const handleRemoveTag = async (qr: QRCodeData, tag: string) => {
+    try {
+      await removeTagFromQRCodes([qr.id], tag);
+      await loadPage(0);
+      await refreshLibrary();
+    } catch (error) {
+      console.error('Failed to remove tag:', error);
+    }
+  };
+
+  const handleCreateCollection = async (name: string) => {
+    await createQRCollection(name);
+    await refreshLibrary();
+  };
+
+  const handleDeleteCollection = async (collection: QRCollection) => {
+    if (!confirm(`Delete the folder "${collection.name}"? Its QR codes stay in your history.`)) return;
+
+    try {
+      await deleteQRCollection(collection.id);
+      if (library.kind === 'collection' && library.id === collection.id) {
+        setLibrary({ kind: 'all' });
+      } else {
+        await loadPage(0);
+      }
+      await refreshLibrary();
+    } catch (error) {
+      console.error('Failed to delete collection:', error);
+    }
+  };
+
+  // Reload everything a move in or out of the trash can affect
+  const reloadAfterTrashChange = useCallback(async () => {
+    await loadPage(0);
+    const [count, trashed, revised] = await Promise.all([getQRHistoryCount(), getTrashCount(), getRevisedQRIds()]);
+    setTotalCount(count);
+    setTrashCount(trashed);
+    setRevisedIds(revised);
+    await refreshLibrary();
+  }, [loadPage, refreshLibrary]);
+
+  const showUndo = (ids: number[]) => {
+    if (ids.length === 0) return;
+    setTrashCount(prev => prev + ids.length);
+    setUndo({ ids, message: `Moved ${ids.length} QR code${ids.length !== 1 ? 's' : ''} to the trash` });
+  };
+
+  const dismissUndo = useCallback(() => setUndo(null), []);
+
+  const handleUndo = async () => {
+    if (!undo) return;
+    setUndo(null);
+
+    try {
+      await restoreQRCodes(undo.ids);
+      await reloadAfterTrashChange();
+    } catch (error) {
+      console.error('Failed to restore QR codes:', error);
+    }
   };
 
   const handleDelete = (qr: QRCodeData) => {
     const updatedHistory = allQRCodes.filter(item => item.id !== qr.id);
-    chrome.storage.local.set({ qrHistory: updatedHistory });
+    removeFromQRHistory(qr.id)
+      .then(showUndo)
+      .catch(error => console.error('Failed to delete QR code:', error));
     setAllQRCodes(updatedHistory);
+    setNextOffset(prev => Math.max(0, prev - 1));
+    setTotalCount(prev => Math.max(0, prev - 1));
+  };
+
+  // Bulk organisation changes reload the page, since entries may leave the current view
+  const handleBulkOrganize = async (change: () => Promise<void>) => {
+    try {
+      await change();
+      setSelectedItems(new Set());
+      setShowBulkActions(false);
+      await loadPage(0);
+      await refreshLibrary();
+    } catch (error) {
+      console.error('Failed to update QR codes:', error);
+    }
+  };
+
+  const handleBulkMove = (value: string) => {
+    const ids = Array.from(selectedItems, Number);
+    handleBulkOrganize(() => moveQRCodesToCollection(ids, value === 'none' ? null : value));
+  };
+
+  const handleBulkAddTag = () => {
+    const ids = Array.from(selectedItems, Number);
+    const newTags = bulkTag.split(',');
+    setBulkTag('');
+    handleBulkOrganize(() => addTagsToQRCodes(ids, newTags));
   };
 
   const handleBulkAction = (action: 'download' | 'delete') => {
@@ -152,14 +406,36 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ recentQRCodes, onClearHisto
         if (qr) handleDownload(qr);
       });
     } else if (action === 'delete') {
+      const count = selectedItems.size;
+      if (!confirm(`Move ${count} QR code${count !== 1 ? 's' : ''} to the trash?`)) return;
+
       const updatedHistory = allQRCodes.filter(item => !selectedItems.has(item.id.toString()));
-      chrome.storage.local.set({ qrHistory: updatedHistory });
+      removeFromQRHistory(Array.from(selectedItems, Number))
+        .then(showUndo)
+        .catch(error => console.error('Failed to delete QR codes:', error));
       setAllQRCodes(updatedHistory);
+      setNextOffset(prev => Math.max(0, prev - selectedItems.size));
+      setTotalCount(prev => Math.max(0, prev - selectedItems.size));
     }
     setSelectedItems(new Set());
     setShowBulkActions(false);
   };
 
+  const handleClearAll = async () => {
+    if (!confirm(`Move all ${totalCount} QR codes to the trash?`)) return;
+
+    try {
+      showUndo(await clearQRHistory());
+      setAllQRCodes([]);
+      setNextOffset(0);
+      setHasMore(false);
+      setTotalCount(0);
+      onClearHistory();
+    } catch (error) {
+      console.error('Failed to clear history:', error);
+    }
+  };
+
   const toggleSelection = (id: number) => {
     const idStr = id.toString();
     const newSelection = new Set(selectedItems);
@@ -205,6 +481,17 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ recentQRCodes, onClearHisto
     { value: 'title', label: 'By Title' }
   ];
 
+  if (showTrash) {
+    return (
+      <TrashPanel
+        onBack={() => setShowTrash(false)}
+        onChange={() => {
+          reloadAfterTrashChange().catch(error => console.error('Failed to reload history:', error));
+        }}
+      />
+    );
+  }
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -225,12 +512,16 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ recentQRCodes, onClearHisto
           <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
           <input
             type="text"
-            placeholder="Search QR codes..."
+            placeholder="Search, e.g. github type:url tag:work size:>512"
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="glass-input pl-10 w-full"
+            title="Qualifiers: type:, domain:, tag:, before:, after:, size: (e.g. size:>512). Use quotes for exact phrases."
           />
         </div>
+        {searchErrors.map(searchError => (
+          <p key={searchError} className="text-xs text-red-400">{searchError}</p>
+        ))}
 
         {/* Filters */}
         <div className="flex flex-wrap gap-2">
@@ -259,6 +550,24 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ recentQRCodes, onClearHisto
 
         {/* Sort */}
         <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setShowSidebar(!showSidebar)}
+            className={`flex items-center space-x-1 px-3 py-1 rounded-lg text-xs transition-all duration-200 ${
+              showSidebar ? 'bg-primary-500 text-white' : 'glass-button text-gray-300 hover:text-white'
+            }`}
+            title="Folders and tags"
+          >
+            <FolderOpen className="w-3 h-3" />
+            <span>Library</span>
+          </button>
+          <button
+            onClick={() => setShowTrash(true)}
+            className="flex items-center space-x-1 px-3 py-1 rounded-lg text-xs glass-button text-gray-300 hover:text-white"
+            title="Deleted QR codes"
+          >
+            <Trash2 className="w-3 h-3" />
+            <span>Trash{trashCount > 0 ? ` (${trashCount})` : ''}</span>
+          </button>
           <span className="text-sm text-gray-400">Sort by:</span>
           <select
             value={sortBy}
@@ -307,146 +616,295 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ recentQRCodes, onClearHisto
               </button>
             </div>
           </div>
+
+          <div className="flex items-center space-x-2 mt-3">
+            <select
+              value=""
+              onChange={(e) => handleBulkMove(e.target.value)}
+              className="glass-input text-xs flex-1"
+            >
+              <option value="" disabled className="bg-dark-800">Move to folder...</option>
+              <option value="none" className="bg-dark-800">No folder</option>
+              {collections.map(collection => (
+                <option key={collection.id} value={collection.id} className="bg-dark-800">
+                  {collection.name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={bulkTag}
+              onChange={(e) => setBulkTag(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && bulkTag.trim()) handleBulkAddTag();
+              }}
+              placeholder="tag, another"
+              className="glass-input text-xs flex-1 min-w-0"
+            />
+            <button
+              onClick={handleBulkAddTag}
+              disabled={!bulkTag.trim()}
+              className="glass-button px-3 py-1 text-xs hover:bg-primary-500/20 disabled:opacity-50"
+            >
+              <Tag className="w-3 h-3 mr-1" />
+              Add tag
+            </button>
+          </div>
         </div>
       )}
 
-      {/* QR Code List */}
-      <div className="space-y-3">
-        {filteredCodes.length === 0 ? (
-          <div className="glass-card text-center py-12">
-            <div className="w-16 h-16 bg-gradient-purple-blue rounded-full flex items-center justify-center mx-auto mb-4">
-              <History className="w-8 h-8 text-white" />
-            </div>
-            <h3 className="text-lg font-semibold text-white mb-2">
-              {searchTerm || filter !== 'all' ? 'No results found' : 'No QR codes yet'}
-            </h3>
-            <p className="text-gray-400 text-sm mb-4">
-              {searchTerm || filter !== 'all' 
-                ? 'Try adjusting your search or filters'
-                : 'Start generating QR codes to see them here'
-              }
-            </p>
-            {(!searchTerm && filter === 'all') && (
-              <div className="flex items-center justify-center space-x-1 text-xs text-gray-500">
-                <Sparkles className="w-3 h-3" />
-                <span>Premium history tracking active</span>
+      <div className="flex items-start space-x-3">
+        {showSidebar && (
+          <HistorySidebar
+            collections={collections}
+            collectionCounts={collectionCounts}
+            tags={tags}
+            active={library}
+            onSelect={setLibrary}
+            onCreateCollection={handleCreateCollection}
+            onDeleteCollection={handleDeleteCollection}
+          />
+        )}
+
+        <div className="flex-1 min-w-0 space-y-3">
+          {/* QR Code List */}
+          <div className="space-y-3">
+            {filteredCodes.length === 0 ? (
+              <div className="glass-card text-center py-12">
+                <div className="w-16 h-16 bg-gradient-purple-blue rounded-full flex items-center justify-center mx-auto mb-4">
+                  <History className="w-8 h-8 text-white" />
+                </div>
+                <h3 className="text-lg font-semibold text-white mb-2">
+                  {searchTerm || filter !== 'all' || library.kind !== 'all' ? 'No results found' : 'No QR codes yet'}
+                </h3>
+                <p className="text-gray-400 text-sm mb-4">
+                  {searchTerm || filter !== 'all' || library.kind !== 'all'
+                    ? 'Try adjusting your search or filters'
+                    : 'Start generating QR codes to see them here'
+                  }
+                </p>
+                {(!searchTerm && filter === 'all') && (
+                  <div className="flex items-center justify-center space-x-1 text-xs text-gray-500">
+                    <Sparkles className="w-3 h-3" />
+                    <span>Premium history tracking active</span>
+                  </div>
+                )}
               </div>
-            )}
-          </div>
-        ) : (
-          filteredCodes.map((qr) => {
-            const TypeIcon = getTypeIcon(qr.type || '');
-            const isSelected = selectedItems.has(qr.id.toString());
+            ) : (
+              filteredCodes.map((qr) => {
+                const TypeIcon = getTypeIcon(qr.type || '');
+                const isSelected = selectedItems.has(qr.id.toString());
             
-            return (
-              <div
-                key={qr.id}
-                className={`glass-card hover:bg-white/5 transition-all duration-300 ${
-                  isSelected ? 'bg-primary-500/10 border-primary-500/30' : ''
-                }`}
-              >
-                <div className="flex items-start space-x-4">
-                  {/* Selection checkbox */}
-                  <label className="flex items-center mt-1">
-                    <input
-                      type="checkbox"
-                      checked={isSelected}
-                      onChange={() => toggleSelection(qr.id)}
-                      className="sr-only"
-                    />
-                    <div className={`w-4 h-4 rounded border-2 transition-colors ${
-                      isSelected 
-                        ? 'bg-primary-500 border-primary-500' 
-                        : 'border-gray-500 hover:border-gray-400'
-                    }`}>
-                      {isSelected && (
-                        <svg className="w-3 h-3 text-white" fill="currentColor" viewBox="0 0 20 20">
-                          <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                        </svg>
-                      )}
-                    </div>
-                  </label>
-
-                  {/* QR Code Image */}
-                  <div className="flex-shrink-0">
-                    <QRCodeImage 
-                      src={qr.dataUrl} 
-                      alt={`QR Code for ${qr.title}`}
-                      className="w-16 h-16 rounded-lg border border-white/20 bg-white/5"
-                    />
-                  </div>
+                return (
+                  <div
+                    key={qr.id}
+                    className={`glass-card hover:bg-white/5 transition-all duration-300 ${
+                      isSelected ? 'bg-primary-500/10 border-primary-500/30' : ''
+                    }`}
+                  >
+                    <div className="flex items-start space-x-4">
+                      {/* Selection checkbox */}
+                      <label className="flex items-center mt-1">
+                        <input
+                          type="checkbox"
+                          checked={isSelected}
+                          onChange={() => toggleSelection(qr.id)}
+                          className="sr-only"
+                        />
+                        <div className={`w-4 h-4 rounded border-2 transition-colors ${
+                          isSelected 
+                            ? 'bg-primary-500 border-primary-500' 
+                            : 'border-gray-500 hover:border-gray-400'
+                        }`}>
+                          {isSelected && (
+                            <svg className="w-3 h-3 text-white" fill="currentColor" viewBox="0 0 20 20">
+                              <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                            </svg>
+                          )}
+                        </div>
+                      </label>
+
+                      {/* QR Code Image */}
+                      <div className="flex-shrink-0">
+                        <QRCodeImage 
+                          src={qr.dataUrl} 
+                          alt={`QR Code for ${qr.title}`}
+                          className="w-16 h-16 rounded-lg border border-white/20 bg-white/5"
+                        />
+                      </div>
 
-                  {/* QR Code Info */}
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center space-x-2 mb-1">
-                      <h4 className="font-semibold text-white truncate">{qr.title}</h4>
-                      <div className={`flex items-center space-x-1 px-2 py-0.5 rounded-full bg-gray-700/50 ${getTypeColor(qr.type || '')}`}>
-                        <TypeIcon className="w-3 h-3" />
-                        <span className="text-xs capitalize">{qr.type || 'unknown'}</span>
+                      {/* QR Code Info */}
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center space-x-2 mb-1">
+                          <h4 className="font-semibold text-white truncate">
+                        <Highlight value={qr.title} matches={searchMatches[qr.id]} />
+                      </h4>
+                          <div className={`flex items-center space-x-1 px-2 py-0.5 rounded-full bg-gray-700/50 ${getTypeColor(qr.type || '')}`}>
+                            <TypeIcon className="w-3 h-3" />
+                            <span className="text-xs capitalize">{qr.type || 'unknown'}</span>
+                          </div>
+                          {qr.revision && (
+                            <span className="text-xs px-2 py-0.5 rounded-full bg-primary-500/20 text-primary-300">
+                              v{qr.revision.number}
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-400 break-all line-clamp-2">
+                      <Highlight value={qr.text} matches={searchMatches[qr.id]} />
+                    </p>
+                        {(qr.collectionId || (qr.tags && qr.tags.length > 0)) && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {qr.collectionId && (
+                              <span className="flex items-center space-x-1 px-2 py-0.5 rounded-full bg-gray-700/50 text-xs text-gray-300">
+                                <Folder className="w-3 h-3" />
+                                <span>{collections.find(collection => collection.id === qr.collectionId)?.name || 'Folder'}</span>
+                              </span>
+                            )}
+                            {qr.tags?.map(tag => (
+                              <span key={tag} className="flex items-center space-x-1 px-2 py-0.5 rounded-full bg-primary-500/10 text-xs text-primary-300">
+                                <span>#{tag}</span>
+                                <button
+                                  onClick={() => handleRemoveTag(qr, tag)}
+                                  className="hover:text-white"
+                                  title={`Remove tag ${tag}`}
+                                >
+                                  ×
+                                </button>
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                        <div className="flex items-center space-x-4 mt-2 text-xs text-gray-500">
+                          <div className="flex items-center space-x-1">
+                            <Clock className="w-3 h-3" />
+                            <span>{new Date(qr.timestamp).toLocaleDateString()}</span>
+                            <span>{new Date(qr.timestamp).toLocaleTimeString()}</span>
+                          </div>
+                          {(qr.revision || revisedIds.has(qr.id)) && (
+                            <button
+                              onClick={() => toggleRevisionChain(qr)}
+                              className="flex items-center space-x-1 hover:text-gray-300"
+                            >
+                              <GitBranch className="w-3 h-3" />
+                              <span>{chainOwner === qr.id ? 'Hide revisions' : 'Revisions'}</span>
+                            </button>
+                          )}
+                        </div>
                       </div>
-                    </div>
-                    <p className="text-sm text-gray-400 break-all line-clamp-2">{qr.text}</p>
-                    <div className="flex items-center space-x-4 mt-2 text-xs text-gray-500">
-                      <div className="flex items-center space-x-1">
-                        <Clock className="w-3 h-3" />
-                        <span>{new Date(qr.timestamp).toLocaleDateString()}</span>
-                        <span>{new Date(qr.timestamp).toLocaleTimeString()}</span>
+
+                      {/* Actions */}
+                      <div className="flex flex-col space-y-1">
+                        <button
+                          onClick={() => handleToggleFavorite(qr)}
+                          className="glass-button p-2 hover:bg-pink-500/20 group"
+                          title={qr.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                        >
+                          <Heart className={`w-4 h-4 ${qr.favorite ? 'text-pink-400 fill-current' : 'text-gray-400 group-hover:text-pink-400'}`} />
+                        </button>
+                        {onEdit && (
+                          <button
+                            onClick={() => onEdit(qr)}
+                            className="glass-button p-2 hover:bg-yellow-500/20 group"
+                            title="Edit QR Code"
+                          >
+                            <Pencil className="w-4 h-4 text-gray-400 group-hover:text-yellow-400" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleCopy(qr)}
+                          className="glass-button p-2 hover:bg-blue-500/20 group"
+                          title="Copy QR Code"
+                        >
+                          <Copy className="w-4 h-4 text-gray-400 group-hover:text-blue-400" />
+                        </button>
+                        <button
+                          onClick={() => handleDownload(qr)}
+                          className="glass-button p-2 hover:bg-green-500/20 group"
+                          title="Download QR Code"
+                        >
+                          <Download className="w-4 h-4 text-gray-400 group-hover:text-green-400" />
+                        </button>
+                        {qr.type === 'url' && (
+                          <button
+                            onClick={() => chrome.tabs.create({ url: qr.text })}
+                            className="glass-button p-2 hover:bg-purple-500/20 group"
+                            title="Open URL"
+                          >
+                            <ExternalLink className="w-4 h-4 text-gray-400 group-hover:text-purple-400" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDelete(qr)}
+                          className="glass-button p-2 hover:bg-red-500/20 group"
+                          title="Move to trash"
+                        >
+                          <Trash2 className="w-4 h-4 text-gray-400 group-hover:text-red-400" />
+                        </button>
                       </div>
                     </div>
-                  </div>
 
-                  {/* Actions */}
-                  <div className="flex flex-col space-y-1">
-                    <button
-                      onClick={() => handleCopy(qr)}
-                      className="glass-button p-2 hover:bg-blue-500/20 group"
-                      title="Copy QR Code"
-                    >
-                      <Copy className="w-4 h-4 text-gray-400 group-hover:text-blue-400" />
-                    </button>
-                    <button
-                      onClick={() => handleDownload(qr)}
-                      className="glass-button p-2 hover:bg-green-500/20 group"
-                      title="Download QR Code"
-                    >
-                      <Download className="w-4 h-4 text-gray-400 group-hover:text-green-400" />
-                    </button>
-                    {qr.type === 'url' && (
-                      <button
-                        onClick={() => chrome.tabs.create({ url: qr.text })}
-                        className="glass-button p-2 hover:bg-purple-500/20 group"
-                        title="Open URL"
-                      >
-                        <ExternalLink className="w-4 h-4 text-gray-400 group-hover:text-purple-400" />
-                      </button>
+                    {/* Revision Chain */}
+                    {chainOwner === qr.id && (
+                      <div className="mt-3 ml-8 pl-4 border-l border-white/10 space-y-2">
+                        {revisionChain.map(revision => (
+                          <div key={revision.id} className="flex items-center space-x-3">
+                            <QRCodeImage
+                              src={revision.dataUrl}
+                              alt={`Revision ${revision.revision?.number || 1}`}
+                              className="w-8 h-8 rounded border border-white/20 bg-white/5"
+                            />
+                            <div className="flex-1 min-w-0">
+                              <p className={`text-xs ${revision.id === qr.id ? 'text-primary-300' : 'text-gray-300'}`}>
+                                v{revision.revision?.number || 1} · {new Date(revision.timestamp).toLocaleString()}
+                              </p>
+                              <p className="text-xs text-gray-500 truncate">{revision.text}</p>
+                            </div>
+                            {onEdit && (
+                              <button
+                                onClick={() => onEdit(revision)}
+                                className="glass-button p-1 hover:bg-yellow-500/20 group"
+                                title="Edit this revision"
+                              >
+                                <Pencil className="w-3 h-3 text-gray-400 group-hover:text-yellow-400" />
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
                     )}
-                    <button
-                      onClick={() => handleDelete(qr)}
-                      className="glass-button p-2 hover:bg-red-500/20 group"
-                      title="Delete QR Code"
-                    >
-                      <Trash2 className="w-4 h-4 text-gray-400 group-hover:text-red-400" />
-                    </button>
                   </div>
-                </div>
-              </div>
-            );
-          })
-        )}
+                );
+              })
+            )}
+          </div>
+
+          {/* Load More */}
+          {hasMore && (
+            <button
+              onClick={handleLoadMore}
+              disabled={loadingMore}
+              className="w-full glass-button py-2 text-sm text-gray-300 hover:text-white disabled:opacity-50"
+            >
+              {loadingMore ? 'Loading...' : 'Load more'}
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Clear All Button */}
-      {allQRCodes.length > 0 && (
+      {totalCount > 0 && (
         <div className="glass-card">
           <button
-            onClick={onClearHistory}
+            onClick={handleClearAll}
             className="w-full glass-button py-3 text-red-400 hover:text-red-300 hover:bg-red-500/10 transition-colors"
           >
             <Trash2 className="w-4 h-4 mr-2" />
-            Clear All History ({allQRCodes.length} items)
+            Clear All History ({totalCount} items)
           </button>
         </div>
       )}
+
+      {undo && <UndoToast undo={undo} onUndo={handleUndo} onDismiss={dismissUndo} />}
     </div>
   );
 };
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Archive, Folder, FolderPlus, Heart, Inbox, Tag, X } from 'lucide-react';
+import { QRCollection } from '../../types';
+
+// What the library is narrowed to; one selection at a time
+export type LibraryFilter =
+  | { kind: 'all' }
+  | { kind: 'favorites' }
+  | { kind: 'unfiled' }
+  | { kind: 'collection'; id: string }
+  | { kind: 'tag'; tag: string };
+
+interface HistorySidebarProps {
+  collections: QRCollection[];
+  collectionCounts: Map<string, number>;
+  tags: Array<{ tag: string; count: number }>;
+  active: LibraryFilter;
+  onSelect: (filter: LibraryFilter) => void;
+  onCreateCollection: (name: string) => Promise<void>;
+  onDeleteCollection: (collection: QRCollection) => void;
+}
+
+const isActive = (active: LibraryFilter, filter: LibraryFilter) =>
+  JSON.stringify(active) === JSON.stringify(filter);
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  collections,
+  collectionCounts,
+  tags,
+  active,
+  onSelect,
+  onCreateCollection,
+  onDeleteCollection
+}) => {
+  const [newName, setNewName] = useState('');
+  const [showNewCollection, setShowNewCollection] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleCreate = async () => {
+    try {
+      await onCreateCollection(newName);
+      setNewName('');
+      setShowNewCollection(false);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create collection');
+    }
+  };
+
+  const itemClass = (filter: LibraryFilter) =>
+    `w-full flex items-center space-x-2 px-2 py-1 rounded text-xs text-left transition-colors ${
+      isActive(active, filter)
+        ? 'bg-primary-500 text-white'
+        : 'text-gray-300 hover:bg-white/10 hover:text-white'
+    }`;
+
+  return (
+    <div className="glass-card w-36 flex-shrink-0 space-y-4 self-start">
+      {/* Library */}
+      <div className="space-y-1">
+        <button onClick={() => onSelect({ kind: 'all' })} className={itemClass({ kind: 'all' })}>
+          <Archive className="w-3 h-3 flex-shrink-0" />
+          <span>All codes</span>
+        </button>
+        <button onClick={() => onSelect({ kind: 'favorites' })} className={itemClass({ kind: 'favorites' })}>
+          <Heart className="w-3 h-3 flex-shrink-0" />
+          <span>Favorites</span>
+        </button>
+        <button onClick={() => onSelect({ kind: 'unfiled' })} className={itemClass({ kind: 'unfiled' })}>
+          <Inbox className="w-3 h-3 flex-shrink-0" />
+          <span>No folder</span>
+        </button>
+      </div>
+
+      {/* Collections */}
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium text-gray-400 uppercase">Folders</span>
+          <button
+            onClick={() => setShowNewCollection(!showNewCollection)}
+            className="text-gray-400 hover:text-white"
+            title="New folder"
+          >
+            <FolderPlus className="w-3 h-3" />
+          </button>
+        </div>
+
+        {showNewCollection && (
+          <div className="space-y-1">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleCreate();
+              }}
+              placeholder="Folder name"
+              maxLength={40}
+              className="glass-input w-full text-xs"
+              autoFocus
+            />
+            {error && <p className="text-xs text-red-400">{error}</p>}
+          </div>
+        )}
+
+        {collections.map(collection => {
+          const filter: LibraryFilter = { kind: 'collection', id: collection.id };
+          return (
+            <div key={collection.id} className="flex items-center group">
+              <button onClick={() => onSelect(filter)} className={itemClass(filter)}>
+                <Folder className="w-3 h-3 flex-shrink-0" />
+                <span className="truncate flex-1">{collection.name}</span>
+                <span className="text-gray-500">{collectionCounts.get(collection.id) || 0}</span>
+              </button>
+              <button
+                onClick={() => onDeleteCollection(collection)}
+                className="ml-1 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                title="Delete folder"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          );
+        })}
+
+        {collections.length === 0 && !showNewCollection && (
+          <p className="text-xs text-gray-500">No folders yet</p>
+        )}
+      </div>
+
+      {/* Tags */}
+      <div className="space-y-1">
+        <span className="text-xs font-medium text-gray-400 uppercase">Tags</span>
+        {tags.map(({ tag, count }) => {
+          const filter: LibraryFilter = { kind: 'tag', tag };
+          return (
+            <button key={tag} onClick={() => onSelect(filter)} className={itemClass(filter)}>
+              <Tag className="w-3 h-3 flex-shrink-0" />
+              <span className="truncate flex-1">{tag}</span>
+              <span className="text-gray-500">{count}</span>
+            </button>
+          );
+        })}
+
+        {tags.length === 0 && (
+          <p className="text-xs text-gray-500">No tags yet</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistorySidebar;
@@ -0,0 +1,252 @@
+import React, { useState, useCallback } from 'react';
+import { FileSpreadsheet, Upload, Archive, FileText, AlertCircle } from 'lucide-react';
+import { generateBatchQRCodes, QROptions } from '../../utils/qr-generator';
+import { buildEPCPayload, InvoiceRow, parseInvoiceCSV } from '../../utils/payment-payload';
+import { exportQRCodesToPDF } from '../../utils/pdf-exporter';
+import { createRecipe } from '../../utils/qr-recipe';
+import { addToQRHistory, trackQRGeneration } from '../../utils/storage';
+import { QRCodeData } from '../../types';
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+
+interface InvoiceBatchGeneratorProps {
+  onBatchComplete?: (results: QRCodeData[]) => void;
+  className?: string;
+}
+
+// EPC069-12 requires level M
+const QR_OPTIONS: QROptions = {
+  width: 256,
+  margin: 1,
+  color: {
+    dark: '#000000',
+    light: '#FFFFFF'
+  },
+  errorCorrectionLevel: 'M',
+  type: 'image/png'
+};
+
+const InvoiceBatchGenerator: React.FC<InvoiceBatchGeneratorProps> = ({
+  onBatchComplete,
+  className = ''
+}) => {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<InvoiceRow[]>([]);
+  const [results, setResults] = useState<QRCodeData[]>([]);
+  const [failed, setFailed] = useState<Array<{ title: string; error: string }>>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const validRows = rows.filter(row => !row.error);
+  const invalidRows = rows.filter(row => row.error);
+
+  // Read and validate the chosen CSV file
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setResults([]);
+    setFailed([]);
+    setError('');
+
+    try {
+      setRows(parseInvoiceCSV(await file.text()));
+    } catch (err) {
+      console.error('Failed to read invoice CSV:', err);
+      setRows([]);
+      setError(err instanceof Error ? err.message : 'Failed to read the CSV file');
+    }
+  };
+
+  // Generate a payment code for every valid invoice
+  const generateAll = useCallback(async () => {
+    if (validRows.length === 0) return;
+
+    setIsGenerating(true);
+    setError('');
+
+    const batchResults: QRCodeData[] = [];
+    const batchFailures: Array<{ title: string; error: string }> = [];
+
+    try {
+      const payloads = validRows.map(row => buildEPCPayload(row.payment));
+      const generated = await generateBatchQRCodes(payloads, QR_OPTIONS);
+
+      for (let i = 0; i < generated.length; i++) {
+        const result = generated[i];
+        const row = validRows[i];
+
+        if (result.error) {
+          batchFailures.push({ title: row.title, error: result.error });
+          continue;
+        }
+
+        const qrData: QRCodeData = {
+          id: Date.now() + i,
+          text: result.text,
+          dataUrl: result.dataUrl,
+          timestamp: new Date().toISOString(),
+          title: `Payment: ${row.title}`,
+          type: 'payment',
+          metadata: {
+            size: QR_OPTIONS.width || 256,
+            errorLevel: 'M',
+            color: {
+              dark: QR_OPTIONS.color?.dark || '#000000',
+              light: QR_OPTIONS.color?.light || '#FFFFFF'
+            }
+          },
+          recipe: await createRecipe(result.text, QR_OPTIONS, {
+            contentType: 'payment',
+            fields: { payment: JSON.stringify(row.payment) }
+          })
+        };
+
+        batchResults.push(qrData);
+        await addToQRHistory(qrData);
+        await trackQRGeneration('batch', QR_OPTIONS.width || 256);
+      }
+
+      setResults(batchResults);
+      setFailed(batchFailures);
+      onBatchComplete?.(batchResults);
+    } catch (err) {
+      console.error('Invoice batch generation failed:', err);
+      setError('Invoice batch generation failed. Please try again.');
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [validRows, onBatchComplete]);
+
+  // Download all payment codes as ZIP, named after the invoices
+  const downloadAsZip = useCallback(async () => {
+    if (results.length === 0) return;
+
+    try {
+      const zip = new JSZip();
+      for (const qrData of results) {
+        const safeTitle = qrData.title.replace(/^Payment: /, '').replace(/[^a-z0-9]/gi, '_').toLowerCase().substring(0, 50);
+        const response = await fetch(qrData.dataUrl);
+        zip.file(`${safeTitle}_${qrData.id}.png`, await response.blob());
+      }
+
+      const zipBlob = await zip.generateAsync({ type: 'blob' });
+      const timestamp = new Date().toISOString().split('T')[0];
+      saveAs(zipBlob, `payment_codes_${timestamp}.zip`);
+    } catch (err) {
+      console.error('ZIP download failed:', err);
+      setError('Failed to download ZIP file');
+    }
+  }, [results]);
+
+  // Download all payment codes as a printable PDF, one per page
+  const downloadAsPDF = useCallback(async () => {
+    if (results.length === 0) return;
+
+    try {
+      const pdf = await exportQRCodesToPDF(
+        results.map(qrData => ({ text: qrData.text, title: qrData.title, options: QR_OPTIONS })),
+        { layout: 'single', documentTitle: 'Payment Codes' }
+      );
+      const timestamp = new Date().toISOString().split('T')[0];
+      saveAs(pdf, `payment_codes_${timestamp}.pdf`);
+    } catch (err) {
+      console.error('PDF export failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export PDF');
+    }
+  }, [results]);
+
+  return (
+    <div className={`bg-white rounded-lg border p-4 space-y-4 ${className}`}>
+      {/* Header */}
+      <div className="flex items-center space-x-2">
+        <FileSpreadsheet className="w-5 h-5 text-blue-600" />
+        <h3 className="font-semibold text-gray-900">Invoice Batch</h3>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        CSV with a header row. Needs <code>name</code> and <code>iban</code> columns; <code>bic</code>,{' '}
+        <code>amount</code>, <code>reference</code>, <code>remittance</code>, <code>purpose</code>,{' '}
+        <code>information</code> and <code>invoice</code> are optional. Comma, semicolon and tab separators work.
+      </p>
+
+      {/* File Input */}
+      <label className="flex items-center justify-center space-x-2 w-full py-3 px-4 border-2 border-dashed border-gray-300 rounded-lg text-sm text-gray-600 hover:border-blue-400 hover:text-blue-600 cursor-pointer transition-colors">
+        <Upload className="w-4 h-4" />
+        <span className="truncate">{fileName || 'Choose invoice CSV'}</span>
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {/* Row Summary */}
+      {rows.length > 0 && (
+        <p className="text-sm text-gray-700">
+          {validRows.length} of {rows.length} invoices ready
+        </p>
+      )}
+
+      {invalidRows.length > 0 && (
+        <div className="max-h-32 overflow-y-auto p-3 bg-yellow-50 border border-yellow-200 rounded-lg space-y-1">
+          {invalidRows.map(row => (
+            <p key={row.line} className="flex items-start text-xs text-yellow-800">
+              <AlertCircle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+              <span>Line {row.line} ({row.title || 'untitled'}): {row.error}</span>
+            </p>
+          ))}
+        </div>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {/* Generate Button */}
+      <button
+        onClick={generateAll}
+        disabled={validRows.length === 0 || isGenerating}
+        className="w-full bg-primary-600 text-white py-2 px-4 rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+      >
+        {isGenerating ? 'Generating...' : `Generate ${validRows.length || ''} Payment Codes`}
+      </button>
+
+      {/* Results */}
+      {results.length > 0 && (
+        <div className="space-y-3">
+          <p className="text-sm text-green-700">
+            {results.length} payment codes saved to history
+            {failed.length > 0 ? `, ${failed.length} failed the scan check` : ''}
+          </p>
+
+          <div className="flex space-x-2">
+            <button
+              onClick={downloadAsZip}
+              className="flex-1 flex items-center justify-center space-x-2 py-2 px-4 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors text-sm font-medium"
+            >
+              <Archive className="w-4 h-4" />
+              <span>ZIP</span>
+            </button>
+
+            <button
+              onClick={downloadAsPDF}
+              className="flex-1 flex items-center justify-center space-x-2 py-2 px-4 bg-primary-600 text-white hover:bg-primary-700 rounded-lg transition-colors text-sm font-medium"
+            >
+              <FileText className="w-4 h-4" />
+              <span>PDF</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InvoiceBatchGenerator;
@@ -1,17 +1,31 @@
 import React, { useState, useEffect } from 'react';
-import { QrCode, Zap, Settings, History, BarChart3, Sparkles, Crown } from 'lucide-react';
+import { QrCode, Zap, Settings, History, BarChart3, Sparkles, Crown, ScanLine, Contact, CalendarDays, Banknote } from 'lucide-react';
 import { getCurrentTab } from '../../utils/chrome-apis';
-import { initializeStorage } from '../../utils/storage';
-import { QRCodeData, ExtensionTab } from '../../types';
+import { initializeStorage, getQRHistory, purgeExpiredTrash } from '../../utils/storage';
+import { QRCodeData, ExtensionTab, ExtensionEvent } from '../../types';
 import QuickActions from './QuickActions';
 import SettingsPanel from './SettingsPanel';
 import HistoryPanel from './HistoryPanel';
 import AnalyticsDashboard from './AnalyticsDashboard';
 import QRGenerator from './QRGenerator';
 import WiFiQRGenerator from './WiFiQRGenerator';
+import ContactQRGenerator from './ContactQRGenerator';
+import CalendarQRGenerator from './CalendarQRGenerator';
+import PaymentQRGenerator from './PaymentQRGenerator';
+import SwissQRBillGenerator from './SwissQRBillGenerator';
+import InvoiceBatchGenerator from './InvoiceBatchGenerator';
 import BatchGenerator from './BatchGenerator';
+import QRScanner from './QRScanner';
 
-type ViewType = 'quick' | 'generator' | 'wifi' | 'batch' | 'history' | 'analytics' | 'settings';
+type ViewType = 'quick' | 'generator' | 'contact' | 'calendar' | 'payment' | 'wifi' | 'batch' | 'scan' | 'history' | 'analytics' | 'settings';
+
+// Contacts, events and payments built in their forms reopen there; scanned ones edit as plain text
+const getEditorView = (qrData: QRCodeData): ViewType => {
+  if (qrData.type === 'contact' && qrData.recipe?.fields?.contact) return 'contact';
+  if (qrData.type === 'calendar' && qrData.recipe?.fields?.event) return 'calendar';
+  if (qrData.type === 'payment' && (qrData.recipe?.fields?.payment || qrData.recipe?.fields?.bill)) return 'payment';
+  return 'generator';
+};
 
 interface MainInterfaceProps {
   onQRGenerated?: (qrData: QRCodeData) => void;
@@ -22,6 +36,10 @@ const MainInterface: React.FC<MainInterfaceProps> = ({ onQRGenerated }) => {
   const [currentTab, setCurrentTab] = useState<ExtensionTab | null>(null);
   const [loading, setLoading] = useState(true);
   const [recentQRCodes, setRecentQRCodes] = useState<QRCodeData[]>([]);
+  // History entry opened for editing in its generator
+  const [editingQR, setEditingQR] = useState<QRCodeData | null>(null);
+  // Payment view shows either the SEPA (EPC) form or the Swiss QR-bill form
+  const [paymentScheme, setPaymentScheme] = useState<'sepa' | 'swiss'>('sepa');
 
   useEffect(() => {
     async function initialize() {
@@ -30,11 +48,10 @@ const MainInterface: React.FC<MainInterfaceProps> = ({ onQRGenerated }) => {
         const tab = await getCurrentTab();
         setCurrentTab(tab);
         
-        chrome.storage.local.get(['qrHistory'], (result) => {
-          if (result.qrHistory) {
-            setRecentQRCodes(result.qrHistory.slice(0, 5));
-          }
-        });
+        setRecentQRCodes(await getQRHistory(5));
+
+        // The browser may stay open for weeks, so expired trash is also purged here
+        purgeExpiredTrash().catch(error => console.error('Failed to purge the trash:', error));
       } catch (error) {
         console.error('Failed to initialize:', error);
       } finally {
@@ -45,6 +62,19 @@ const MainInterface: React.FC<MainInterfaceProps> = ({ onQRGenerated }) => {
     initialize();
   }, []);
 
+  // Codes generated from the shortcut or context menus while the popup is open
+  useEffect(() => {
+    const handleEvent = (message: ExtensionEvent) => {
+      if (message?.type === 'qr-generated') {
+        const { qrData } = message.data;
+        setRecentQRCodes(prev => [qrData, ...prev.filter(item => item.id !== qrData.id)].slice(0, 5));
+      }
+    };
+
+    chrome.runtime.onMessage.addListener(handleEvent);
+    return () => chrome.runtime.onMessage.removeListener(handleEvent);
+  }, []);
+
   const handleQRGenerated = (qrData: QRCodeData) => {
     setRecentQRCodes(prev => {
       const filtered = prev.filter(item => item.text !== qrData.text);
@@ -53,9 +83,20 @@ const MainInterface: React.FC<MainInterfaceProps> = ({ onQRGenerated }) => {
     onQRGenerated?.(qrData);
   };
 
+  const handleEditQR = (qrData: QRCodeData) => {
+    setEditingQR(qrData);
+    setCurrentView(getEditorView(qrData));
+    if (qrData.recipe?.fields?.bill) setPaymentScheme('swiss');
+    else if (qrData.recipe?.fields?.payment) setPaymentScheme('sepa');
+  };
+
   const navigationItems = [
     { id: 'quick' as ViewType, icon: Zap, label: 'Quick', description: 'Instant QR' },
     { id: 'generator' as ViewType, icon: QrCode, label: 'Custom', description: 'Advanced' },
+    { id: 'contact' as ViewType, icon: Contact, label: 'Contact', description: 'vCard' },
+    { id: 'calendar' as ViewType, icon: CalendarDays, label: 'Event', description: 'Calendar' },
+    { id: 'payment' as ViewType, icon: Banknote, label: 'Payment', description: 'SEPA, QR-bill' },
+    { id: 'scan' as ViewType, icon: ScanLine, label: 'Scan', description: 'Read codes' },
     { id: 'history' as ViewType, icon: History, label: 'History', description: 'Recent codes' },
     { id: 'analytics' as ViewType, icon: BarChart3, label: 'Stats', description: 'Usage data' },
     { id: 'settings' as ViewType, icon: Settings, label: 'Settings', description: 'Preferences' },
@@ -118,7 +159,10 @@ const MainInterface: React.FC<MainInterfaceProps> = ({ onQRGenerated }) => {
             return (
               <button
                 key={item.id}
-                onClick={() => setCurrentView(item.id)}
+                onClick={() => {
+                  setCurrentView(item.id);
+                  setEditingQR(null);
+                }}
                 className={`flex-shrink-0 flex flex-col items-center px-4 py-3 text-xs font-medium transition-all duration-300 relative group cursor-pointer ${
                   isActive
                     ? 'text-primary-300 bg-primary-500/20 shadow-lg'
@@ -159,6 +203,8 @@ const MainInterface: React.FC<MainInterfaceProps> = ({ onQRGenerated }) => {
                 <QRGenerator
                   initialType="custom"
                   onQRGenerated={handleQRGenerated}
+                  editItem={editingQR && editingQR.type !== 'wifi' ? editingQR : undefined}
+                  onCancelEdit={() => setEditingQR(null)}
                 />
               </div>
               
@@ -167,7 +213,11 @@ const MainInterface: React.FC<MainInterfaceProps> = ({ onQRGenerated }) => {
                   <span className="w-5 h-5 mr-2 text-accent-400">📶</span>
                   WiFi QR Generator
                 </h3>
-                <WiFiQRGenerator onQRGenerated={handleQRGenerated} />
+                <WiFiQRGenerator
+                  onQRGenerated={handleQRGenerated}
+                  editItem={editingQR?.type === 'wifi' ? editingQR : undefined}
+                  onCancelEdit={() => setEditingQR(null)}
+                />
               </div>
               
               <div className="glass-card" style={{ animation: 'slideInUp 0.4s ease-out 0.2s both' }}>
@@ -189,11 +239,97 @@ const MainInterface: React.FC<MainInterfaceProps> = ({ onQRGenerated }) => {
             </div>
           )}
 
+          {currentView === 'contact' && (
+            <div className="glass-card" style={{ animation: 'slideInUp 0.4s ease-out' }}>
+              <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+                <Contact className="w-5 h-5 mr-2 text-primary-400" />
+                Contact Card
+              </h3>
+              <ContactQRGenerator
+                onQRGenerated={handleQRGenerated}
+                editItem={editingQR || undefined}
+                onCancelEdit={() => setEditingQR(null)}
+              />
+            </div>
+          )}
+
+          {currentView === 'calendar' && (
+            <div className="glass-card" style={{ animation: 'slideInUp 0.4s ease-out' }}>
+              <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+                <CalendarDays className="w-5 h-5 mr-2 text-primary-400" />
+                Calendar Event
+              </h3>
+              <CalendarQRGenerator
+                onQRGenerated={handleQRGenerated}
+                editItem={editingQR || undefined}
+                onCancelEdit={() => setEditingQR(null)}
+              />
+            </div>
+          )}
+
+          {currentView === 'payment' && (
+            <div className="space-y-4">
+              <div className="glass-card" style={{ animation: 'slideInUp 0.4s ease-out' }}>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-white flex items-center">
+                    <Banknote className="w-5 h-5 mr-2 text-primary-400" />
+                    Payment
+                  </h3>
+                  <div className="flex space-x-1 bg-white/10 rounded-lg p-1">
+                    {([['sepa', 'SEPA'], ['swiss', 'Swiss QR-bill']] as Array<['sepa' | 'swiss', string]>).map(([scheme, label]) => (
+                      <button
+                        key={scheme}
+                        onClick={() => setPaymentScheme(scheme)}
+                        className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                          paymentScheme === scheme ? 'bg-primary-600 text-white' : 'text-white/70 hover:text-white'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {paymentScheme === 'sepa' ? (
+                  <PaymentQRGenerator
+                    onQRGenerated={handleQRGenerated}
+                    editItem={editingQR?.recipe?.fields?.payment ? editingQR : undefined}
+                    onCancelEdit={() => setEditingQR(null)}
+                  />
+                ) : (
+                  <SwissQRBillGenerator
+                    onQRGenerated={handleQRGenerated}
+                    editItem={editingQR?.recipe?.fields?.bill ? editingQR : undefined}
+                    onCancelEdit={() => setEditingQR(null)}
+                  />
+                )}
+              </div>
+
+              {paymentScheme === 'sepa' && (
+                <div className="glass-card" style={{ animation: 'slideInUp 0.4s ease-out 0.2s both' }}>
+                  <InvoiceBatchGenerator
+                    onBatchComplete={(results) => {
+                      if (results.length > 0) {
+                        setRecentQRCodes(prev => [...results, ...prev].slice(0, 10));
+                      }
+                    }}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {currentView === 'scan' && (
+            <div style={{ animation: 'slideInUp 0.4s ease-out' }}>
+              <QRScanner onQRGenerated={handleQRGenerated} />
+            </div>
+          )}
+
           {currentView === 'history' && (
             <div style={{ animation: 'slideInUp 0.4s ease-out' }}>
               <HistoryPanel 
                 recentQRCodes={recentQRCodes}
                 onClearHistory={() => setRecentQRCodes([])}
+                onEdit={handleEditQR}
               />
             </div>
           )}
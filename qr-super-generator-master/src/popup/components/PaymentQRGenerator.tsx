@@ -0,0 +1,431 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { Banknote, Download, Copy, GitBranch, X, Hash } from 'lucide-react';
+import { generatePaymentQR, QROptions } from '../../utils/qr-generator';
+import {
+  buildEPCPayload,
+  createCreditorReference,
+  formatIBAN,
+  parseAmount,
+  validateEPCPayment
+} from '../../utils/payment-payload';
+import { downloadFile } from '../../utils/chrome-apis';
+import { createRecipe, loadRecipeForEditing } from '../../utils/qr-recipe';
+import { addToQRHistory, trackQRGeneration, trackDownload, createRevisionLink } from '../../utils/storage';
+import { QRCodeData, SEPAPayment } from '../../types';
+
+interface PaymentQRGeneratorProps {
+  onQRGenerated?: (qrData: QRCodeData) => void;
+  // History entry to edit; saving creates a new revision linked to it
+  editItem?: QRCodeData;
+  onCancelEdit?: () => void;
+  className?: string;
+}
+
+type RemittanceMode = 'remittance' | 'reference';
+
+const EMPTY_PAYMENT: SEPAPayment = {
+  name: '',
+  iban: ''
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const PaymentQRGenerator: React.FC<PaymentQRGeneratorProps> = ({
+  onQRGenerated,
+  editItem,
+  onCancelEdit,
+  className = ''
+}) => {
+  // Payment form state; the amount is kept as typed so "12,50" can be entered
+  const [payment, setPayment] = useState<SEPAPayment>(EMPTY_PAYMENT);
+  const [amountText, setAmountText] = useState('');
+  const [remittanceMode, setRemittanceMode] = useState<RemittanceMode>('remittance');
+
+  // Component state
+  const [qrDataUrl, setQrDataUrl] = useState<string>('');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [revisionBase, setRevisionBase] = useState<QRCodeData | null>(editItem || null);
+  const [qrOptions, setQrOptions] = useState<QROptions>({
+    width: 256,
+    margin: 1,
+    color: {
+      dark: '#000000',
+      light: '#FFFFFF'
+    },
+    // EPC069-12 requires level M
+    errorCorrectionLevel: 'M',
+    type: 'image/png'
+  });
+
+  // Restore the payment and render options of the entry being edited
+  useEffect(() => {
+    if (!editItem) return;
+
+    setRevisionBase(editItem);
+    loadRecipeForEditing(editItem)
+      .then(editable => {
+        const { fields } = editable;
+        if (typeof fields?.payment === 'string') {
+          const saved: SEPAPayment = JSON.parse(fields.payment);
+          setPayment(saved);
+          setAmountText(saved.amount !== undefined ? saved.amount.toFixed(2) : '');
+          setRemittanceMode(saved.reference ? 'reference' : 'remittance');
+        }
+        setQrOptions({ ...editable.options, errorCorrectionLevel: 'M', type: 'image/png' });
+      })
+      .catch(err => {
+        console.error('Failed to load payment QR code for editing:', err);
+        setError('Failed to load this QR code for editing');
+      });
+  }, [editItem]);
+
+  const amount = parseAmount(amountText);
+
+  // Only the chosen kind of remittance information goes into the code
+  const currentPayment: SEPAPayment = {
+    ...payment,
+    amount,
+    reference: remittanceMode === 'reference' ? payment.reference : undefined,
+    remittance: remittanceMode === 'remittance' ? payment.remittance : undefined
+  };
+
+  // Generate payment QR code
+  const generateQR = useCallback(async () => {
+    const validation = amount !== undefined && Number.isNaN(amount)
+      ? { isValid: false, error: 'Enter the amount as a number, e.g. 1234.56' }
+      : validateEPCPayment(currentPayment);
+    if (!validation.isValid) {
+      setError(validation.error || 'Invalid payment details');
+      return;
+    }
+
+    setIsGenerating(true);
+    setError('');
+
+    try {
+      const payload = buildEPCPayload(currentPayment);
+      const dataUrl = await generatePaymentQR(currentPayment, qrOptions);
+      setQrDataUrl(dataUrl);
+
+      const qrData: QRCodeData = {
+        id: Date.now(),
+        text: payload,
+        dataUrl,
+        timestamp: new Date().toISOString(),
+        title: `Payment: ${currentPayment.name.trim()}${amount !== undefined ? ` €${amount.toFixed(2)}` : ''}`,
+        revision: revisionBase ? await createRevisionLink(revisionBase) : undefined,
+        type: 'payment',
+        metadata: {
+          size: qrOptions.width || 256,
+          errorLevel: 'M',
+          color: {
+            dark: qrOptions.color?.dark || '#000000',
+            light: qrOptions.color?.light || '#FFFFFF'
+          }
+        },
+        recipe: await createRecipe(payload, { ...qrOptions, errorCorrectionLevel: 'M' }, {
+          contentType: 'payment',
+          fields: { payment: JSON.stringify(currentPayment) }
+        })
+      };
+
+      // Save to history and track analytics
+      await addToQRHistory(qrData);
+      await trackQRGeneration('payment', qrOptions.width || 256);
+      if (revisionBase) {
+        setRevisionBase(qrData);
+      }
+
+      onQRGenerated?.(qrData);
+    } catch (err) {
+      console.error('Payment QR generation failed:', err);
+      setError('Failed to generate payment QR code');
+      setQrDataUrl('');
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [currentPayment, amount, qrOptions, revisionBase, onQRGenerated]);
+
+  // Update payment data
+  const updatePayment = (updates: Partial<SEPAPayment>) => {
+    setPayment(prev => ({ ...prev, ...updates }));
+    setQrDataUrl('');
+    setError('');
+  };
+
+  // Turn the invoice number typed into the reference field into an RF reference
+  const makeCreditorReference = () => {
+    try {
+      updatePayment({ reference: createCreditorReference(payment.reference || '') });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create a creditor reference');
+    }
+  };
+
+  // Download QR code
+  const handleDownload = async () => {
+    if (!qrDataUrl) return;
+
+    try {
+      const name = payment.name.trim().replace(/[^a-z0-9]/gi, '_').toLowerCase();
+      await downloadFile(qrDataUrl, `payment-${name}-${Date.now()}.png`);
+      await trackDownload();
+    } catch (err) {
+      console.error('Download failed:', err);
+      setError('Failed to download QR code');
+    }
+  };
+
+  // Copy to clipboard
+  const handleCopy = async () => {
+    if (!qrDataUrl) return;
+
+    try {
+      const response = await fetch(qrDataUrl);
+      const blob = await response.blob();
+      await navigator.clipboard.write([new ClipboardItem({ [blob.type]: blob })]);
+      setError('');
+    } catch (err) {
+      console.error('Copy failed:', err);
+      setError('Failed to copy to clipboard');
+    }
+  };
+
+  // Clear form
+  const clearForm = () => {
+    setPayment(EMPTY_PAYMENT);
+    setAmountText('');
+    setRemittanceMode('remittance');
+    setQrDataUrl('');
+    setError('');
+  };
+
+  return (
+    <div className={`bg-white rounded-lg border p-4 space-y-4 ${className}`}>
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Banknote className="w-5 h-5 text-blue-600" />
+          <h3 className="font-semibold text-gray-900">SEPA Payment QR Generator</h3>
+        </div>
+
+        <button
+          onClick={clearForm}
+          className="text-sm text-gray-500 hover:text-gray-700"
+        >
+          Clear
+        </button>
+      </div>
+
+      {/* Revision Banner */}
+      {revisionBase && (
+        <div className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg px-3 py-2">
+          <div className="flex items-center space-x-2 min-w-0">
+            <GitBranch className="w-4 h-4 text-blue-600 flex-shrink-0" />
+            <span className="text-sm text-blue-900 truncate">
+              Editing {revisionBase.title} (v{revisionBase.revision?.number || 1})
+            </span>
+          </div>
+          <button
+            onClick={() => {
+              setRevisionBase(null);
+              onCancelEdit?.();
+            }}
+            className="p-1 text-blue-400 hover:text-blue-700"
+            title="Stop editing"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Payment Form */}
+      <div className="space-y-4">
+        {/* Beneficiary */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Beneficiary Name</label>
+          <input
+            type="text"
+            value={payment.name}
+            onChange={(e) => updatePayment({ name: e.target.value })}
+            placeholder="Acme GmbH"
+            maxLength={70}
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">IBAN</label>
+          <input
+            type="text"
+            value={payment.iban}
+            onChange={(e) => updatePayment({ iban: e.target.value })}
+            onBlur={() => payment.iban && updatePayment({ iban: formatIBAN(payment.iban) })}
+            placeholder="DE89 3704 0044 0532 0130 00"
+            className={`${inputClass} font-mono`}
+          />
+        </div>
+
+        <div className="flex space-x-2">
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 mb-1">BIC</label>
+            <input
+              type="text"
+              value={payment.bic || ''}
+              onChange={(e) => updatePayment({ bic: e.target.value.toUpperCase() || undefined })}
+              placeholder="Optional in the EEA"
+              maxLength={11}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Amount (EUR)</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={amountText}
+              onChange={(e) => {
+                setAmountText(e.target.value);
+                setQrDataUrl('');
+                setError('');
+              }}
+              placeholder="Payer enters it"
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        {/* Remittance */}
+        <div className="space-y-2">
+          <div className="flex space-x-1 bg-gray-100 rounded-lg p-1">
+            {([['remittance', 'Payment Text'], ['reference', 'RF Reference']] as Array<[RemittanceMode, string]>).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => {
+                  setRemittanceMode(mode);
+                  setQrDataUrl('');
+                  setError('');
+                }}
+                className={`flex-1 py-2 px-3 text-sm font-medium rounded-md transition-colors ${
+                  remittanceMode === mode
+                    ? 'bg-white text-blue-600 shadow-sm'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {remittanceMode === 'remittance' ? (
+            <textarea
+              value={payment.remittance || ''}
+              onChange={(e) => updatePayment({ remittance: e.target.value })}
+              placeholder="Invoice 2024-0042"
+              maxLength={140}
+              rows={2}
+              className={`${inputClass} resize-none`}
+            />
+          ) : (
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={payment.reference || ''}
+                onChange={(e) => updatePayment({ reference: e.target.value.toUpperCase() })}
+                placeholder="RF18 5390 0754 7034"
+                className={`${inputClass} font-mono`}
+              />
+              <button
+                onClick={makeCreditorReference}
+                disabled={!payment.reference || payment.reference.toUpperCase().startsWith('RF')}
+                className="p-2 text-gray-500 hover:text-blue-600 disabled:opacity-40"
+                title="Create an RF reference from an invoice number"
+              >
+                <Hash className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Optional fields */}
+        <div className="flex space-x-2">
+          <div className="w-24">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Purpose</label>
+            <input
+              type="text"
+              value={payment.purpose || ''}
+              onChange={(e) => updatePayment({ purpose: e.target.value.toUpperCase() || undefined })}
+              placeholder="GDDS"
+              maxLength={4}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Note to Payer</label>
+            <input
+              type="text"
+              value={payment.information || ''}
+              onChange={(e) => updatePayment({ information: e.target.value || undefined })}
+              placeholder="Thank you!"
+              maxLength={70}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {/* Generate Button */}
+      <button
+        onClick={generateQR}
+        disabled={!payment.name.trim() || !payment.iban.trim() || isGenerating}
+        className="w-full bg-primary-600 text-white py-2 px-4 rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+      >
+        {isGenerating ? 'Generating...' : revisionBase ? 'Save Payment QR Revision' : 'Generate Payment QR Code'}
+      </button>
+
+      {/* QR Preview */}
+      {qrDataUrl && (
+        <div className="space-y-3">
+          <div className="bg-gray-50 rounded-lg p-4 flex justify-center">
+            <div className="bg-white p-2 rounded shadow-sm">
+              <img
+                src={qrDataUrl}
+                alt="Payment QR Code"
+                className="block w-48 h-48"
+              />
+            </div>
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex space-x-2">
+            <button
+              onClick={handleCopy}
+              className="flex-1 flex items-center justify-center space-x-2 py-2 px-4 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors text-sm font-medium"
+            >
+              <Copy className="w-4 h-4" />
+              <span>Copy</span>
+            </button>
+
+            <button
+              onClick={handleDownload}
+              className="flex-1 flex items-center justify-center space-x-2 py-2 px-4 bg-primary-600 text-white hover:bg-primary-700 rounded-lg transition-colors text-sm font-medium"
+            >
+              <Download className="w-4 h-4" />
+              <span>Download</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PaymentQRGenerator;
@@ -1,23 +1,87 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { QrCode, Download, Copy, Palette, Settings, RotateCcw, Eye, EyeOff } from 'lucide-react';
-import { generateQRCode, validateQRText, getOptimalSize, QROptions } from '../../utils/qr-generator';
+import { QrCode, Download, Copy, Palette, Settings, RotateCcw, Eye, EyeOff, ChevronDown, Image as ImageIcon, X, GitBranch } from 'lucide-react';
+import {
+  generateVerifiedQRCode,
+  generateQRCodeForFormat,
+  generateQRCodeWithLogo,
+  addQRFrame,
+  validateQRText,
+  validateColorContrast,
+  buildQRMetadata,
+  getOptimalSize,
+  LogoOptions,
+  QROptions
+} from '../../utils/qr-generator';
+import { exportQRCodesToPDF } from '../../utils/pdf-exporter';
+import { QRVerificationResult } from '../../utils/qr-decoder';
 import { downloadFile } from '../../utils/chrome-apis';
-import { addToQRHistory, trackQRGeneration, trackDownload, addRecentColor } from '../../utils/storage';
-import { QRCodeData } from '../../types';
+import { createRecipe, loadRecipeForEditing } from '../../utils/qr-recipe';
+import { addToQRHistory, trackQRGeneration, trackDownload, addRecentColor, createRevisionLink } from '../../utils/storage';
+import { QRCodeData, FileFormat, ModuleStyle, FinderStyle, QRGradient, LogoShape, QRRecipeFrame } from '../../types';
+import ScanBadge from './ScanBadge';
 
 interface QRGeneratorProps {
   initialText?: string;
   initialType?: 'url' | 'text' | 'custom';
   onQRGenerated?: (qrData: QRCodeData) => void;
+  // History entry to edit; saving creates a new revision linked to it
+  editItem?: QRCodeData;
+  onCancelEdit?: () => void;
   className?: string;
 }
 
 type QRType = 'url' | 'text' | 'custom';
 
+// Content types without their own generator are edited as custom content
+const toGeneratorType = (type?: QRCodeData['type']): QRType =>
+  type === 'url' || type === 'text' ? type : 'custom';
+
+const DOWNLOAD_FORMATS: Array<{ format: FileFormat; label: string; description: string }> = [
+  { format: 'png', label: 'PNG', description: 'Raster image' },
+  { format: 'jpg', label: 'JPG', description: 'Compressed raster' },
+  { format: 'svg', label: 'SVG', description: 'Vector for print & design' },
+  { format: 'pdf', label: 'PDF', description: 'Printable page with caption' }
+];
+
+const MODULE_STYLES: Array<{ value: ModuleStyle; label: string }> = [
+  { value: 'square', label: 'Square' },
+  { value: 'dot', label: 'Dots' },
+  { value: 'rounded', label: 'Rounded' },
+  { value: 'extra-rounded', label: 'Extra Round' },
+  { value: 'classy', label: 'Classy' },
+  { value: 'diamond', label: 'Diamond' }
+];
+
+const FINDER_STYLES: Array<{ value: FinderStyle; label: string }> = [
+  { value: 'square', label: 'Square' },
+  { value: 'rounded', label: 'Rounded' },
+  { value: 'extra-rounded', label: 'Extra Rounded' },
+  { value: 'dot', label: 'Circle' },
+  { value: 'classy', label: 'Classy' }
+];
+
+const LOGO_SHAPES: Array<{ value: LogoShape; label: string }> = [
+  { value: 'rounded', label: 'Rounded' },
+  { value: 'circle', label: 'Circle' },
+  { value: 'none', label: 'None' }
+];
+
+const MAX_LOGO_FILE_SIZE = 2 * 1024 * 1024;
+
+type FillMode = 'solid' | QRGradient['type'];
+
+const FILL_MODES: Array<{ value: FillMode; label: string }> = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'linear', label: 'Linear' },
+  { value: 'radial', label: 'Radial' }
+];
+
 const QRGenerator: React.FC<QRGeneratorProps> = ({
   initialText = '',
   initialType = 'text',
   onQRGenerated,
+  editItem,
+  onCancelEdit,
   className = ''
 }) => {
   // State management
@@ -28,6 +92,13 @@ const QRGenerator: React.FC<QRGeneratorProps> = ({
   const [error, setError] = useState<string>('');
   const [showCustomization, setShowCustomization] = useState(false);
   const [previewMode, setPreviewMode] = useState<'live' | 'manual'>('live');
+  const [showDownloadMenu, setShowDownloadMenu] = useState(false);
+  const [logo, setLogo] = useState<LogoOptions | null>(null);
+  const [logoInfo, setLogoInfo] = useState<{ logoModules: number; maxLogoModules: number } | null>(null);
+  const [verification, setVerification] = useState<QRVerificationResult | null>(null);
+  const [frame, setFrame] = useState<QRRecipeFrame | null>(null);
+  // Entry the next save is a revision of; moves to each saved revision so the chain stays linear
+  const [revisionBase, setRevisionBase] = useState<QRCodeData | null>(editItem || null);
   
   // QR Options State
   const [qrOptions, setQrOptions] = useState<QROptions>({
@@ -43,10 +114,36 @@ const QRGenerator: React.FC<QRGeneratorProps> = ({
 
   // Validation and sizing
   const validation = useMemo(() => validateQRText(text), [text]);
+  const contrast = useMemo(() => validateColorContrast(qrOptions), [qrOptions]);
+  const fillMode: FillMode = qrOptions.gradient?.type || 'solid';
   const optimalSize = useMemo(() => getOptimalSize(text), [text]);
+  const qrTitle = qrType === 'url' ? 'URL QR Code' : qrType === 'text' ? 'Text QR Code' : 'Custom QR Code';
+
+  // Restore the text, type and render options of the entry being edited
+  useEffect(() => {
+    if (!editItem) return;
+
+    setRevisionBase(editItem);
+    loadRecipeForEditing(editItem)
+      .then(editable => {
+        setText(editable.payload);
+        setQrType(toGeneratorType(editable.contentType));
+        setQrOptions({ ...editable.options, type: 'image/png' });
+        setLogo(editable.logo || null);
+        setFrame(editable.frame || null);
+        if (editable.logoMissing) {
+          setError('The logo of this QR code is no longer available, so it was removed');
+        }
+      })
+      .catch(err => {
+        console.error('Failed to load QR code for editing:', err);
+        setError('Failed to load this QR code for editing');
+      });
+  }, [editItem]);
   
   // Real-time QR generation
-  const generateQR = useCallback(async (inputText?: string, options?: QROptions): Promise<void> => {
+  // While editing, previews are not saved until the revision is saved explicitly
+  const generateQR = useCallback(async (inputText?: string, options?: QROptions, saveRevision = false): Promise<void> => {
     const qrText = inputText || text;
     const qrOpts = options || qrOptions;
     
@@ -62,12 +159,42 @@ const QRGenerator: React.FC<QRGeneratorProps> = ({
       return;
     }
 
+    const colorCheck = validateColorContrast(qrOpts);
+    if (!colorCheck.isValid) {
+      setError(colorCheck.error || 'Insufficient color contrast');
+      setQrDataUrl('');
+      return;
+    }
+
     setIsGenerating(true);
     setError('');
 
     try {
-      const dataUrl = await generateQRCode(qrText, qrOpts);
+      let dataUrl: string;
+      let check: QRVerificationResult;
+      if (logo) {
+        // Logo renders are decoded while the logo is sized, so a result is always verified
+        const result = await generateQRCodeWithLogo(qrText, logo, qrOpts);
+        dataUrl = result.dataUrl;
+        check = { verified: true, decodedText: qrText };
+        setLogoInfo({ logoModules: result.logoModules, maxLogoModules: result.maxLogoModules });
+      } else {
+        const result = await generateVerifiedQRCode(qrText, qrOpts);
+        dataUrl = result.dataUrl;
+        check = result.verification;
+        setLogoInfo(null);
+      }
+      // The frame sits outside the quiet zone, so it is added after verification
+      if (frame?.text.trim()) {
+        dataUrl = await addQRFrame(dataUrl, frame, qrOpts);
+      }
       setQrDataUrl(dataUrl);
+      setVerification(check);
+
+      // Codes that don't decode back to their content are shown but never saved
+      if (!check.verified || (revisionBase && !saveRevision)) {
+        return;
+      }
       
       // Create QR data object
       const qrData: QRCodeData = {
@@ -75,33 +202,37 @@ const QRGenerator: React.FC<QRGeneratorProps> = ({
         text: qrText,
         dataUrl,
         timestamp: new Date().toISOString(),
-        title: qrType === 'url' ? 'URL QR Code' : qrType === 'text' ? 'Text QR Code' : 'Custom QR Code',
+        title: revisionBase?.title || qrTitle,
         type: qrType,
-        metadata: {
-          size: qrOpts.width || 256,
-          errorLevel: qrOpts.errorCorrectionLevel || 'M',
-          color: {
-            dark: qrOpts.color?.dark || '#000000',
-            light: qrOpts.color?.light || '#FFFFFF'
-          }
-        }
+        metadata: buildQRMetadata(qrOpts),
+        recipe: await createRecipe(qrText, qrOpts, {
+          contentType: qrType,
+          logo: logo || undefined,
+          frame: frame || undefined
+        }),
+        revision: revisionBase ? await createRevisionLink(revisionBase) : undefined
       };
 
       // Save to history and track analytics
       await addToQRHistory(qrData);
       await trackQRGeneration(qrType, qrOpts.width || 256);
+      if (revisionBase) {
+        setRevisionBase(qrData);
+      }
       
       // Notify parent component
       onQRGenerated?.(qrData);
       
     } catch (err) {
       console.error('QR generation failed:', err);
-      setError('Failed to generate QR code. Please try again.');
+      setError(logo && err instanceof Error ? err.message : 'Failed to generate QR code. Please try again.');
       setQrDataUrl('');
+      setLogoInfo(null);
+      setVerification(null);
     } finally {
       setIsGenerating(false);
     }
-  }, [text, qrOptions, validation, qrType, onQRGenerated]);
+  }, [text, qrOptions, logo, frame, validation, qrType, qrTitle, revisionBase, onQRGenerated]);
 
   // Live preview effect
   useEffect(() => {
@@ -113,7 +244,7 @@ const QRGenerator: React.FC<QRGeneratorProps> = ({
       return () => clearTimeout(timeoutId);
     }
     return undefined;
-  }, [text, qrOptions, previewMode, validation.isValid, generateQR]);
+  }, [text, qrOptions, logo, frame, previewMode, validation.isValid, generateQR]);
 
   // Handle manual generation
   const handleManualGenerate = () => {
@@ -122,13 +253,42 @@ const QRGenerator: React.FC<QRGeneratorProps> = ({
     }
   };
 
-  // Download QR code
-  const handleDownload = async () => {
+  // Logos and frames are drawn on a canvas, so they have no vector (SVG) form
+  const hasRasterDecoration = !!logo || !!frame?.text.trim();
+
+  // Download QR code in the chosen format
+  const handleDownload = async (format: FileFormat = 'png') => {
     if (!qrDataUrl) return;
+    setShowDownloadMenu(false);
+
+    if (format === 'svg' && hasRasterDecoration) {
+      setError('SVG is not available with a logo or frame');
+      return;
+    }
     
     try {
-      const filename = `qr-${qrType}-${Date.now()}.png`;
-      await downloadFile(qrDataUrl, filename);
+      const filename = `qr-${qrType}-${Date.now()}.${format}`;
+      
+      if (format === 'pdf') {
+        const pdf = await exportQRCodesToPDF(
+          [{ text, title: qrTitle, options: qrOptions, logo: logo || undefined, frame: frame || undefined }],
+          { documentTitle: qrTitle }
+        );
+        const objectUrl = URL.createObjectURL(pdf);
+        await downloadFile(objectUrl, filename);
+        setTimeout(() => URL.revokeObjectURL(objectUrl), 60000);
+      } else {
+        let dataUrl = qrDataUrl;
+        if (format === 'jpg' && logo) {
+          dataUrl = (await generateQRCodeWithLogo(text, logo, { ...qrOptions, type: 'image/jpeg' })).dataUrl;
+        } else if (format !== 'png') {
+          dataUrl = await generateQRCodeForFormat(text, format, qrOptions);
+        }
+        if (format === 'jpg' && frame?.text.trim()) {
+          dataUrl = await addQRFrame(dataUrl, frame, { ...qrOptions, type: 'image/jpeg' });
+        }
+        await downloadFile(dataUrl, filename);
+      }
       await trackDownload();
     } catch (err) {
       console.error('Download failed:', err);
@@ -178,6 +338,74 @@ const QRGenerator: React.FC<QRGeneratorProps> = ({
     }
   };
 
+  // Load a logo image from a file upload or clipboard paste
+  const loadLogoFile = (file: File) => {
+    if (!file.type.startsWith('image/')) {
+      setError('Logo must be an image file');
+      return;
+    }
+    if (file.size > MAX_LOGO_FILE_SIZE) {
+      setError('Logo image must be smaller than 2 MB');
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      setLogo(prev => ({ shape: 'rounded', padding: 1, ...prev, dataUrl: reader.result as string }));
+      // Logos need the extra recovery headroom of high error correction
+      if (!logo) {
+        updateQROptions({ errorCorrectionLevel: 'H' });
+      }
+    };
+    reader.onerror = () => setError('Failed to read logo image');
+    reader.readAsDataURL(file);
+  };
+
+  const handleLogoPaste = (e: React.ClipboardEvent) => {
+    const item = Array.from(e.clipboardData.items).find(entry => entry.type.startsWith('image/'));
+    const file = item?.getAsFile();
+    if (file) {
+      e.preventDefault();
+      loadLogoFile(file);
+    }
+  };
+
+  const removeLogo = () => {
+    setLogo(null);
+    setLogoInfo(null);
+  };
+
+  // Switch between a solid foreground and a gradient fill
+  const updateFillMode = (mode: FillMode) => {
+    if (mode === 'solid') {
+      updateQROptions({ gradient: undefined });
+      return;
+    }
+
+    updateQROptions({
+      gradient: {
+        type: mode,
+        rotation: qrOptions.gradient?.rotation ?? 45,
+        stops: qrOptions.gradient?.stops || [
+          { offset: 0, color: qrOptions.color?.dark || '#000000' },
+          { offset: 1, color: '#1D4ED8' }
+        ]
+      }
+    });
+  };
+
+  // Update a single gradient stop color
+  const updateGradientStop = (index: number, color: string) => {
+    if (!qrOptions.gradient) return;
+
+    updateQROptions({
+      gradient: {
+        ...qrOptions.gradient,
+        stops: qrOptions.gradient.stops.map((stop, i) => (i === index ? { ...stop, color } : stop))
+      }
+    });
+  };
+
   // Reset to defaults
   const resetOptions = () => {
     setQrOptions({
@@ -225,6 +453,37 @@ const QRGenerator: React.FC<QRGeneratorProps> = ({
         </div>
       </div>
 
+      {/* Revision Banner */}
+      {revisionBase && (
+        <div className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg px-3 py-2">
+          <div className="flex items-center space-x-2 min-w-0">
+            <GitBranch className="w-4 h-4 text-blue-600 flex-shrink-0" />
+            <span className="text-sm text-blue-900 truncate">
+              Editing {revisionBase.title} (v{revisionBase.revision?.number || 1})
+            </span>
+          </div>
+          <div className="flex items-center space-x-2 flex-shrink-0">
+            <button
+              onClick={() => generateQR(undefined, undefined, true)}
+              disabled={!text.trim() || !validation.isValid || isGenerating}
+              className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save revision
+            </button>
+            <button
+              onClick={() => {
+                setRevisionBase(null);
+                onCancelEdit?.();
+              }}
+              className="p-1 text-blue-400 hover:text-blue-700"
+              title="Stop editing"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* QR Type Selector */}
       <div className="flex space-x-1 bg-gray-100 rounded-lg p-1">
         {(['url', 'text', 'custom'] as const).map((type) => (
@@ -405,6 +664,263 @@ const QRGenerator: React.FC<QRGeneratorProps> = ({
             </div>
           </div>
           
+          {/* Fill Settings */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Fill
+            </label>
+            <div className="grid grid-cols-3 gap-1">
+              {FILL_MODES.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => updateFillMode(value)}
+                  className={`py-1 px-2 text-xs rounded border transition-colors ${
+                    fillMode === value
+                      ? 'bg-blue-50 border-blue-500 text-blue-700'
+                      : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            
+            {qrOptions.gradient && (
+              <div className="mt-2 space-y-2">
+                <div className="flex items-center space-x-2">
+                  {qrOptions.gradient.stops.map((stop, index) => (
+                    <input
+                      key={index}
+                      type="color"
+                      value={stop.color}
+                      onChange={(e) => updateGradientStop(index, e.target.value)}
+                      className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+                      title={index === 0 ? 'Start color' : 'End color'}
+                    />
+                  ))}
+                  <div
+                    className="flex-1 h-8 rounded border border-gray-300"
+                    style={{
+                      background: `${qrOptions.gradient.type === 'radial' ? 'radial-gradient(circle' : `linear-gradient(${(qrOptions.gradient.rotation ?? 0) + 90}deg`}, ${qrOptions.gradient.stops.map(stop => `${stop.color} ${stop.offset * 100}%`).join(', ')})`
+                    }}
+                  />
+                </div>
+                {qrOptions.gradient.type === 'linear' && (
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="range"
+                      min="0"
+                      max="360"
+                      step="15"
+                      value={qrOptions.gradient.rotation ?? 0}
+                      onChange={(e) => updateQROptions({
+                        gradient: { ...qrOptions.gradient!, rotation: parseInt(e.target.value) }
+                      })}
+                      className="flex-1"
+                    />
+                    <span className="text-xs text-gray-500 w-10 text-right">
+                      {qrOptions.gradient.rotation ?? 0}°
+                    </span>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+          
+          {/* Eye Colors */}
+          <div>
+            <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-1">
+              <input
+                type="checkbox"
+                checked={!!qrOptions.eyeColor}
+                onChange={(e) => updateQROptions({
+                  eyeColor: e.target.checked
+                    ? { outer: qrOptions.color?.dark || '#000000', inner: qrOptions.color?.dark || '#000000' }
+                    : undefined
+                })}
+                className="rounded border-gray-300"
+              />
+              <span>Custom eye colors</span>
+            </label>
+            {qrOptions.eyeColor && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="color"
+                    value={qrOptions.eyeColor.outer || qrOptions.color?.dark || '#000000'}
+                    onChange={(e) => updateQROptions({
+                      eyeColor: { ...qrOptions.eyeColor, outer: e.target.value }
+                    })}
+                    className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+                  />
+                  <span className="text-xs text-gray-600">Outer</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="color"
+                    value={qrOptions.eyeColor.inner || qrOptions.color?.dark || '#000000'}
+                    onChange={(e) => updateQROptions({
+                      eyeColor: { ...qrOptions.eyeColor, inner: e.target.value }
+                    })}
+                    className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+                  />
+                  <span className="text-xs text-gray-600">Inner</span>
+                </div>
+              </div>
+            )}
+          </div>
+          
+          {!contrast.isValid && (
+            <p className="text-xs text-red-600">{contrast.error}</p>
+          )}
+          
+          {/* Shape Settings */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Module Style
+            </label>
+            <div className="grid grid-cols-3 gap-1">
+              {MODULE_STYLES.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => updateQROptions({ moduleStyle: value })}
+                  className={`py-1 px-2 text-xs rounded border transition-colors ${
+                    (qrOptions.moduleStyle || 'square') === value
+                      ? 'bg-blue-50 border-blue-500 text-blue-700'
+                      : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Eye Style
+            </label>
+            <select
+              value={qrOptions.finderStyle || 'square'}
+              onChange={(e) => updateQROptions({ finderStyle: e.target.value as FinderStyle })}
+              className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+            >
+              {FINDER_STYLES.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          
+          {/* Logo */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Logo
+            </label>
+            {logo ? (
+              <div className="space-y-2">
+                <div className="flex items-center space-x-2">
+                  <img src={logo.dataUrl} alt="Logo" className="w-10 h-10 object-contain border border-gray-200 rounded" />
+                  <select
+                    value={logo.shape || 'rounded'}
+                    onChange={(e) => setLogo({ ...logo, shape: e.target.value as LogoShape })}
+                    className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm"
+                  >
+                    {LOGO_SHAPES.map(({ value, label }) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={removeLogo}
+                    className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                    title="Remove logo"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <span className="text-xs text-gray-600 w-14">Padding</span>
+                  <input
+                    type="range"
+                    min="0"
+                    max="3"
+                    value={logo.padding ?? 1}
+                    onChange={(e) => setLogo({ ...logo, padding: parseInt(e.target.value) })}
+                    className="flex-1"
+                  />
+                  <span className="text-xs text-gray-500 w-16 text-right">
+                    {logo.padding ?? 1} module{(logo.padding ?? 1) === 1 ? '' : 's'}
+                  </span>
+                </div>
+                {logoInfo && (
+                  <p className="text-xs text-gray-500">
+                    Logo covers {logoInfo.logoModules}×{logoInfo.logoModules} modules
+                    (safe maximum {logoInfo.maxLogoModules}×{logoInfo.maxLogoModules} at level {qrOptions.errorCorrectionLevel || 'H'})
+                  </p>
+                )}
+              </div>
+            ) : (
+              <label
+                tabIndex={0}
+                onPaste={handleLogoPaste}
+                className="flex items-center justify-center space-x-2 w-full py-3 border-2 border-dashed border-gray-300 rounded-lg text-sm text-gray-500 cursor-pointer hover:border-blue-400 hover:text-blue-600 focus:outline-none focus:border-blue-500 transition-colors"
+              >
+                <ImageIcon className="w-4 h-4" />
+                <span>Upload or paste an image</span>
+                <input
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) loadLogoFile(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            )}
+          </div>
+          
+          {/* Frame */}
+          <div>
+            <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-1">
+              <input
+                type="checkbox"
+                checked={!!frame}
+                onChange={(e) => setFrame(e.target.checked
+                  ? { text: 'Scan me', color: qrOptions.color?.dark || '#000000', textColor: qrOptions.color?.light || '#FFFFFF' }
+                  : null
+                )}
+              />
+              <span>Caption frame</span>
+            </label>
+            {frame && (
+              <div className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={frame.text}
+                  maxLength={30}
+                  onChange={(e) => setFrame({ ...frame, text: e.target.value })}
+                  placeholder="Caption"
+                  className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm"
+                />
+                <input
+                  type="color"
+                  value={frame.color}
+                  onChange={(e) => setFrame({ ...frame, color: e.target.value })}
+                  className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+                  title="Frame color"
+                />
+                <input
+                  type="color"
+                  value={frame.textColor || '#FFFFFF'}
+                  onChange={(e) => setFrame({ ...frame, textColor: e.target.value })}
+                  className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+                  title="Caption color"
+                />
+              </div>
+            )}
+          </div>
+          
           {/* Error Correction Level */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -454,6 +970,12 @@ const QRGenerator: React.FC<QRGeneratorProps> = ({
             </div>
           </div>
           
+          {verification && (
+            <div className="flex justify-center">
+              <ScanBadge verification={verification} />
+            </div>
+          )}
+          
           {/* Action Buttons */}
           <div className="flex space-x-2">
             <button
@@ -464,13 +986,39 @@ const QRGenerator: React.FC<QRGeneratorProps> = ({
               <span>Copy</span>
             </button>
             
-            <button
-              onClick={handleDownload}
-              className="flex-1 flex items-center justify-center space-x-2 py-2 px-4 bg-primary-600 text-white hover:bg-primary-700 rounded-lg transition-colors text-sm font-medium"
-            >
-              <Download className="w-4 h-4" />
-              <span>Download</span>
-            </button>
+            <div className="flex-1 relative">
+              <div className="flex">
+                <button
+                  onClick={() => handleDownload('png')}
+                  className="flex-1 flex items-center justify-center space-x-2 py-2 px-4 bg-primary-600 text-white hover:bg-primary-700 rounded-l-lg transition-colors text-sm font-medium"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>Download</span>
+                </button>
+                <button
+                  onClick={() => setShowDownloadMenu(!showDownloadMenu)}
+                  className="px-2 bg-primary-600 text-white hover:bg-primary-700 rounded-r-lg border-l border-white/20 transition-colors"
+                  title="Choose download format"
+                >
+                  <ChevronDown className="w-4 h-4" />
+                </button>
+              </div>
+              
+              {showDownloadMenu && (
+                <div className="absolute right-0 bottom-full mb-1 w-52 bg-white border border-gray-200 rounded-lg shadow-lg py-1 z-20">
+                  {DOWNLOAD_FORMATS.filter(({ format }) => format !== 'svg' || !hasRasterDecoration).map(({ format, label, description }) => (
+                    <button
+                      key={format}
+                      onClick={() => handleDownload(format)}
+                      className="w-full flex items-center justify-between px-3 py-2 text-left text-sm hover:bg-gray-100"
+                    >
+                      <span className="font-medium text-gray-900">{label}</span>
+                      <span className="text-xs text-gray-500">{description}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
           </div>
           
           {/* QR Info */}
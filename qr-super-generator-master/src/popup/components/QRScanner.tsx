@@ -0,0 +1,473 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ScanLine, Upload, Copy, Check, ExternalLink, Save, Wand2, Download, AlertCircle, X, Monitor, Crosshair } from 'lucide-react';
+import { decodeAllQRCodes, DecodedQRCode } from '../../utils/qr-decoder';
+import { detectQRType, generateVerifiedQRCode, buildQRMetadata, QROptions } from '../../utils/qr-generator';
+import { createTab, downloadFile, captureVisibleTab, getCurrentTab } from '../../utils/chrome-apis';
+import { sendToTab } from '../../utils/messaging';
+import { createRecipe } from '../../utils/qr-recipe';
+import { addToQRHistory, getQROptions, getDecodedHistory } from '../../utils/storage';
+import { QRCodeData, DecodedQRData, DetectedContentType, ScreenRegion } from '../../types';
+
+interface ScanResult {
+  data: string;
+  detectedType: DetectedContentType;
+  region?: ScreenRegion;
+  regeneratedUrl?: string;
+  saved?: boolean;
+}
+
+interface QRScannerProps {
+  onQRGenerated?: (qrData: QRCodeData) => void;
+}
+
+const TYPE_LABELS: Record<DetectedContentType, string> = {
+  url: 'URL',
+  email: 'Email',
+  phone: 'Phone',
+  sms: 'SMS',
+  wifi: 'WiFi',
+  location: 'Location',
+  vcard: 'Contact',
+  vevent: 'Event',
+  payment: 'Payment',
+  text: 'Text'
+};
+
+// Map a detected payload type onto the types history understands
+function toHistoryType(type: DetectedContentType): QRCodeData['type'] {
+  switch (type) {
+    case 'url':
+    case 'wifi':
+    case 'payment':
+      return type;
+    case 'vcard':
+      return 'contact';
+    case 'vevent':
+      return 'calendar';
+    default:
+      return 'text';
+  }
+}
+
+// Bounding box of a decoded code, in image pixels
+function toRegion(location: DecodedQRCode['location']): ScreenRegion {
+  const xs = [location.topLeft.x, location.topRight.x, location.bottomRight.x, location.bottomLeft.x];
+  const ys = [location.topLeft.y, location.topRight.y, location.bottomRight.y, location.bottomLeft.y];
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+// Add a protocol to bare domains so they open as web pages
+function toOpenableUrl(text: string): string {
+  return /^https?:\/\//i.test(text.trim()) ? text.trim() : `https://${text.trim()}`;
+}
+
+const QRScanner: React.FC<QRScannerProps> = ({ onQRGenerated }) => {
+  const [imageUrl, setImageUrl] = useState<string>('');
+  const [results, setResults] = useState<ScanResult[]>([]);
+  const [scanning, setScanning] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [isDragging, setIsDragging] = useState(false);
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+  const [scannedTabId, setScannedTabId] = useState<number | null>(null);
+  const [recentDecodes, setRecentDecodes] = useState<DecodedQRData[]>([]);
+
+  // Codes decoded from the image context menu show up here
+  useEffect(() => {
+    getDecodedHistory(10)
+      .then(setRecentDecodes)
+      .catch(err => console.error('Failed to load decoded history:', err));
+  }, []);
+
+  // Scan an image for every QR code it contains
+  const scanImage = useCallback(async (image: Blob) => {
+    if (!image.type.startsWith('image/')) {
+      setError('Please choose an image file');
+      return;
+    }
+
+    setScanning(true);
+    setError('');
+    setResults([]);
+    setScannedTabId(null);
+    setImageUrl(URL.createObjectURL(image));
+
+    try {
+      const codes = await decodeAllQRCodes(image);
+      if (codes.length === 0) {
+        setError('No QR codes found in this image');
+        return;
+      }
+
+      setResults(codes.map(code => ({ data: code.data, detectedType: detectQRType(code.data) })));
+    } catch (err) {
+      console.error('Scan failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to scan image');
+    } finally {
+      setScanning(false);
+    }
+  }, []);
+
+  // Point at a code on the page it was captured from
+  const highlightOnPage = (tabId: number, region: ScreenRegion, label: string) => {
+    sendToTab(tabId, 'highlightElement', { region, label }).catch(err => {
+      console.error('Failed to highlight QR code on page:', err);
+    });
+  };
+
+  // Capture the visible part of the current tab and scan it
+  const scanCurrentTab = async () => {
+    setScanning(true);
+    setError('');
+    setResults([]);
+    setScannedTabId(null);
+
+    try {
+      const tab = await getCurrentTab();
+      const screenshot = await captureVisibleTab(tab.windowId);
+      setImageUrl(screenshot);
+
+      const codes = await decodeAllQRCodes(screenshot);
+      if (codes.length === 0) {
+        setError('No QR codes found on the visible part of this page');
+        return;
+      }
+
+      const scanned = codes.map(code => ({
+        data: code.data,
+        detectedType: detectQRType(code.data),
+        region: toRegion(code.location)
+      }));
+      setResults(scanned);
+
+      if (tab.id !== undefined) {
+        setScannedTabId(tab.id);
+        scanned.forEach((result, index) => highlightOnPage(tab.id!, result.region, `${index + 1}`));
+      }
+    } catch (err) {
+      console.error('Tab scan failed:', err);
+      setError('Could not capture this tab. Browser pages like chrome:// cannot be scanned.');
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  // Accept images pasted anywhere while the view is open
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const item = Array.from(e.clipboardData?.items || []).find(entry => entry.type.startsWith('image/'));
+      const file = item?.getAsFile();
+      if (file) {
+        e.preventDefault();
+        scanImage(file);
+      }
+    };
+
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [scanImage]);
+
+  // Release each preview object URL once it is replaced or the view closes
+  useEffect(() => {
+    return () => {
+      if (imageUrl) URL.revokeObjectURL(imageUrl);
+    };
+  }, [imageUrl]);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) scanImage(file);
+  };
+
+  const updateResult = (index: number, updates: Partial<ScanResult>) => {
+    setResults(prev => prev.map((result, i) => (i === index ? { ...result, ...updates } : result)));
+  };
+
+  const handleCopy = async (index: number) => {
+    try {
+      await navigator.clipboard.writeText(results[index].data);
+      setCopiedIndex(index);
+      setTimeout(() => setCopiedIndex(null), 2000);
+    } catch (err) {
+      console.error('Copy failed:', err);
+      setError('Failed to copy to clipboard');
+    }
+  };
+
+  // Render the payload again using the saved default options
+  const regenerate = async (index: number): Promise<{ dataUrl: string; options: QROptions } | null> => {
+    try {
+      const options: QROptions = await getQROptions();
+      const { dataUrl, verification } = await generateVerifiedQRCode(results[index].data, options);
+
+      if (!verification.verified) {
+        setError(`Regenerated code failed the scannability check: ${verification.error}`);
+        return null;
+      }
+
+      updateResult(index, { regeneratedUrl: dataUrl });
+      return { dataUrl, options };
+    } catch (err) {
+      console.error('Regeneration failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to regenerate QR code');
+      return null;
+    }
+  };
+
+  const handleSave = async (index: number) => {
+    const rendered = await regenerate(index);
+    if (!rendered) return;
+
+    const result = results[index];
+
+    try {
+      const type = toHistoryType(result.detectedType);
+      const qrData: QRCodeData = {
+        id: Date.now(),
+        text: result.data,
+        dataUrl: rendered.dataUrl,
+        timestamp: new Date().toISOString(),
+        title: `Scanned ${TYPE_LABELS[result.detectedType]}`,
+        type,
+        metadata: buildQRMetadata(rendered.options),
+        recipe: await createRecipe(result.data, rendered.options, { contentType: type })
+      };
+
+      await addToQRHistory(qrData);
+      updateResult(index, { saved: true });
+      onQRGenerated?.(qrData);
+    } catch (err) {
+      console.error('Failed to save scan:', err);
+      setError('Failed to save to history');
+    }
+  };
+
+  const handleDownload = async (index: number) => {
+    const dataUrl = results[index].regeneratedUrl;
+    if (!dataUrl) return;
+
+    try {
+      await downloadFile(dataUrl, `qr-${results[index].detectedType}-${Date.now()}.png`);
+    } catch (err) {
+      console.error('Download failed:', err);
+      setError('Failed to download QR code');
+    }
+  };
+
+  const clearScan = () => {
+    setImageUrl('');
+    setResults([]);
+    setError('');
+    setScannedTabId(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Drop Zone */}
+      <div className="glass-card">
+        <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+          <ScanLine className="w-5 h-5 mr-2 text-primary-400" />
+          Scan QR Codes
+        </h3>
+
+        {imageUrl ? (
+          <div className="relative">
+            <img
+              src={imageUrl}
+              alt="Scanned"
+              className="w-full max-h-48 object-contain rounded-lg border border-white/20 bg-white/5"
+            />
+            <button
+              onClick={clearScan}
+              className="absolute top-2 right-2 glass-button p-1 hover:bg-red-500/20"
+              title="Clear"
+            >
+              <X className="w-4 h-4 text-gray-300" />
+            </button>
+            {scanning && (
+              <div className="absolute inset-0 flex items-center justify-center bg-dark-900/60 rounded-lg">
+                <div className="w-6 h-6 border-2 border-primary-400 border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            )}
+          </div>
+        ) : (
+          <label
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`flex flex-col items-center justify-center py-10 border-2 border-dashed rounded-lg cursor-pointer transition-colors ${
+              isDragging
+                ? 'border-primary-400 bg-primary-500/10'
+                : 'border-white/20 hover:border-primary-400 hover:bg-white/5'
+            }`}
+          >
+            <Upload className="w-8 h-8 text-gray-400 mb-2" />
+            <p className="text-sm text-white">Drop an image or click to choose</p>
+            <p className="text-xs text-gray-500 mt-1">You can also paste a screenshot with Ctrl+V</p>
+            <input
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) scanImage(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        )}
+
+        <button
+          onClick={scanCurrentTab}
+          disabled={scanning}
+          className="w-full glass-button py-2 mt-3 text-sm text-gray-300 hover:text-white hover:bg-primary-500/20 disabled:opacity-50"
+        >
+          <Monitor className="w-4 h-4 mr-2" />
+          Scan Current Tab
+        </button>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="glass-card bg-red-500/10 border border-red-500/20 flex items-center space-x-2">
+          <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0" />
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
+      {/* Results */}
+      {results.length > 0 && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-400">
+            Found {results.length} QR code{results.length !== 1 ? 's' : ''}
+          </p>
+
+          {results.map((result, index) => (
+            <div key={index} className="glass-card hover:bg-white/5 transition-all duration-300">
+              <div className="flex items-start space-x-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center space-x-2 mb-1">
+                    <span className="text-xs font-mono text-gray-500">#{index + 1}</span>
+                    <span className="px-2 py-0.5 rounded-full bg-gray-700/50 text-xs text-primary-300">
+                      {TYPE_LABELS[result.detectedType]}
+                    </span>
+                    {result.saved && (
+                      <span className="text-xs text-green-400">Saved</span>
+                    )}
+                  </div>
+                  <p className="text-sm text-white break-all line-clamp-3">{result.data}</p>
+                </div>
+
+                {result.regeneratedUrl && (
+                  <img
+                    src={result.regeneratedUrl}
+                    alt="Regenerated QR Code"
+                    className="w-16 h-16 rounded-lg border border-white/20 bg-white flex-shrink-0"
+                  />
+                )}
+              </div>
+
+              {/* Actions */}
+              <div className="flex flex-wrap gap-2 mt-3">
+                {scannedTabId !== null && result.region && (
+                  <button
+                    onClick={() => highlightOnPage(scannedTabId, result.region!, `${index + 1}`)}
+                    className="glass-button px-3 py-1 text-xs hover:bg-blue-500/20"
+                  >
+                    <Crosshair className="w-3 h-3 mr-1" />
+                    Show on Page
+                  </button>
+                )}
+                {result.detectedType === 'url' && (
+                  <button
+                    onClick={() => createTab(toOpenableUrl(result.data))}
+                    className="glass-button px-3 py-1 text-xs hover:bg-purple-500/20"
+                  >
+                    <ExternalLink className="w-3 h-3 mr-1" />
+                    Open
+                  </button>
+                )}
+                <button
+                  onClick={() => handleCopy(index)}
+                  className="glass-button px-3 py-1 text-xs hover:bg-blue-500/20"
+                >
+                  {copiedIndex === index ? <Check className="w-3 h-3 mr-1" /> : <Copy className="w-3 h-3 mr-1" />}
+                  {copiedIndex === index ? 'Copied' : 'Copy'}
+                </button>
+                <button
+                  onClick={() => handleSave(index)}
+                  disabled={result.saved}
+                  className="glass-button px-3 py-1 text-xs hover:bg-green-500/20 disabled:opacity-50"
+                >
+                  <Save className="w-3 h-3 mr-1" />
+                  Save to History
+                </button>
+                {result.regeneratedUrl ? (
+                  <button
+                    onClick={() => handleDownload(index)}
+                    className="glass-button px-3 py-1 text-xs hover:bg-green-500/20"
+                  >
+                    <Download className="w-3 h-3 mr-1" />
+                    Download
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => regenerate(index)}
+                    className="glass-button px-3 py-1 text-xs hover:bg-primary-500/20"
+                    title="Regenerate with your default style"
+                  >
+                    <Wand2 className="w-3 h-3 mr-1" />
+                    Regenerate
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Recently Decoded */}
+      {results.length === 0 && !scanning && recentDecodes.length > 0 && (
+        <div className="glass-card">
+          <h4 className="text-sm font-semibold text-white mb-3">Recently Decoded</h4>
+          <div className="space-y-2">
+            {recentDecodes.map((entry) => (
+              <div key={entry.id} className="flex items-center space-x-2">
+                <span className="px-2 py-0.5 rounded-full bg-gray-700/50 text-xs text-primary-300 flex-shrink-0">
+                  {TYPE_LABELS[entry.type]}
+                </span>
+                <p className="flex-1 min-w-0 text-xs text-gray-300 truncate" title={entry.pageTitle || entry.pageUrl}>
+                  {entry.text}
+                </p>
+                <button
+                  onClick={() => navigator.clipboard.writeText(entry.text)}
+                  className="glass-button p-1 hover:bg-blue-500/20"
+                  title="Copy"
+                >
+                  <Copy className="w-3 h-3 text-gray-400" />
+                </button>
+                {entry.type === 'url' && (
+                  <button
+                    onClick={() => createTab(toOpenableUrl(entry.text))}
+                    className="glass-button p-1 hover:bg-purple-500/20"
+                    title="Open"
+                  >
+                    <ExternalLink className="w-3 h-3 text-gray-400" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QRScanner;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Zap, Link, Copy, Download, Share, ExternalLink, Globe, Clock, Star, Sparkles } from 'lucide-react';
-import { generateQRCode } from '../../utils/qr-generator';
+import { generateQRCode, QROptions } from '../../utils/qr-generator';
+import { createRecipe } from '../../utils/qr-recipe';
 import { addToQRHistory } from '../../utils/storage';
 import { QRCodeData, ExtensionTab } from '../../types';
 
@@ -35,14 +36,15 @@ const QuickActions: React.FC<QuickActionsProps> = ({ currentTab, onQRGenerated }
 
     setLoading(true);
     try {
-      const dataUrl = await generateQRCode(currentTab.url, {
+      const options: QROptions = {
         width: 200,
         color: {
           dark: '#9333ea',
           light: '#ffffff'
         },
         errorCorrectionLevel: 'M'
-      });
+      };
+      const dataUrl = await generateQRCode(currentTab.url, options);
 
       setQrDataUrl(dataUrl);
 
@@ -52,7 +54,8 @@ const QuickActions: React.FC<QuickActionsProps> = ({ currentTab, onQRGenerated }
         dataUrl,
         timestamp: new Date().toISOString(),
         type: 'url',
-        title: currentTab.title || 'Untitled Page'
+        title: currentTab.title || 'Untitled Page',
+        recipe: await createRecipe(currentTab.url, options, { contentType: 'url' })
       };
 
       await addToQRHistory(qrData);
@@ -0,0 +1,34 @@
+import React from 'react';
+import { ShieldCheck, ShieldAlert } from 'lucide-react';
+import { QRVerificationResult } from '../../utils/qr-decoder';
+
+interface ScanBadgeProps {
+  verification: QRVerificationResult;
+  className?: string;
+}
+
+const ScanBadge: React.FC<ScanBadgeProps> = ({ verification, className = '' }) => {
+  if (verification.verified) {
+    return (
+      <span
+        className={`inline-flex items-center space-x-1 px-2 py-0.5 rounded-full bg-green-100 text-green-700 text-xs font-medium ${className}`}
+        title="The rendered code was decoded locally and matches its content"
+      >
+        <ShieldCheck className="w-3 h-3" />
+        <span>Scannability verified</span>
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={`inline-flex items-center space-x-1 px-2 py-0.5 rounded-full bg-red-100 text-red-700 text-xs font-medium ${className}`}
+      title={verification.error || 'The rendered code could not be decoded'}
+    >
+      <ShieldAlert className="w-3 h-3" />
+      <span>Scannability failed</span>
+    </span>
+  );
+};
+
+export default ScanBadge;
@@ -1,5 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { Settings, Palette, Download, Shield, Bell, Zap, Moon, Sun, Monitor, Save, RotateCcw, Crown, Sparkles } from 'lucide-react';
+import {
+  getUserPreferences,
+  setHistoryRetention,
+  setTrashRetention,
+  DEFAULT_HISTORY_RETENTION,
+  DEFAULT_TRASH_RETENTION_DAYS
+} from '../../utils/storage';
 
 interface SettingsData {
   theme: 'light' | 'dark' | 'auto';
@@ -18,6 +25,8 @@ interface SettingsData {
   };
   privacy: {
     storeHistory: boolean;
+    historyLimit: number;
+    trashRetentionDays: number;
     analytics: boolean;
   };
 }
@@ -40,6 +49,8 @@ const SettingsPanel: React.FC = () => {
     },
     privacy: {
       storeHistory: true,
+      historyLimit: DEFAULT_HISTORY_RETENTION,
+      trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
       analytics: true
     }
   });
@@ -55,6 +66,17 @@ const SettingsPanel: React.FC = () => {
         if (result.extensionSettings) {
           setSettings(prev => ({ ...prev, ...result.extensionSettings }));
         }
+
+        // History and trash limits are applied where history is stored, so they live with the other preferences
+        const preferences = await getUserPreferences();
+        setSettings(prev => ({
+          ...prev,
+          privacy: {
+            ...prev.privacy,
+            historyLimit: preferences.historyRetention || DEFAULT_HISTORY_RETENTION,
+            trashRetentionDays: preferences.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS
+          }
+        }));
       } catch (error) {
         console.error('Failed to load settings:', error);
       }
@@ -65,9 +87,13 @@ const SettingsPanel: React.FC = () => {
   const handleSave = async () => {
     setSaving(true);
     try {
+      // The history and trash limits are saved only with the stored preferences, never in the synced settings
+      const { historyLimit, trashRetentionDays, ...privacy } = settings.privacy;
       await new Promise<void>(resolve => {
-        chrome.storage.sync.set({ extensionSettings: settings }, () => resolve());
+        chrome.storage.sync.set({ extensionSettings: { ...settings, privacy } }, () => resolve());
       });
+      await setHistoryRetention(Number(historyLimit));
+      await setTrashRetention(Number(trashRetentionDays));
       setSaved(true);
       setTimeout(() => setSaved(false), 2000);
     } catch (error) {
@@ -95,6 +121,8 @@ const SettingsPanel: React.FC = () => {
       },
       privacy: {
         storeHistory: true,
+        historyLimit: DEFAULT_HISTORY_RETENTION,
+        trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
         analytics: true
       }
     };
@@ -194,6 +222,28 @@ const SettingsPanel: React.FC = () => {
           type: 'toggle' as const,
           description: 'Keep a history of generated QR codes'
         },
+        {
+          key: 'privacy.historyLimit',
+          label: 'History Limit',
+          type: 'select' as const,
+          options: [
+            { value: 1000, label: '1,000 codes', description: 'Oldest are removed first' },
+            { value: 2500, label: '2,500 codes', description: 'Oldest are removed first' },
+            { value: 5000, label: '5,000 codes', description: 'Recommended' },
+            { value: 10000, label: '10,000 codes', description: 'Uses more disk space' }
+          ]
+        },
+        {
+          key: 'privacy.trashRetentionDays',
+          label: 'Empty Trash After',
+          type: 'select' as const,
+          options: [
+            { value: 7, label: '7 days', description: 'Deleted codes are removed for good after a week' },
+            { value: 30, label: '30 days', description: 'Recommended' },
+            { value: 90, label: '90 days', description: 'Keeps deleted codes longer' },
+            { value: 0, label: 'Never', description: 'Keep deleted codes until the trash is emptied' }
+          ]
+        },
         {
           key: 'privacy.analytics',
           label: 'Anonymous Analytics',
@@ -281,7 +331,9 @@ const SettingsPanel: React.FC = () => {
                             value={value}
                             onChange={(e) => {
                               const newSettings = { ...settings };
-                              setNestedValue(newSettings, setting.key, e.target.value);
+                              // Keep numeric option values as numbers
+                              const option = setting.options?.find(o => String(o.value) === e.target.value);
+                              setNestedValue(newSettings, setting.key, option ? option.value : e.target.value);
                               setSettings(newSettings);
                             }}
                             className="glass-input text-sm"
@@ -0,0 +1,549 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { Receipt, Download, GitBranch, X, Hash, FileText, FileCode } from 'lucide-react';
+import { generateSwissQRBillQR, QROptions } from '../../utils/qr-generator';
+import {
+  buildSwissQRBillPayload,
+  createQRReference,
+  formatSwissAmount,
+  isQRIBAN,
+  validateSwissQRBill,
+  SWISS_REFERENCE_LABELS
+} from '../../utils/swiss-qr-bill';
+import { renderSwissQRBillSVG } from '../../utils/swiss-qr-bill-renderer';
+import { exportSwissQRBillToPDF } from '../../utils/pdf-exporter';
+import { createCreditorReference, formatIBAN, parseAmount } from '../../utils/payment-payload';
+import { svgToDataUrl } from '../../utils/qr-renderer';
+import { downloadFile } from '../../utils/chrome-apis';
+import { createRecipe, loadRecipeForEditing } from '../../utils/qr-recipe';
+import { addToQRHistory, trackQRGeneration, trackDownload, createRevisionLink } from '../../utils/storage';
+import { QRCodeData, SwissAddress, SwissQRBill, SwissReferenceType } from '../../types';
+import { saveAs } from 'file-saver';
+
+interface SwissQRBillGeneratorProps {
+  onQRGenerated?: (qrData: QRCodeData) => void;
+  // History entry to edit; saving creates a new revision linked to it
+  editItem?: QRCodeData;
+  onCancelEdit?: () => void;
+  className?: string;
+}
+
+const EMPTY_ADDRESS: SwissAddress = {
+  name: '',
+  street: '',
+  buildingNumber: '',
+  postalCode: '',
+  town: '',
+  country: 'CH'
+};
+
+const EMPTY_BILL: SwissQRBill = {
+  account: '',
+  creditor: EMPTY_ADDRESS,
+  currency: 'CHF',
+  referenceType: 'SCOR'
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+interface AddressFieldsProps {
+  label: string;
+  address: SwissAddress;
+  onChange: (updates: Partial<SwissAddress>) => void;
+}
+
+// Structured address inputs shared by the creditor and the debtor
+const AddressFields: React.FC<AddressFieldsProps> = ({ label, address, onChange }) => (
+  <div className="space-y-2">
+    <label className="block text-sm font-medium text-gray-700">{label}</label>
+    <input
+      type="text"
+      value={address.name}
+      onChange={(e) => onChange({ name: e.target.value })}
+      placeholder="Name or company"
+      maxLength={70}
+      className={inputClass}
+    />
+    <div className="flex space-x-2">
+      <input
+        type="text"
+        value={address.street || ''}
+        onChange={(e) => onChange({ street: e.target.value })}
+        placeholder="Street"
+        maxLength={70}
+        className={inputClass}
+      />
+      <input
+        type="text"
+        value={address.buildingNumber || ''}
+        onChange={(e) => onChange({ buildingNumber: e.target.value })}
+        placeholder="No."
+        maxLength={16}
+        className={`${inputClass} w-20`}
+      />
+    </div>
+    <div className="flex space-x-2">
+      <input
+        type="text"
+        value={address.postalCode}
+        onChange={(e) => onChange({ postalCode: e.target.value })}
+        placeholder="Postal code"
+        maxLength={16}
+        className={`${inputClass} w-28`}
+      />
+      <input
+        type="text"
+        value={address.town}
+        onChange={(e) => onChange({ town: e.target.value })}
+        placeholder="Town"
+        maxLength={35}
+        className={inputClass}
+      />
+      <input
+        type="text"
+        value={address.country}
+        onChange={(e) => onChange({ country: e.target.value.toUpperCase() })}
+        placeholder="CH"
+        maxLength={2}
+        className={`${inputClass} w-14 font-mono`}
+      />
+    </div>
+  </div>
+);
+
+const SwissQRBillGenerator: React.FC<SwissQRBillGeneratorProps> = ({
+  onQRGenerated,
+  editItem,
+  onCancelEdit,
+  className = ''
+}) => {
+  // Bill form state; the amount is kept as typed, and the debtor can be left for the payer to fill in
+  const [bill, setBill] = useState<SwissQRBill>(EMPTY_BILL);
+  const [amountText, setAmountText] = useState('');
+  const [debtor, setDebtor] = useState<SwissAddress>(EMPTY_ADDRESS);
+  const [hasDebtor, setHasDebtor] = useState(false);
+
+  // Component state
+  const [qrDataUrl, setQrDataUrl] = useState<string>('');
+  const [billSvg, setBillSvg] = useState<string>('');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [revisionBase, setRevisionBase] = useState<QRCodeData | null>(editItem || null);
+  const [qrOptions, setQrOptions] = useState<QROptions>({
+    width: 256,
+    margin: 1,
+    color: {
+      dark: '#000000',
+      light: '#FFFFFF'
+    },
+    // The QR-bill standard requires level M
+    errorCorrectionLevel: 'M',
+    type: 'image/png'
+  });
+
+  // Restore the bill and render options of the entry being edited
+  useEffect(() => {
+    if (!editItem) return;
+
+    setRevisionBase(editItem);
+    loadRecipeForEditing(editItem)
+      .then(editable => {
+        const { fields } = editable;
+        if (typeof fields?.bill === 'string') {
+          const saved: SwissQRBill = JSON.parse(fields.bill);
+          setBill(saved);
+          setAmountText(saved.amount !== undefined ? saved.amount.toFixed(2) : '');
+          setDebtor(saved.debtor || EMPTY_ADDRESS);
+          setHasDebtor(!!saved.debtor);
+        }
+        setQrOptions({ ...editable.options, errorCorrectionLevel: 'M', type: 'image/png' });
+      })
+      .catch(err => {
+        console.error('Failed to load QR-bill for editing:', err);
+        setError('Failed to load this QR code for editing');
+      });
+  }, [editItem]);
+
+  const amount = parseAmount(amountText);
+  const qrIban = isQRIBAN(bill.account);
+
+  // A QR-IBAN always takes a QR reference, other accounts never do
+  const referenceType: SwissReferenceType = qrIban ? 'QRR' : bill.referenceType === 'QRR' ? 'SCOR' : bill.referenceType;
+  const currentBill: SwissQRBill = {
+    ...bill,
+    amount,
+    debtor: hasDebtor ? debtor : undefined,
+    referenceType,
+    reference: referenceType === 'NON' ? undefined : bill.reference
+  };
+
+  // Generate the QR-bill code and the printable bill
+  const generateQR = useCallback(async () => {
+    const validation = amount !== undefined && Number.isNaN(amount)
+      ? { isValid: false, error: 'Enter the amount as a number, e.g. 1949.75' }
+      : validateSwissQRBill(currentBill);
+    if (!validation.isValid) {
+      setError(validation.error || 'Invalid bill details');
+      return;
+    }
+
+    setIsGenerating(true);
+    setError('');
+
+    try {
+      const payload = buildSwissQRBillPayload(currentBill);
+      const dataUrl = await generateSwissQRBillQR(currentBill, qrOptions);
+      setQrDataUrl(dataUrl);
+      setBillSvg(renderSwissQRBillSVG(currentBill));
+
+      const qrData: QRCodeData = {
+        id: Date.now(),
+        text: payload,
+        dataUrl,
+        timestamp: new Date().toISOString(),
+        title: `QR-bill: ${currentBill.creditor.name.trim()}${amount !== undefined ? ` ${currentBill.currency} ${formatSwissAmount(amount)}` : ''}`,
+        revision: revisionBase ? await createRevisionLink(revisionBase) : undefined,
+        type: 'payment',
+        metadata: {
+          size: qrOptions.width || 256,
+          errorLevel: 'M',
+          color: {
+            dark: '#000000',
+            light: '#FFFFFF'
+          }
+        },
+        recipe: await createRecipe(payload, { ...qrOptions, errorCorrectionLevel: 'M' }, {
+          contentType: 'payment',
+          // Addresses are nested, so the bill is kept as JSON
+          fields: { bill: JSON.stringify(currentBill) }
+        })
+      };
+
+      // Save to history and track analytics
+      await addToQRHistory(qrData);
+      await trackQRGeneration('payment', qrOptions.width || 256);
+      if (revisionBase) {
+        setRevisionBase(qrData);
+      }
+
+      onQRGenerated?.(qrData);
+    } catch (err) {
+      console.error('QR-bill generation failed:', err);
+      setError('Failed to generate QR-bill');
+      setQrDataUrl('');
+      setBillSvg('');
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [currentBill, amount, qrOptions, revisionBase, onQRGenerated]);
+
+  const resetOutput = () => {
+    setQrDataUrl('');
+    setBillSvg('');
+    setError('');
+  };
+
+  // Update bill data
+  const updateBill = (updates: Partial<SwissQRBill>) => {
+    setBill(prev => ({ ...prev, ...updates }));
+    resetOutput();
+  };
+
+  // Turn the invoice number typed into the reference field into a QR or creditor reference
+  const makeReference = () => {
+    try {
+      const base = bill.reference || '';
+      updateBill({ reference: referenceType === 'QRR' ? createQRReference(base) : createCreditorReference(base) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create a reference');
+    }
+  };
+
+  const fileName = (extension: string) =>
+    `qr-bill-${bill.creditor.name.trim().replace(/[^a-z0-9]/gi, '_').toLowerCase()}-${Date.now()}.${extension}`;
+
+  // Download the code alone, or the whole payment part as SVG or PDF
+  const handleDownloadPNG = async () => {
+    if (!qrDataUrl) return;
+
+    try {
+      await downloadFile(qrDataUrl, fileName('png'));
+      await trackDownload();
+    } catch (err) {
+      console.error('Download failed:', err);
+      setError('Failed to download QR code');
+    }
+  };
+
+  const handleDownloadSVG = async () => {
+    if (!billSvg) return;
+
+    try {
+      await downloadFile(svgToDataUrl(billSvg), fileName('svg'));
+      await trackDownload();
+    } catch (err) {
+      console.error('Download failed:', err);
+      setError('Failed to download QR-bill');
+    }
+  };
+
+  const handleDownloadPDF = async () => {
+    try {
+      saveAs(await exportSwissQRBillToPDF(currentBill), fileName('pdf'));
+      await trackDownload();
+    } catch (err) {
+      console.error('PDF export failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export PDF');
+    }
+  };
+
+  // Clear form
+  const clearForm = () => {
+    setBill(EMPTY_BILL);
+    setAmountText('');
+    setDebtor(EMPTY_ADDRESS);
+    setHasDebtor(false);
+    resetOutput();
+  };
+
+  return (
+    <div className={`bg-white rounded-lg border p-4 space-y-4 ${className}`}>
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Receipt className="w-5 h-5 text-blue-600" />
+          <h3 className="font-semibold text-gray-900">Swiss QR-bill Generator</h3>
+        </div>
+
+        <button
+          onClick={clearForm}
+          className="text-sm text-gray-500 hover:text-gray-700"
+        >
+          Clear
+        </button>
+      </div>
+
+      {/* Revision Banner */}
+      {revisionBase && (
+        <div className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg px-3 py-2">
+          <div className="flex items-center space-x-2 min-w-0">
+            <GitBranch className="w-4 h-4 text-blue-600 flex-shrink-0" />
+            <span className="text-sm text-blue-900 truncate">
+              Editing {revisionBase.title} (v{revisionBase.revision?.number || 1})
+            </span>
+          </div>
+          <button
+            onClick={() => {
+              setRevisionBase(null);
+              onCancelEdit?.();
+            }}
+            className="p-1 text-blue-400 hover:text-blue-700"
+            title="Stop editing"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Bill Form */}
+      <div className="space-y-4">
+        {/* Account */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">IBAN or QR-IBAN</label>
+          <input
+            type="text"
+            value={bill.account}
+            onChange={(e) => updateBill({ account: e.target.value })}
+            onBlur={() => bill.account && updateBill({ account: formatIBAN(bill.account) })}
+            placeholder="CH44 3199 9123 0008 8901 2"
+            className={`${inputClass} font-mono`}
+          />
+          {qrIban && (
+            <p className="text-xs text-gray-500 mt-1">QR-IBAN: payments need a QR reference</p>
+          )}
+        </div>
+
+        <AddressFields
+          label="Creditor (Payable to)"
+          address={bill.creditor}
+          onChange={(updates) => updateBill({ creditor: { ...bill.creditor, ...updates } })}
+        />
+
+        {/* Amount */}
+        <div className="flex space-x-2">
+          <div className="w-24">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+            <select
+              value={bill.currency}
+              onChange={(e) => updateBill({ currency: e.target.value as SwissQRBill['currency'] })}
+              className={inputClass}
+            >
+              <option value="CHF">CHF</option>
+              <option value="EUR">EUR</option>
+            </select>
+          </div>
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={amountText}
+              onChange={(e) => {
+                setAmountText(e.target.value);
+                resetOutput();
+              }}
+              placeholder="Payer enters it"
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        {/* Reference */}
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">Reference</label>
+          <select
+            value={referenceType}
+            onChange={(e) => updateBill({ referenceType: e.target.value as SwissReferenceType })}
+            disabled={qrIban}
+            className={`${inputClass} disabled:opacity-50`}
+          >
+            {(Object.keys(SWISS_REFERENCE_LABELS) as SwissReferenceType[])
+              .filter(type => (qrIban ? type === 'QRR' : type !== 'QRR'))
+              .map(type => (
+                <option key={type} value={type}>{SWISS_REFERENCE_LABELS[type]}</option>
+              ))}
+          </select>
+          {referenceType !== 'NON' && (
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={bill.reference || ''}
+                onChange={(e) => updateBill({ reference: e.target.value.toUpperCase() })}
+                placeholder={referenceType === 'QRR' ? '21 00000 00003 13947 14300 09017' : 'RF18 5390 0754 7034'}
+                className={`${inputClass} font-mono`}
+              />
+              <button
+                onClick={makeReference}
+                disabled={!bill.reference}
+                className="p-2 text-gray-500 hover:text-blue-600 disabled:opacity-40"
+                title="Create a reference with check digits from an invoice number"
+              >
+                <Hash className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Additional information */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Message</label>
+          <input
+            type="text"
+            value={bill.message || ''}
+            onChange={(e) => updateBill({ message: e.target.value || undefined })}
+            placeholder="Order of 15 June"
+            maxLength={140}
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Bill Information</label>
+          <input
+            type="text"
+            value={bill.billInformation || ''}
+            onChange={(e) => updateBill({ billInformation: e.target.value || undefined })}
+            placeholder="//S1/10/10201409/11/200701"
+            maxLength={140}
+            className={`${inputClass} font-mono`}
+          />
+        </div>
+
+        {/* Debtor */}
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={hasDebtor}
+            onChange={(e) => {
+              setHasDebtor(e.target.checked);
+              resetOutput();
+            }}
+            className="rounded"
+          />
+          <span>Print the debtor's address</span>
+        </label>
+
+        {hasDebtor && (
+          <AddressFields
+            label="Debtor (Payable by)"
+            address={debtor}
+            onChange={(updates) => {
+              setDebtor(prev => ({ ...prev, ...updates }));
+              resetOutput();
+            }}
+          />
+        )}
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {/* Generate Button */}
+      <button
+        onClick={generateQR}
+        disabled={!bill.account.trim() || !bill.creditor.name.trim() || isGenerating}
+        className="w-full bg-primary-600 text-white py-2 px-4 rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+      >
+        {isGenerating ? 'Generating...' : revisionBase ? 'Save QR-bill Revision' : 'Generate QR-bill'}
+      </button>
+
+      {/* Bill Preview */}
+      {qrDataUrl && billSvg && (
+        <div className="space-y-3">
+          <div className="bg-gray-50 rounded-lg p-2">
+            <img
+              src={svgToDataUrl(billSvg)}
+              alt="QR-bill payment part"
+              className="block w-full bg-white shadow-sm"
+            />
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex space-x-2">
+            <button
+              onClick={handleDownloadPNG}
+              className="flex-1 flex items-center justify-center space-x-2 py-2 px-3 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors text-sm font-medium"
+              title="Download the QR code only"
+            >
+              <Download className="w-4 h-4" />
+              <span>PNG</span>
+            </button>
+
+            <button
+              onClick={handleDownloadSVG}
+              className="flex-1 flex items-center justify-center space-x-2 py-2 px-3 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors text-sm font-medium"
+              title="Download the receipt and payment part as SVG"
+            >
+              <FileCode className="w-4 h-4" />
+              <span>SVG</span>
+            </button>
+
+            <button
+              onClick={handleDownloadPDF}
+              className="flex-1 flex items-center justify-center space-x-2 py-2 px-3 bg-primary-600 text-white hover:bg-primary-700 rounded-lg transition-colors text-sm font-medium"
+              title="Download an A4 page with the payment slip at the bottom"
+            >
+              <FileText className="w-4 h-4" />
+              <span>PDF</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SwissQRBillGenerator;
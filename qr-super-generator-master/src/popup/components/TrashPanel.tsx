@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, Clock, RotateCcw, Trash2, XCircle } from 'lucide-react';
+import { TrashedQRCodeData } from '../../types';
+import {
+  getTrashedQRCodes,
+  restoreQRCodes,
+  deleteQRCodesPermanently,
+  getUserPreferences,
+  DEFAULT_TRASH_RETENTION_DAYS
+} from '../../utils/storage';
+
+interface TrashPanelProps {
+  onBack: () => void;
+  // Called after items leave the trash, so history and counts can refresh
+  onChange: () => void;
+}
+
+const PAGE_SIZE = 30;
+const DAY = 24 * 60 * 60 * 1000;
+
+const TrashPanel: React.FC<TrashPanelProps> = ({ onBack, onChange }) => {
+  const [items, setItems] = useState<TrashedQRCodeData[]>([]);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+
+  const loadPage = useCallback(async (offset: number) => {
+    const page = await getTrashedQRCodes({ offset, limit: PAGE_SIZE });
+    setItems(prev => (offset === 0 ? page.items : [...prev, ...page.items]));
+    setTotal(page.total);
+    setHasMore(page.hasMore);
+  }, []);
+
+  useEffect(() => {
+    loadPage(0).catch(error => console.error('Failed to load trash:', error));
+    getUserPreferences()
+      .then(preferences => setRetentionDays(preferences.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS))
+      .catch(error => console.error('Failed to load preferences:', error));
+  }, [loadPage]);
+
+  // Days left before auto-purge removes an item, or null when the trash is kept forever
+  const daysLeft = (item: TrashedQRCodeData) => {
+    if (retentionDays <= 0) return null;
+    const expires = new Date(item.deletedAt).getTime() + retentionDays * DAY;
+    return Math.max(0, Math.ceil((expires - Date.now()) / DAY));
+  };
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      setSelectedIds(new Set());
+      await loadPage(0);
+      onChange();
+    } catch (error) {
+      console.error('Failed to update trash:', error);
+    }
+  };
+
+  const handleRestore = (ids: number[] | 'all') => runAction(() => restoreQRCodes(ids));
+
+  const handleDelete = (ids: number[] | 'all') => {
+    const count = ids === 'all' ? total : ids.length;
+    if (!confirm(`Permanently delete ${count} QR code${count !== 1 ? 's' : ''}? This cannot be undone.`)) return;
+    runAction(() => deleteQRCodesPermanently(ids));
+  };
+
+  const toggleSelection = (id: number) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelectedIds(next);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="glass-card">
+        <div className="flex items-center justify-between">
+          <button onClick={onBack} className="flex items-center space-x-1 text-sm text-gray-400 hover:text-white">
+            <ArrowLeft className="w-4 h-4" />
+            <span>History</span>
+          </button>
+          <h2 className="text-xl font-bold text-white flex items-center">
+            <Trash2 className="w-5 h-5 text-red-400 mr-2" />
+            Trash
+          </h2>
+          <span className="text-sm text-gray-400">{total} item{total !== 1 ? 's' : ''}</span>
+        </div>
+        <p className="text-gray-400 text-xs text-center mt-2">
+          {retentionDays > 0
+            ? `Deleted QR codes are removed for good after ${retentionDays} days`
+            : 'Deleted QR codes stay here until you empty the trash'}
+        </p>
+      </div>
+
+      {/* Bulk Actions */}
+      {selectedIds.size > 0 && (
+        <div className="glass-card bg-primary-500/10 border border-primary-500/20">
+          <div className="flex items-center justify-between">
+            <span className="text-white text-sm">
+              {selectedIds.size} item{selectedIds.size !== 1 ? 's' : ''} selected
+            </span>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => handleRestore(Array.from(selectedIds))}
+                className="glass-button px-3 py-1 text-xs hover:bg-green-500/20"
+              >
+                <RotateCcw className="w-3 h-3 mr-1" />
+                Restore
+              </button>
+              <button
+                onClick={() => handleDelete(Array.from(selectedIds))}
+                className="glass-button px-3 py-1 text-xs hover:bg-red-500/20"
+              >
+                <XCircle className="w-3 h-3 mr-1" />
+                Delete forever
+              </button>
+              <button
+                onClick={() => setSelectedIds(new Set())}
+                className="text-gray-400 hover:text-white text-xs"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Trashed Items */}
+      <div className="space-y-3">
+        {items.length === 0 ? (
+          <div className="glass-card text-center py-12">
+            <Trash2 className="w-8 h-8 text-gray-500 mx-auto mb-3" />
+            <p className="text-gray-400 text-sm">The trash is empty</p>
+          </div>
+        ) : (
+          items.map(item => {
+            const remaining = daysLeft(item);
+            return (
+              <div
+                key={item.id}
+                className={`glass-card flex items-center space-x-3 ${
+                  selectedIds.has(item.id) ? 'bg-primary-500/10 border-primary-500/30' : ''
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(item.id)}
+                  onChange={() => toggleSelection(item.id)}
+                  className="flex-shrink-0"
+                />
+                {item.dataUrl ? (
+                  <img
+                    src={item.dataUrl}
+                    alt={`QR Code for ${item.title}`}
+                    className="w-12 h-12 rounded-lg border border-white/20 bg-white/5 opacity-60"
+                  />
+                ) : (
+                  <div className="w-12 h-12 rounded-lg bg-gray-700/50 flex-shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <h4 className="font-semibold text-white truncate">{item.title}</h4>
+                  <p className="text-xs text-gray-400 truncate">{item.text}</p>
+                  <div className="flex items-center space-x-1 mt-1 text-xs text-gray-500">
+                    <Clock className="w-3 h-3" />
+                    <span>Deleted {new Date(item.deletedAt).toLocaleDateString()}</span>
+                    {remaining !== null && (
+                      <span>· {remaining === 0 ? 'removed soon' : `${remaining} day${remaining !== 1 ? 's' : ''} left`}</span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex flex-col space-y-1">
+                  <button
+                    onClick={() => handleRestore([item.id])}
+                    className="glass-button p-2 hover:bg-green-500/20 group"
+                    title="Restore to history"
+                  >
+                    <RotateCcw className="w-4 h-4 text-gray-400 group-hover:text-green-400" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete([item.id])}
+                    className="glass-button p-2 hover:bg-red-500/20 group"
+                    title="Delete forever"
+                  >
+                    <XCircle className="w-4 h-4 text-gray-400 group-hover:text-red-400" />
+                  </button>
+                </div>
+              </div>
+            );
+          })
+        )}
+
+        {hasMore && (
+          <button
+            onClick={() => loadPage(items.length).catch(error => console.error('Failed to load trash:', error))}
+            className="w-full glass-button py-2 text-sm text-gray-300 hover:text-white"
+          >
+            Load more
+          </button>
+        )}
+      </div>
+
+      {/* Restore / Empty */}
+      {total > 0 && (
+        <div className="glass-card flex space-x-2">
+          <button
+            onClick={() => handleRestore('all')}
+            className="flex-1 glass-button py-3 text-green-400 hover:text-green-300 hover:bg-green-500/10 transition-colors"
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Restore All
+          </button>
+          <button
+            onClick={() => handleDelete('all')}
+            className="flex-1 glass-button py-3 text-red-400 hover:text-red-300 hover:bg-red-500/10 transition-colors"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Empty Trash
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrashPanel;
@@ -1,33 +1,102 @@
-import React, { useState, useCallback } from 'react';
-import { Wifi, Download, Copy, Eye, EyeOff, Shield, QrCode } from 'lucide-react';
+import React, { useState, useCallback, useEffect } from 'react';
+import { Wifi, Download, Copy, Eye, EyeOff, Shield, QrCode, GitBranch, X, Building2 } from 'lucide-react';
 import { generateWiFiQR, QROptions, WiFiQRData } from '../../utils/qr-generator';
 import { downloadFile } from '../../utils/chrome-apis';
-import { addToQRHistory, trackQRGeneration, trackDownload } from '../../utils/storage';
-import { QRCodeData } from '../../types';
+import { createRecipe, loadRecipeForEditing } from '../../utils/qr-recipe';
+import { addToQRHistory, trackQRGeneration, trackDownload, createRevisionLink } from '../../utils/storage';
+import { buildWiFiPayload, parseWiFiPayload, validateWiFiCredentials, WIFI_EAP_METHODS, WIFI_PHASE2_METHODS } from '../../utils/wifi-payload';
+import { QRCodeData, QRRecipe, WiFiEAPMethod, WiFiPhase2Method, WiFiSecurity } from '../../types';
 
 interface WiFiQRGeneratorProps {
   onQRGenerated?: (qrData: QRCodeData) => void;
+  // History entry to edit; saving creates a new revision linked to it
+  editItem?: QRCodeData;
+  onCancelEdit?: () => void;
   className?: string;
 }
 
+const SECURITY_OPTIONS: Array<{ value: WiFiSecurity; label: string; icon: typeof Shield }> = [
+  { value: 'WPA', label: 'WPA/WPA2', icon: Shield },
+  { value: 'SAE', label: 'WPA3', icon: Shield },
+  { value: 'WEP', label: 'WEP', icon: Shield },
+  { value: 'WPA2-EAP', label: 'Enterprise', icon: Building2 },
+  { value: 'nopass', label: 'Open', icon: Wifi }
+];
+
+const SECURITY_LABELS: Record<WiFiSecurity, string> = {
+  WPA: 'WPA/WPA2',
+  SAE: 'WPA3',
+  WEP: 'WEP',
+  'WPA2-EAP': 'WPA2/WPA3 Enterprise',
+  nopass: 'Open'
+};
+
+// Enterprise methods that sign in with a password (the others use a certificate or SIM)
+const usesEAPPassword = (method?: WiFiEAPMethod) => method === 'PEAP' || method === 'TTLS' || method === 'PWD';
+
+// Flatten the network details into recipe fields
+const toRecipeFields = (data: WiFiQRData): NonNullable<QRRecipe['fields']> => {
+  const fields: NonNullable<QRRecipe['fields']> = {
+    ssid: data.ssid,
+    password: data.password,
+    security: data.security,
+    hidden: !!data.hidden
+  };
+  if (data.hexSsid) fields.hexSsid = true;
+  if (data.transitionDisable) fields.transitionDisable = true;
+  if (data.eap) {
+    fields.eapMethod = data.eap.method;
+    if (data.eap.phase2) fields.eapPhase2 = data.eap.phase2;
+    if (data.eap.identity) fields.eapIdentity = data.eap.identity;
+    if (data.eap.anonymousIdentity) fields.eapAnonymousIdentity = data.eap.anonymousIdentity;
+  }
+  return fields;
+};
+
+// Rebuild the network details from recipe fields
+const fromRecipeFields = (fields: NonNullable<QRRecipe['fields']>): WiFiQRData => {
+  const security = String(fields.security ?? 'WPA') as WiFiSecurity;
+  return {
+    ssid: String(fields.ssid ?? ''),
+    password: String(fields.password ?? ''),
+    security: SECURITY_OPTIONS.some(option => option.value === security) ? security : 'WPA',
+    hidden: fields.hidden === true,
+    hexSsid: fields.hexSsid === true || undefined,
+    transitionDisable: fields.transitionDisable === true || undefined,
+    eap: fields.eapMethod
+      ? {
+          method: fields.eapMethod as WiFiEAPMethod,
+          phase2: fields.eapPhase2 ? fields.eapPhase2 as WiFiPhase2Method : undefined,
+          identity: fields.eapIdentity ? String(fields.eapIdentity) : undefined,
+          anonymousIdentity: fields.eapAnonymousIdentity ? String(fields.eapAnonymousIdentity) : undefined
+        }
+      : undefined
+  };
+};
+
+const EMPTY_WIFI_DATA: WiFiQRData = {
+  ssid: '',
+  password: '',
+  security: 'WPA',
+  hidden: false
+};
+
 const WiFiQRGenerator: React.FC<WiFiQRGeneratorProps> = ({
   onQRGenerated,
+  editItem,
+  onCancelEdit,
   className = ''
 }) => {
   // WiFi form state
-  const [wifiData, setWifiData] = useState<WiFiQRData>({
-    ssid: '',
-    password: '',
-    security: 'WPA',
-    hidden: false
-  });
+  const [wifiData, setWifiData] = useState<WiFiQRData>(EMPTY_WIFI_DATA);
 
   // Component state
   const [qrDataUrl, setQrDataUrl] = useState<string>('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string>('');
   const [showPassword, setShowPassword] = useState(false);
-  const [qrOptions] = useState<QROptions>({
+  const [revisionBase, setRevisionBase] = useState<QRCodeData | null>(editItem || null);
+  const [qrOptions, setQrOptions] = useState<QROptions>({
     width: 256,
     margin: 1,
     color: {
@@ -38,19 +107,35 @@ const WiFiQRGenerator: React.FC<WiFiQRGeneratorProps> = ({
     type: 'image/png'
   });
 
+  // Restore the network details and render options of the entry being edited
+  useEffect(() => {
+    if (!editItem) return;
+
+    setRevisionBase(editItem);
+    loadRecipeForEditing(editItem)
+      .then(editable => {
+        const { fields } = editable;
+        setWifiData(fields
+          ? fromRecipeFields(fields)
+          : parseWiFiPayload(editable.payload) || { ...EMPTY_WIFI_DATA });
+        setQrOptions({ ...editable.options, type: 'image/png' });
+      })
+      .catch(err => {
+        console.error('Failed to load WiFi QR code for editing:', err);
+        setError('Failed to load this QR code for editing');
+      });
+  }, [editItem]);
+
   // Validation
   const isValid = wifiData.ssid.trim().length > 0;
-  const requiresPassword = wifiData.security !== 'nopass';
+  const isEnterprise = wifiData.security === 'WPA2-EAP';
+  const requiresPassword = wifiData.security !== 'nopass' && (!isEnterprise || usesEAPPassword(wifiData.eap?.method));
 
   // Generate WiFi QR code
   const generateQR = useCallback(async () => {
-    if (!isValid) {
-      setError('Network name (SSID) is required');
-      return;
-    }
-
-    if (requiresPassword && !wifiData.password.trim()) {
-      setError('Password is required for secured networks');
+    const validation = validateWiFiCredentials(wifiData);
+    if (!validation.isValid) {
+      setError(validation.error || 'Invalid WiFi details');
       return;
     }
 
@@ -62,12 +147,14 @@ const WiFiQRGenerator: React.FC<WiFiQRGeneratorProps> = ({
       setQrDataUrl(dataUrl);
       
       // Create QR data object
+      const text = buildWiFiPayload(wifiData);
       const qrData: QRCodeData = {
         id: Date.now(),
-        text: `WIFI:T:${wifiData.security};S:${wifiData.ssid};P:${wifiData.password};H:${wifiData.hidden ? 'true' : 'false'};;`,
+        text,
         dataUrl,
         timestamp: new Date().toISOString(),
         title: `WiFi: ${wifiData.ssid}`,
+        revision: revisionBase ? await createRevisionLink(revisionBase) : undefined,
         type: 'wifi',
         metadata: {
           size: qrOptions.width || 256,
@@ -76,12 +163,19 @@ const WiFiQRGenerator: React.FC<WiFiQRGeneratorProps> = ({
             dark: qrOptions.color?.dark || '#000000',
             light: qrOptions.color?.light || '#FFFFFF'
           }
-        }
+        },
+        recipe: await createRecipe(text, qrOptions, {
+          contentType: 'wifi',
+          fields: toRecipeFields(wifiData)
+        })
       };
 
       // Save to history and track analytics
       await addToQRHistory(qrData);
       await trackQRGeneration('wifi', qrOptions.width || 256);
+      if (revisionBase) {
+        setRevisionBase(qrData);
+      }
       
       // Notify parent component
       onQRGenerated?.(qrData);
@@ -93,7 +187,7 @@ const WiFiQRGenerator: React.FC<WiFiQRGeneratorProps> = ({
     } finally {
       setIsGenerating(false);
     }
-  }, [wifiData, qrOptions, isValid, requiresPassword, onQRGenerated]);
+  }, [wifiData, qrOptions, revisionBase, onQRGenerated]);
 
   // Update WiFi data
   const updateWifiData = (updates: Partial<WiFiQRData>) => {
@@ -102,6 +196,22 @@ const WiFiQRGenerator: React.FC<WiFiQRGeneratorProps> = ({
     setError('');
   };
 
+  // Enterprise networks need EAP settings; other types drop them
+  const selectSecurity = (security: WiFiSecurity) => {
+    updateWifiData({
+      security,
+      password: security === 'nopass' ? '' : wifiData.password,
+      eap: security === 'WPA2-EAP' ? wifiData.eap || { method: 'PEAP', phase2: 'MSCHAPV2' } : undefined,
+      transitionDisable: security === 'WPA' || security === 'SAE' ? wifiData.transitionDisable : undefined
+    });
+  };
+
+  const updateEAP = (updates: Partial<NonNullable<WiFiQRData['eap']>>) => {
+    const eap = { method: 'PEAP' as const, ...wifiData.eap, ...updates };
+    // The password field is hidden for certificate and SIM methods, so don't keep a stale one
+    updateWifiData({ eap, password: usesEAPPassword(eap.method) ? wifiData.password : '' });
+  };
+
   // Download QR code
   const handleDownload = async () => {
     if (!qrDataUrl) return;
@@ -140,12 +250,7 @@ const WiFiQRGenerator: React.FC<WiFiQRGeneratorProps> = ({
 
   // Clear form
   const clearForm = () => {
-    setWifiData({
-      ssid: '',
-      password: '',
-      security: 'WPA',
-      hidden: false
-    });
+    setWifiData(EMPTY_WIFI_DATA);
     setQrDataUrl('');
     setError('');
   };
@@ -182,6 +287,28 @@ const WiFiQRGenerator: React.FC<WiFiQRGeneratorProps> = ({
         </button>
       </div>
 
+      {/* Revision Banner */}
+      {revisionBase && (
+        <div className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg px-3 py-2">
+          <div className="flex items-center space-x-2 min-w-0">
+            <GitBranch className="w-4 h-4 text-blue-600 flex-shrink-0" />
+            <span className="text-sm text-blue-900 truncate">
+              Editing {revisionBase.title} (v{revisionBase.revision?.number || 1})
+            </span>
+          </div>
+          <button
+            onClick={() => {
+              setRevisionBase(null);
+              onCancelEdit?.();
+            }}
+            className="p-1 text-blue-400 hover:text-blue-700"
+            title="Stop editing"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Quick Presets */}
       <div className="space-y-2">
         <label className="text-sm font-medium text-gray-700">Quick Setup</label>
@@ -209,13 +336,13 @@ const WiFiQRGenerator: React.FC<WiFiQRGeneratorProps> = ({
             type="text"
             value={wifiData.ssid}
             onChange={(e) => updateWifiData({ ssid: e.target.value })}
-            placeholder="MyWiFiNetwork"
+            placeholder={wifiData.hexSsid ? '4D79576946694E6574' : 'MyWiFiNetwork'}
             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-            maxLength={32}
+            maxLength={wifiData.hexSsid ? 64 : 32}
           />
           {wifiData.ssid.length > 0 && (
             <p className="text-xs text-gray-500 mt-1">
-              {wifiData.ssid.length}/32 characters
+              {wifiData.hexSsid ? `${wifiData.ssid.length}/64 hex digits` : `${wifiData.ssid.length}/32 characters`}
             </p>
           )}
         </div>
@@ -225,16 +352,12 @@ const WiFiQRGenerator: React.FC<WiFiQRGeneratorProps> = ({
           <label className="block text-sm font-medium text-gray-700 mb-1">
             Security Type
           </label>
-          <div className="flex space-x-1 bg-gray-100 rounded-lg p-1">
-            {([
-              { value: 'WPA', label: 'WPA/WPA2', icon: Shield },
-              { value: 'WEP', label: 'WEP', icon: Shield },
-              { value: 'nopass', label: 'Open', icon: Wifi }
-            ] as const).map(({ value, label, icon: Icon }) => (
+          <div className="grid grid-cols-3 gap-1 bg-gray-100 rounded-lg p-1">
+            {SECURITY_OPTIONS.map(({ value, label, icon: Icon }) => (
               <button
                 key={value}
-                onClick={() => updateWifiData({ security: value, password: value === 'nopass' ? '' : wifiData.password })}
-                className={`flex-1 flex items-center justify-center space-x-1 py-2 px-3 text-sm font-medium rounded-md transition-colors ${
+                onClick={() => selectSecurity(value)}
+                className={`flex items-center justify-center space-x-1 py-2 px-2 text-xs font-medium rounded-md transition-colors ${
                   wifiData.security === value
                     ? 'bg-white text-blue-600 shadow-sm'
                     : 'text-gray-600 hover:text-gray-900'
@@ -247,6 +370,59 @@ const WiFiQRGenerator: React.FC<WiFiQRGeneratorProps> = ({
           </div>
         </div>
 
+        {/* Enterprise (EAP) Settings */}
+        {isEnterprise && (
+          <div className="space-y-3 border border-gray-200 rounded-lg p-3">
+            <div className="flex space-x-2">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-1">EAP Method</label>
+                <select
+                  value={wifiData.eap?.method || 'PEAP'}
+                  onChange={(e) => updateEAP({ method: e.target.value as WiFiEAPMethod })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {WIFI_EAP_METHODS.map(method => (
+                    <option key={method} value={method}>{method.replace('_', "'")}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Phase 2</label>
+                <select
+                  value={wifiData.eap?.phase2 || 'NONE'}
+                  onChange={(e) => updateEAP({ phase2: e.target.value as WiFiPhase2Method })}
+                  disabled={wifiData.eap?.method !== 'PEAP' && wifiData.eap?.method !== 'TTLS'}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                >
+                  {WIFI_PHASE2_METHODS.map(method => (
+                    <option key={method} value={method}>{method === 'NONE' ? 'None' : method}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Identity</label>
+              <input
+                type="text"
+                value={wifiData.eap?.identity || ''}
+                onChange={(e) => updateEAP({ identity: e.target.value || undefined })}
+                placeholder="user@example.com"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Anonymous Identity</label>
+              <input
+                type="text"
+                value={wifiData.eap?.anonymousIdentity || ''}
+                onChange={(e) => updateEAP({ anonymousIdentity: e.target.value || undefined })}
+                placeholder="anonymous@example.com"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+        )}
+
         {/* Password (only for secured networks) */}
         {requiresPassword && (
           <div>
@@ -260,7 +436,7 @@ const WiFiQRGenerator: React.FC<WiFiQRGeneratorProps> = ({
                 onChange={(e) => updateWifiData({ password: e.target.value })}
                 placeholder="Enter WiFi password"
                 className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                maxLength={63}
+                maxLength={wifiData.security === 'WPA' ? 64 : undefined}
               />
               <button
                 type="button"
@@ -270,7 +446,7 @@ const WiFiQRGenerator: React.FC<WiFiQRGeneratorProps> = ({
                 {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
               </button>
             </div>
-            {wifiData.password.length > 0 && (
+            {wifiData.password.length > 0 && wifiData.security === 'WPA' && (
               <p className="text-xs text-gray-500 mt-1">
                 {wifiData.password.length}/63 characters
               </p>
@@ -292,6 +468,30 @@ const WiFiQRGenerator: React.FC<WiFiQRGeneratorProps> = ({
             />
             <span className="text-sm text-gray-700">Hidden Network</span>
           </label>
+
+          {/* Hex SSID */}
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!wifiData.hexSsid}
+              onChange={(e) => updateWifiData({ hexSsid: e.target.checked || undefined })}
+              className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 focus:ring-2"
+            />
+            <span className="text-sm text-gray-700">Network name is in hex</span>
+          </label>
+
+          {/* WPA3 Transition Disable */}
+          {(wifiData.security === 'WPA' || wifiData.security === 'SAE') && (
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!wifiData.transitionDisable}
+                onChange={(e) => updateWifiData({ transitionDisable: e.target.checked || undefined })}
+                className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 focus:ring-2"
+              />
+              <span className="text-sm text-gray-700">Don't fall back to WPA2 once joined with WPA3</span>
+            </label>
+          )}
         </div>
       </div>
 
@@ -305,10 +505,10 @@ const WiFiQRGenerator: React.FC<WiFiQRGeneratorProps> = ({
       {/* Generate Button */}
       <button
         onClick={generateQR}
-        disabled={!isValid || isGenerating || (requiresPassword && !wifiData.password.trim())}
+        disabled={!isValid || isGenerating || (requiresPassword && !wifiData.password)}
         className="w-full bg-primary-600 text-white py-2 px-4 rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
       >
-        {isGenerating ? 'Generating...' : 'Generate WiFi QR Code'}
+        {isGenerating ? 'Generating...' : revisionBase ? 'Save WiFi QR Revision' : 'Generate WiFi QR Code'}
       </button>
 
       {/* QR Preview */}
@@ -334,7 +534,7 @@ const WiFiQRGenerator: React.FC<WiFiQRGeneratorProps> = ({
               </div>
               <div className="flex justify-between">
                 <span>Security:</span>
-                <span>{wifiData.security === 'nopass' ? 'Open' : wifiData.security}</span>
+                <span>{SECURITY_LABELS[wifiData.security]}</span>
               </div>
               {wifiData.hidden && (
                 <div className="flex justify-between">
@@ -9,8 +9,17 @@ export interface QRCodeData {
   dataUrl: string;
   timestamp: string;
   title: string;
-  type?: 'url' | 'text' | 'wifi' | 'contact' | 'calendar' | 'custom';
+  type?: 'url' | 'text' | 'wifi' | 'contact' | 'calendar' | 'payment' | 'custom';
   fromShortcut?: boolean;
+  source?: QRGenerationSource;
+  // How to re-render this code; when present, dataUrl read back from history is only a thumbnail
+  recipe?: QRRecipe;
+  // Set when this code was saved by editing an earlier history entry
+  revision?: QRRevision;
+  // Library organisation
+  tags?: string[];
+  collectionId?: string;
+  favorite?: boolean;
   metadata?: {
     size?: number;
     errorLevel?: string;
@@ -18,9 +27,80 @@ export interface QRCodeData {
       dark: string;
       light: string;
     };
+    moduleStyle?: ModuleStyle;
+    finderStyle?: FinderStyle;
+    gradient?: QRGradient;
+    eyeColor?: EyeColors;
   };
 }
 
+// A deleted code waiting in the trash
+export interface TrashedQRCodeData extends QRCodeData {
+  deletedAt: string;
+}
+
+// Folder that groups codes in the history library
+export interface QRCollection {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+// Link from an edited code back to the entry it was edited from
+export interface QRRevision {
+  // First entry of the chain (revision 1), which has no revision link itself
+  rootId: number;
+  parentId: number;
+  number: number;
+}
+
+// Content type recognised in a decoded payload
+export type DetectedContentType = 'url' | 'email' | 'phone' | 'sms' | 'wifi' | 'location' | 'vcard' | 'vevent' | 'payment' | 'text';
+
+// A QR code read from an image, kept apart from codes we generated
+export interface DecodedQRData {
+  id: number;
+  text: string;
+  timestamp: string;
+  type: DetectedContentType;
+  imageUrl?: string;
+  pageUrl?: string;
+  pageTitle?: string;
+}
+
+// Logo stored once in the asset store and referenced by id
+export interface QRRecipeLogo {
+  assetId: string;
+  shape?: LogoShape;
+  padding?: number;
+}
+
+// Coloured border with a caption under the code
+export interface QRRecipeFrame {
+  text: string;
+  color: string;
+  textColor?: string;
+}
+
+// Everything needed to render a code again, exactly as it was generated
+export interface QRRecipe {
+  version: 1;
+  payload: string;
+  contentType: NonNullable<QRCodeData['type']>;
+  // Structured input of type-specific generators (e.g. WiFi SSID and security)
+  fields?: Record<string, string | number | boolean>;
+  render: Omit<QRGenerationOptions, 'type'>;
+  logo?: QRRecipeLogo;
+  frame?: QRRecipeFrame;
+}
+
+export interface QRTemplate {
+  id: string;
+  name: string;
+  recipe: QRRecipe;
+  createdAt: string;
+}
+
 export interface QRGenerationOptions {
   width?: number;
   margin?: number;
@@ -30,24 +110,69 @@ export interface QRGenerationOptions {
   };
   errorCorrectionLevel?: 'L' | 'M' | 'Q' | 'H';
   type?: 'image/png' | 'image/jpeg' | 'image/webp';
+  moduleStyle?: ModuleStyle;
+  finderStyle?: FinderStyle;
+  gradient?: QRGradient;
+  eyeColor?: EyeColors;
+}
+
+// WPA covers WPA/WPA2 personal (and WPA3 transition mode), SAE is WPA3 only,
+// WPA2-EAP is WPA2/WPA3 enterprise
+export type WiFiSecurity = 'WPA' | 'SAE' | 'WEP' | 'WPA2-EAP' | 'nopass';
+
+export type WiFiEAPMethod = 'PEAP' | 'TLS' | 'TTLS' | 'PWD' | 'SIM' | 'AKA' | 'AKA_PRIME';
+
+export type WiFiPhase2Method = 'NONE' | 'PAP' | 'MSCHAP' | 'MSCHAPV2' | 'GTC';
+
+export interface WiFiEAPSettings {
+  method: WiFiEAPMethod;
+  phase2?: WiFiPhase2Method;
+  identity?: string;
+  anonymousIdentity?: string;
 }
 
 export interface WiFiCredentials {
   ssid: string;
   password: string;
-  security: 'WPA' | 'WEP' | 'nopass';
+  security: WiFiSecurity;
   hidden?: boolean;
+  // The SSID is given as hex octets rather than text
+  hexSsid?: boolean;
+  // Tell devices not to fall back to WPA2 once they have joined with WPA3 (R:1)
+  transitionDisable?: boolean;
+  eap?: WiFiEAPSettings;
+}
+
+export type ContactPhoneType = 'cell' | 'work' | 'home' | 'fax';
+export type ContactEmailType = 'work' | 'home';
+
+export interface ContactPhone {
+  number: string;
+  type?: ContactPhoneType;
+}
+
+export interface ContactEmail {
+  address: string;
+  type?: ContactEmailType;
 }
 
+// vCard 3.0 reads on the most phones; MECARD is smallest but drops titles, photos and phone types
+export type ContactFormat = 'vcard3' | 'vcard4' | 'mecard';
+
 export interface ContactInfo {
   firstName?: string;
   lastName?: string;
+  // Display name; built from the name parts when left empty
   fullName?: string;
   phone?: string;
   email?: string;
+  phones?: ContactPhone[];
+  emails?: ContactEmail[];
   organization?: string;
   jobTitle?: string;
   website?: string;
+  note?: string;
+  photoUrl?: string;
   address?: {
     street?: string;
     city?: string;
@@ -57,14 +182,98 @@ export interface ContactInfo {
   };
 }
 
+// SEPA credit transfer as encoded in an EPC069-12 ("GiroCode") payment code
+export interface SEPAPayment {
+  // Beneficiary
+  name: string;
+  iban: string;
+  // Optional within the EEA from version 002
+  bic?: string;
+  // Euros; leave empty to let the payer enter it
+  amount?: number;
+  // Four-letter ISO 20022 purpose code, e.g. "GDDS"
+  purpose?: string;
+  // Either a structured ISO 11649 creditor reference (RF...) or free remittance text, not both
+  reference?: string;
+  remittance?: string;
+  // Note shown to the payer
+  information?: string;
+}
+
+// Structured postal address of a Swiss QR-bill party (address type "S")
+export interface SwissAddress {
+  name: string;
+  street?: string;
+  buildingNumber?: string;
+  postalCode: string;
+  town: string;
+  // ISO 3166-1 alpha-2
+  country: string;
+}
+
+// QRR: 27-digit QR reference (needs a QR-IBAN), SCOR: ISO 11649 creditor reference, NON: no reference
+export type SwissReferenceType = 'QRR' | 'SCOR' | 'NON';
+
+// Swiss payment part as encoded in an SPC 0200 QR-bill code
+export interface SwissQRBill {
+  // IBAN or QR-IBAN of the creditor, CH or LI
+  account: string;
+  creditor: SwissAddress;
+  // Leave empty to let the payer enter it
+  amount?: number;
+  currency: 'CHF' | 'EUR';
+  debtor?: SwissAddress;
+  referenceType: SwissReferenceType;
+  reference?: string;
+  // Unstructured message to the payer
+  message?: string;
+  // Structured bill information, e.g. Swico S1
+  billInformation?: string;
+}
+
+export type CalendarFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type CalendarWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface CalendarRecurrence {
+  frequency: CalendarFrequency;
+  interval?: number;
+  // At most one of count and until
+  count?: number;
+  until?: Date;
+  byDay?: CalendarWeekday[];
+}
+
+export interface CalendarPerson {
+  email: string;
+  name?: string;
+}
+
+export interface CalendarAttendee extends CalendarPerson {
+  optional?: boolean;
+}
+
+export interface CalendarAlarm {
+  minutesBefore: number;
+  description?: string;
+}
+
 export interface CalendarEvent {
   title: string;
   start: Date;
   end: Date;
   location?: string;
   description?: string;
-  organizer?: string;
+  organizer?: CalendarPerson;
   url?: string;
+  // IANA time zone the event is held in (e.g. "Europe/Berlin"); UTC when missing
+  timeZone?: string;
+  // Whole days; the end date is inclusive
+  allDay?: boolean;
+  recurrence?: CalendarRecurrence;
+  attendees?: CalendarAttendee[];
+  alarms?: CalendarAlarm[];
+  // Stable id so calendars update a re-scanned event instead of duplicating it
+  uid?: string;
 }
 
 // Chrome Extension types
@@ -81,19 +290,77 @@ export interface ExtensionTab {
   incognito?: boolean;
 }
 
-export interface ChromeMessage {
-  action: string;
-  data?: any;
-  tabId?: number;
-  timestamp?: string;
+export interface PageInfo {
+  url: string;
+  title: string;
+  description: string | null;
+  keywords: string | null;
+  author: string | null;
+  canonicalUrl: string | null;
+  socialImage: string | null;
+  pageText: string;
+  selection: string;
 }
 
-export interface MessageResponse {
-  success: boolean;
-  data?: any;
-  error?: string;
+// A rectangle in screenshot (device) pixels
+export interface ScreenRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface HighlightRequest {
+  selector?: string;
+  region?: ScreenRegion;
+  label?: string;
+}
+
+export interface QROverlayData {
+  dataUrl: string;
+  text: string;
+  title: string;
+}
+
+export interface ShortcutTriggerData {
+  url: string;
+  title?: string;
+  selectedText?: string;
+}
+
+export interface AnalyticsUpdate {
+  qrGenerated?: boolean;
+  extensionOpened?: boolean;
+}
+
+// Message protocol: each action maps to its request payload and response data
+export interface BackgroundMessageMap {
+  generateQR: { request: { text: string }; response: { dataUrl: string } };
+  getBatchTabs: { request: void; response: ExtensionTab[] };
+  updateAnalytics: { request: AnalyticsUpdate; response: void };
+  shortcutTriggered: { request: ShortcutTriggerData; response: void };
 }
 
+export interface ContentMessageMap {
+  copyToClipboard: { request: { text: string }; response: void };
+  getPageInfo: { request: void; response: PageInfo };
+  highlightElement: { request: HighlightRequest; response: void };
+  showQROverlay: { request: QROverlayData; response: void };
+}
+
+export type MessageMap<M> = { [A in keyof M]: { request: unknown; response: unknown } };
+
+export type ChromeMessage<M extends MessageMap<M>> = {
+  [A in keyof M]: { action: A; data: M[A]['request'] };
+}[keyof M];
+
+export type MessageResponse<T> =
+  | { success: true; data: T }
+  | { success: false; error: ExtensionError };
+
+export type BackgroundMessage = ChromeMessage<BackgroundMessageMap>;
+export type ContentMessage = ChromeMessage<ContentMessageMap>;
+
 // Storage types
 export interface ExtensionSettings {
   qrOptions: QRGenerationOptions;
@@ -111,6 +378,9 @@ export interface UserPreferences {
   batchLimit: number;
   compressionLevel: 'low' | 'medium' | 'high';
   copyBehavior: 'image' | 'url' | 'both';
+  historyRetention?: number;
+  // Days deleted codes stay in the trash before being purged; 0 keeps them until emptied
+  trashRetentionDays?: number;
 }
 
 export interface AnalyticsData {
@@ -161,6 +431,7 @@ export interface BatchGenerationResult {
     text: string;
     error: string;
     title: string;
+    reason?: 'generation' | 'scannability';
   }>;
   total: number;
   zipUrl?: string;
@@ -168,7 +439,7 @@ export interface BatchGenerationResult {
 
 // Error types
 export interface ExtensionError {
-  code: string;
+  code: ErrorCode;
   message: string;
   timestamp: string;
   context?: {
@@ -186,14 +457,19 @@ export type ErrorCode =
   | 'TAB_ACCESS_DENIED'
   | 'INVALID_INPUT'
   | 'NETWORK_ERROR'
-  | 'PERMISSION_DENIED';
+  | 'PERMISSION_DENIED'
+  | 'ELEMENT_NOT_FOUND'
+  | 'UNKNOWN_ACTION'
+  | 'INTERNAL_ERROR';
 
 // Event types
+export type QRGenerationSource = 'popup' | 'shortcut' | 'context-menu' | 'batch';
+
 export interface QRGeneratedEvent {
   type: 'qr-generated';
   data: {
     qrData: QRCodeData;
-    source: 'popup' | 'shortcut' | 'context-menu' | 'batch';
+    source: QRGenerationSource;
     timestamp: string;
   };
 }
@@ -246,10 +522,32 @@ export interface StorageResponse {
 }
 
 // Utility types
-export type QRType = 'url' | 'text' | 'wifi' | 'contact' | 'calendar' | 'email' | 'phone' | 'sms';
+export type QRType = 'url' | 'text' | 'wifi' | 'contact' | 'calendar' | 'payment' | 'email' | 'phone' | 'sms';
 
 export type FileFormat = 'png' | 'jpg' | 'svg' | 'pdf';
 
+export type ModuleStyle = 'square' | 'dot' | 'rounded' | 'extra-rounded' | 'classy' | 'diamond';
+
+export type FinderStyle = 'square' | 'dot' | 'rounded' | 'extra-rounded' | 'classy';
+
+export interface GradientStop {
+  offset: number; // 0 to 1
+  color: string;
+}
+
+export interface QRGradient {
+  type: 'linear' | 'radial';
+  rotation?: number; // degrees, linear gradients only
+  stops: GradientStop[];
+}
+
+export interface EyeColors {
+  outer?: string;
+  inner?: string;
+}
+
+export type LogoShape = 'circle' | 'rounded' | 'none';
+
 export type ColorScheme = 'light' | 'dark' | 'auto';
 
 export type NotificationType = 'success' | 'error' | 'warning' | 'info';
@@ -342,13 +640,6 @@ export const QR_FORMATS = {
   WEBP: 'image/webp'
 } as const;
 
-export const STORAGE_KEYS = {
-  SETTINGS: 'qr_settings',
-  HISTORY: 'qr_history', 
-  ANALYTICS: 'qr_analytics',
-  PREFERENCES: 'qr_preferences'
-} as const;
-
 // Type guards
 export function isValidQRText(text: unknown): text is string {
   return typeof text === 'string' && text.trim().length > 0 && text.length <= 4296;
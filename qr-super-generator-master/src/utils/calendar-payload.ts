@@ -0,0 +1,342 @@
+/**
+ * Calendar event payloads for QR Super Generator
+ * Builds RFC 5545 iCalendar events, with time zones, recurrence, reminders and attendees
+ */
+
+import type { CalendarAlarm, CalendarEvent, CalendarPerson, CalendarWeekday } from '../types';
+// vCard and iCalendar escape text and fold long lines the same way
+import { escapeVCardText, foldVCardLine } from './contact-payload';
+
+export interface CalendarPayloadOptions {
+  // A bare VEVENT in UTC without UID, DTSTAMP or time zone definitions, for smaller codes
+  compact?: boolean;
+  // Time the payload is created, written as DTSTAMP
+  now?: Date;
+}
+
+export const CALENDAR_WEEKDAYS: CalendarWeekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const PRODUCT_ID = '-//QR Super Generator//Calendar Event//EN';
+const CRLF = '\r\n';
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+/**
+ * Whether the browser knows an IANA time zone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date and time of an instant in a time zone
+ */
+function getZonedParts(date: Date, timeZone = 'UTC'): DateParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find(item => item.type === type)?.value);
+
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+    second: part('second')
+  };
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in minutes
+ */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUTC = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((asUTC - Math.floor(date.getTime() / 1000) * 1000) / MINUTE);
+}
+
+/**
+ * Turn a wall-clock time such as "2026-10-18T09:30" (or a date "2026-10-18") in a time zone into an instant
+ */
+export function zonedTimeToDate(local: string, timeZone = 'UTC'): Date {
+  const match = local.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?/);
+  if (!match) {
+    throw new Error(`Invalid date: ${local}`);
+  }
+
+  const [, year, month, day, hour = '0', minute = '0'] = match;
+  const asUTC = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute));
+  // Correct by the offset, then once more in case the first guess crossed a DST change
+  const first = asUTC - getTimeZoneOffset(new Date(asUTC), timeZone) * MINUTE;
+  return new Date(asUTC - getTimeZoneOffset(new Date(first), timeZone) * MINUTE);
+}
+
+/**
+ * Format an instant as "2026-10-18T09:30" wall-clock time in a time zone, for date inputs
+ */
+export function dateToZonedTime(date: Date, timeZone = 'UTC'): string {
+  const parts = getZonedParts(date, timeZone);
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}`;
+}
+
+const formatDate = (parts: Pick<DateParts, 'year' | 'month' | 'day'>) =>
+  `${pad(parts.year, 4)}${pad(parts.month)}${pad(parts.day)}`;
+
+const formatDateTime = (parts: DateParts) =>
+  `${formatDate(parts)}T${pad(parts.hour)}${pad(parts.minute)}${pad(parts.second)}`;
+
+const formatUTC = (date: Date) => `${formatDateTime(getZonedParts(date, 'UTC'))}Z`;
+
+/**
+ * Date of an instant in a time zone, moved by a number of days
+ */
+function shiftDate(date: Date, timeZone: string, days: number): Pick<DateParts, 'year' | 'month' | 'day'> {
+  const parts = getZonedParts(date, timeZone);
+  const shifted = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+/**
+ * Format a UTC offset in minutes as +HHMM
+ */
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+}
+
+/**
+ * Format minutes as an RFC 5545 duration, e.g. PT15M, PT1H30M or P1D
+ */
+function formatDuration(minutes: number): string {
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const rest = minutes % 60;
+
+  let time = '';
+  if (hours) time += `${hours}H`;
+  if (rest || (!days && !hours)) time += `${rest}M`;
+  return `P${days ? `${days}D` : ''}${time ? `T${time}` : ''}`;
+}
+
+/**
+ * VTIMEZONE definition for a zone, with yearly rules derived from its transitions in the given year
+ */
+function buildTimeZone(timeZone: string, year: number): string[] {
+  const transitions: Array<{ at: number; from: number; to: number }> = [];
+  const start = Date.UTC(year, 0, 1);
+  const end = Date.UTC(year + 1, 0, 1);
+
+  // DST changes are months apart, so checking once a day finds each one; then narrow it to the minute
+  for (let time = start; time < end; time += DAY) {
+    const from = getTimeZoneOffset(new Date(time), timeZone);
+    const to = getTimeZoneOffset(new Date(time + DAY), timeZone);
+    if (from === to) continue;
+
+    let low = time;
+    let high = time + DAY;
+    while (high - low > MINUTE) {
+      const middle = low + Math.floor((high - low) / 2 / MINUTE) * MINUTE;
+      if (getTimeZoneOffset(new Date(middle), timeZone) === from) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    transitions.push({ at: high, from, to });
+  }
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+
+  if (transitions.length === 0) {
+    const offset = formatOffset(getTimeZoneOffset(new Date(start), timeZone));
+    lines.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD');
+  }
+
+  transitions.forEach(({ at, from, to }) => {
+    // Observances start at the local time before the change
+    const onset = new Date(at + from * MINUTE);
+    const day = onset.getUTCDate();
+    const daysInMonth = new Date(Date.UTC(onset.getUTCFullYear(), onset.getUTCMonth() + 1, 0)).getUTCDate();
+    const week = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+    const weekday = CALENDAR_WEEKDAYS[(onset.getUTCDay() + 6) % 7];
+    const kind = to > from ? 'DAYLIGHT' : 'STANDARD';
+
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatDateTime(getZonedParts(onset, 'UTC'))}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${onset.getUTCMonth() + 1};BYDAY=${week}${weekday}`,
+      `TZOFFSETFROM:${formatOffset(from)}`,
+      `TZOFFSETTO:${formatOffset(to)}`,
+      `END:${kind}`
+    );
+  });
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/**
+ * A calendar user address with its common name, e.g. `;CN="Jane Doe":mailto:jane@example.com`
+ */
+function formatPerson(person: CalendarPerson, params: string[] = []): string {
+  // Parameter values can't contain double quotes
+  const name = person.name?.trim() ? [`CN="${person.name.trim().replace(/"/g, "'")}"`] : [];
+  return `${[...name, ...params].map(param => `;${param}`).join('')}:mailto:${person.email.trim()}`;
+}
+
+function buildAlarm(alarm: CalendarAlarm, title: string): string[] {
+  return [
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeVCardText(alarm.description?.trim() || title)}`,
+    `TRIGGER:${alarm.minutesBefore > 0 ? '-' : ''}${formatDuration(alarm.minutesBefore)}`,
+    'END:VALARM'
+  ];
+}
+
+/**
+ * Generate a unique id for a new event
+ */
+export function createEventUid(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}@qr-super-generator`;
+}
+
+/**
+ * Build an iCalendar payload for an event
+ */
+export function buildCalendarPayload(event: CalendarEvent, options: CalendarPayloadOptions = {}): string {
+  const { compact = false, now = new Date() } = options;
+  // Compact codes write every time in UTC, so they need no time zone definition
+  const timeZone = event.timeZone && event.timeZone !== 'UTC' && !compact ? event.timeZone : undefined;
+  const lines: string[] = [];
+
+  if (!compact) {
+    lines.push('BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODUCT_ID}`);
+    if (timeZone && !event.allDay) lines.push(...buildTimeZone(timeZone, getZonedParts(event.start, timeZone).year));
+  }
+
+  lines.push('BEGIN:VEVENT');
+  if (!compact) {
+    lines.push(`UID:${event.uid || createEventUid()}`, `DTSTAMP:${formatUTC(now)}`);
+  }
+
+  if (event.allDay) {
+    // All-day events are dates in the event's zone; DTEND is the day after the last day
+    const zone = event.timeZone || 'UTC';
+    lines.push(`DTSTART;VALUE=DATE:${formatDate(shiftDate(event.start, zone, 0))}`);
+    lines.push(`DTEND;VALUE=DATE:${formatDate(shiftDate(event.end, zone, 1))}`);
+  } else if (timeZone) {
+    lines.push(`DTSTART;TZID=${timeZone}:${formatDateTime(getZonedParts(event.start, timeZone))}`);
+    lines.push(`DTEND;TZID=${timeZone}:${formatDateTime(getZonedParts(event.end, timeZone))}`);
+  } else {
+    lines.push(`DTSTART:${formatUTC(event.start)}`, `DTEND:${formatUTC(event.end)}`);
+  }
+
+  if (event.recurrence) {
+    const { frequency, interval, count, until, byDay } = event.recurrence;
+    const rule = [`FREQ=${frequency}`];
+    if (interval && interval > 1) rule.push(`INTERVAL=${interval}`);
+    if (count) {
+      rule.push(`COUNT=${count}`);
+    } else if (until) {
+      // UNTIL has the same value type as DTSTART, and is in UTC for zoned times
+      rule.push(`UNTIL=${event.allDay ? formatDate(shiftDate(until, event.timeZone || 'UTC', 0)) : formatUTC(until)}`);
+    }
+    if (byDay && byDay.length > 0) rule.push(`BYDAY=${byDay.join(',')}`);
+    lines.push(`RRULE:${rule.join(';')}`);
+  }
+
+  lines.push(`SUMMARY:${escapeVCardText(event.title.trim())}`);
+  if (event.location?.trim()) lines.push(`LOCATION:${escapeVCardText(event.location.trim())}`);
+  if (event.description?.trim()) lines.push(`DESCRIPTION:${escapeVCardText(event.description.trim())}`);
+  // URIs are not text values, so they are not escaped
+  if (event.url?.trim()) lines.push(`URL:${event.url.trim()}`);
+  if (event.organizer?.email.trim()) lines.push(`ORGANIZER${formatPerson(event.organizer)}`);
+
+  event.attendees?.filter(attendee => attendee.email.trim()).forEach(attendee => {
+    const role = attendee.optional ? 'OPT-PARTICIPANT' : 'REQ-PARTICIPANT';
+    lines.push(`ATTENDEE${formatPerson(attendee, [`ROLE=${role}`, 'RSVP=TRUE'])}`);
+  });
+
+  event.alarms?.forEach(alarm => lines.push(...buildAlarm(alarm, event.title.trim())));
+
+  lines.push('END:VEVENT');
+
+  if (compact) {
+    return lines.join('\n');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldVCardLine).join(CRLF);
+}
+
+/**
+ * Check that an event can be written as a valid iCalendar event
+ */
+export function validateCalendarEvent(event: CalendarEvent): { isValid: boolean; error?: string } {
+  if (!event.title.trim()) {
+    return { isValid: false, error: 'Event title is required' };
+  }
+
+  if (Number.isNaN(event.start.getTime()) || Number.isNaN(event.end.getTime())) {
+    return { isValid: false, error: 'Start and end dates are required' };
+  }
+
+  if (event.allDay ? event.end < event.start : event.end <= event.start) {
+    return { isValid: false, error: 'The event must end after it starts' };
+  }
+
+  if (event.timeZone && !isValidTimeZone(event.timeZone)) {
+    return { isValid: false, error: `Unknown time zone: ${event.timeZone}` };
+  }
+
+  if (event.recurrence) {
+    const { interval, count, until } = event.recurrence;
+    if (interval !== undefined && (!Number.isInteger(interval) || interval < 1)) {
+      return { isValid: false, error: 'Repeat interval must be a whole number of at least 1' };
+    }
+    if (count !== undefined && (!Number.isInteger(count) || count < 1)) {
+      return { isValid: false, error: 'Number of occurrences must be at least 1' };
+    }
+    if (until && until < event.start) {
+      return { isValid: false, error: 'The repeat end date is before the event starts' };
+    }
+  }
+
+  const people = [...(event.organizer ? [event.organizer] : []), ...(event.attendees || [])];
+  const badEmail = people.find(person => person.email.trim() && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(person.email.trim()));
+  if (badEmail) {
+    return { isValid: false, error: `"${badEmail.email}" is not a valid email address` };
+  }
+
+  if (event.alarms?.some(alarm => !Number.isInteger(alarm.minutesBefore) || alarm.minutesBefore < 0)) {
+    return { isValid: false, error: 'Reminders must be zero or more minutes before the event' };
+  }
+
+  return { isValid: true };
+}
@@ -287,6 +287,38 @@ export async function updateTab(tabId: number, url: string): Promise<Tab> {
   });
 }
 
+/**
+ * Capture the visible area of the active tab as a PNG data URL
+ */
+export async function captureVisibleTab(windowId?: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (!chrome?.tabs) {
+      reject(new Error('Chrome tabs API not available'));
+      return;
+    }
+
+    const callback = (dataUrl: string) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+        return;
+      }
+
+      if (!dataUrl) {
+        reject(new Error('Failed to capture tab'));
+        return;
+      }
+
+      resolve(dataUrl);
+    };
+
+    if (windowId !== undefined) {
+      chrome.tabs.captureVisibleTab(windowId, { format: 'png' }, callback);
+    } else {
+      chrome.tabs.captureVisibleTab({ format: 'png' }, callback);
+    }
+  });
+}
+
 /**
  * Check if Chrome extension APIs are available
  */
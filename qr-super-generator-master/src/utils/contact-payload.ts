@@ -0,0 +1,211 @@
+/**
+ * Contact payloads for QR Super Generator
+ * Builds vCard 3.0 (RFC 2426), vCard 4.0 (RFC 6350) and DoCoMo MECARD payloads from contact details
+ */
+
+import type { ContactEmail, ContactFormat, ContactInfo, ContactPhone } from '../types';
+
+export const CONTACT_FORMAT_LABELS: Record<ContactFormat, string> = {
+  vcard3: 'vCard 3.0',
+  vcard4: 'vCard 4.0',
+  mecard: 'MECARD'
+};
+
+// vCard lines longer than this many octets are folded onto continuation lines
+const MAX_LINE_OCTETS = 75;
+const CRLF = '\r\n';
+
+/**
+ * Escape a vCard text value
+ */
+export function escapeVCardText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Escape a MECARD value
+ */
+function escapeMeCardText(value: string): string {
+  return value.replace(/([\\;:,])/g, '\\$1').replace(/\r\n|\r|\n/g, ' ');
+}
+
+/**
+ * Fold a content line into chunks of at most 75 octets, without splitting a UTF-8 character.
+ * Continuation lines start with a space.
+ */
+export function foldVCardLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // The leading space of a continuation line counts towards its length
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+
+  return chunks.join(`${CRLF} `);
+}
+
+/**
+ * The name shown for a contact: the full name, or the name parts, or the organization
+ */
+export function getContactDisplayName(contact: ContactInfo): string {
+  const fullName = contact.fullName?.trim();
+  if (fullName) return fullName;
+
+  const parts = [contact.firstName, contact.lastName].map(part => part?.trim()).filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : contact.organization?.trim() || '';
+}
+
+/**
+ * All non-empty phone numbers, including the single `phone` field
+ */
+function getPhones(contact: ContactInfo): ContactPhone[] {
+  const phones = [...(contact.phone ? [{ number: contact.phone }] : []), ...(contact.phones || [])];
+  return phones.filter(phone => phone.number.trim()).map(phone => ({ ...phone, number: phone.number.trim() }));
+}
+
+/**
+ * All non-empty email addresses, including the single `email` field
+ */
+function getEmails(contact: ContactInfo): ContactEmail[] {
+  const emails = [...(contact.email ? [{ address: contact.email }] : []), ...(contact.emails || [])];
+  return emails.filter(email => email.address.trim()).map(email => ({ ...email, address: email.address.trim() }));
+}
+
+function hasAddress(contact: ContactInfo): boolean {
+  return Object.values(contact.address || {}).some(value => value?.trim());
+}
+
+/**
+ * Address components in vCard order: PO box, extended address, street, city, region, postal code, country
+ */
+function getAddressParts(contact: ContactInfo): string[] {
+  const address = contact.address || {};
+  return ['', '', address.street, address.city, address.state, address.zipCode, address.country]
+    .map(part => part?.trim() || '');
+}
+
+/**
+ * Build a vCard 3.0 or 4.0 payload
+ */
+export function buildVCard(contact: ContactInfo, version: '3.0' | '4.0' = '3.0'): string {
+  const isV4 = version === '4.0';
+  const lines = ['BEGIN:VCARD', `VERSION:${version}`];
+  const text = (value?: string) => escapeVCardText(value?.trim() || '');
+
+  // N is required in 3.0 and recommended in 4.0: family; given; additional; prefixes; suffixes
+  lines.push(`N:${[text(contact.lastName), text(contact.firstName), '', '', ''].join(';')}`);
+  lines.push(`FN:${text(getContactDisplayName(contact))}`);
+
+  if (contact.organization?.trim()) lines.push(`ORG:${text(contact.organization)}`);
+  if (contact.jobTitle?.trim()) lines.push(`TITLE:${text(contact.jobTitle)}`);
+
+  getPhones(contact).forEach(phone => {
+    if (isV4) {
+      // 4.0 prefers tel: URIs, which can't contain spaces
+      const type = phone.type ? `;TYPE=${phone.type === 'cell' || phone.type === 'fax' ? phone.type : `${phone.type},voice`}` : '';
+      lines.push(`TEL;VALUE=uri${type}:tel:${phone.number.replace(/\s+/g, '-')}`);
+    } else {
+      const type = phone.type ? `;TYPE=${phone.type === 'cell' || phone.type === 'fax' ? phone.type.toUpperCase() : `${phone.type.toUpperCase()},VOICE`}` : '';
+      lines.push(`TEL${type}:${text(phone.number)}`);
+    }
+  });
+
+  getEmails(contact).forEach(email => {
+    const type = isV4
+      ? email.type ? `;TYPE=${email.type}` : ''
+      : `;TYPE=INTERNET${email.type ? `,${email.type.toUpperCase()}` : ''}`;
+    lines.push(`EMAIL${type}:${text(email.address)}`);
+  });
+
+  if (hasAddress(contact)) {
+    lines.push(`ADR;TYPE=${isV4 ? 'work' : 'WORK'}:${getAddressParts(contact).map(part => escapeVCardText(part)).join(';')}`);
+  }
+
+  // URIs are not text values, so they are not escaped
+  if (contact.website?.trim()) lines.push(`URL:${contact.website.trim()}`);
+  if (contact.photoUrl?.trim()) lines.push(`PHOTO${isV4 ? '' : ';VALUE=uri'}:${contact.photoUrl.trim()}`);
+  if (contact.note?.trim()) lines.push(`NOTE:${text(contact.note)}`);
+
+  lines.push('END:VCARD');
+  return lines.map(foldVCardLine).join(CRLF);
+}
+
+/**
+ * Build a compact DoCoMo MECARD payload. Job title, photo and phone/email types are not part of the format.
+ */
+export function buildMeCard(contact: ContactInfo): string {
+  const fields: string[] = [];
+  const lastName = contact.lastName?.trim();
+  const firstName = contact.firstName?.trim();
+
+  // N is "Last,First"; without name parts the display name is used as is
+  const name = lastName || firstName
+    ? [lastName, firstName].filter(Boolean).map(part => escapeMeCardText(part!)).join(',')
+    : escapeMeCardText(getContactDisplayName(contact));
+  fields.push(`N:${name}`);
+
+  getPhones(contact).forEach(phone => fields.push(`TEL:${escapeMeCardText(phone.number)}`));
+  getEmails(contact).forEach(email => fields.push(`EMAIL:${escapeMeCardText(email.address)}`));
+
+  if (contact.organization?.trim()) fields.push(`ORG:${escapeMeCardText(contact.organization.trim())}`);
+  if (hasAddress(contact)) fields.push(`ADR:${getAddressParts(contact).map(escapeMeCardText).join(',')}`);
+  if (contact.website?.trim()) fields.push(`URL:${escapeMeCardText(contact.website.trim())}`);
+  if (contact.note?.trim()) fields.push(`NOTE:${escapeMeCardText(contact.note.trim())}`);
+
+  return `MECARD:${fields.map(field => `${field};`).join('')};`;
+}
+
+/**
+ * Build a contact payload in the chosen format
+ */
+export function buildContactPayload(contact: ContactInfo, format: ContactFormat = 'vcard3'): string {
+  switch (format) {
+    case 'vcard4':
+      return buildVCard(contact, '4.0');
+    case 'mecard':
+      return buildMeCard(contact);
+    default:
+      return buildVCard(contact, '3.0');
+  }
+}
+
+/**
+ * Check that a contact has a name and well-formed addresses
+ */
+export function validateContact(contact: ContactInfo): { isValid: boolean; error?: string } {
+  if (!getContactDisplayName(contact)) {
+    return { isValid: false, error: 'Enter a name or an organization' };
+  }
+
+  const badEmail = getEmails(contact).find(email => !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.address));
+  if (badEmail) {
+    return { isValid: false, error: `"${badEmail.address}" is not a valid email address` };
+  }
+
+  const badPhone = getPhones(contact).find(phone => !/^\+?[0-9\s().-]{3,}$/.test(phone.number));
+  if (badPhone) {
+    return { isValid: false, error: `"${badPhone.number}" is not a valid phone number` };
+  }
+
+  if (contact.photoUrl?.trim() && !/^https?:\/\//i.test(contact.photoUrl.trim())) {
+    return { isValid: false, error: 'Photo must be an http or https link' };
+  }
+
+  return { isValid: true };
+}
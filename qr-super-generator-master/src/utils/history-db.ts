@@ -0,0 +1,635 @@
+/**
+ * IndexedDB history repository for QR Super Generator
+ * Stores generated QR codes (as recipes, or images as Blobs), with paging and indexed lookups
+ */
+
+import type { QRCodeData, TrashedQRCodeData } from '../types';
+
+const DB_NAME = 'qr-super-generator';
+const DB_VERSION = 5;
+const HISTORY_STORE = 'history';
+// Logos referenced by recipes, stored once per distinct image
+const ASSET_STORE = 'assets';
+// Deleted entries, kept apart so history queries never see them
+const TRASH_STORE = 'trash';
+// Assets saved this recently are never cleaned up, since the recipe using them may not be stored yet
+const ASSET_GRACE_PERIOD_MS = 10 * 60 * 1000;
+
+// What's stored: entries with a recipe keep no image; older ones keep it as a Blob
+interface HistoryRecord extends Omit<QRCodeData, 'dataUrl'> {
+  image?: Blob;
+}
+
+interface TrashRecord extends HistoryRecord {
+  deletedAt: string;
+}
+
+interface AssetRecord {
+  id: string;
+  data: Blob;
+  createdAt: string;
+  // Last time saveAsset handed out this id; older records only have createdAt
+  savedAt?: string;
+}
+
+// Indexes that group entries by a single value
+type GroupIndex = 'type' | 'tags' | 'collectionId';
+
+export interface HistoryQuery {
+  offset?: number;
+  limit?: number;
+  type?: QRCodeData['type'];
+  tag?: string;
+  // A collection id, or null for entries that are not in any collection
+  collectionId?: string | null;
+  favorite?: boolean;
+  order?: 'newest' | 'oldest';
+  // Extra filter applied to each entry (without its image) before paging
+  filter?: (item: Omit<QRCodeData, 'dataUrl'>) => boolean;
+}
+
+export interface HistoryPage {
+  items: QRCodeData[];
+  total: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Bumped on every write to history from this context, so caches built on history know to refresh
+let historyVersion = 0;
+
+/**
+ * Open (and on first use, create) the history database
+ */
+function openHistoryDB(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+        store.createIndex('type', 'type');
+        store.createIndex('tags', 'tags', { multiEntry: true });
+      }
+      // Added in version 3; entries without a revision link are left out of the index
+      const historyStore = request.transaction!.objectStore(HISTORY_STORE);
+      if (!historyStore.indexNames.contains('revisionRoot')) {
+        historyStore.createIndex('revisionRoot', 'revision.rootId');
+      }
+      if (!historyStore.indexNames.contains('collectionId')) {
+        historyStore.createIndex('collectionId', 'collectionId');
+      }
+      if (!db.objectStoreNames.contains(ASSET_STORE)) {
+        db.createObjectStore(ASSET_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(TRASH_STORE)) {
+        const trash = db.createObjectStore(TRASH_STORE, { keyPath: 'id' });
+        trash.createIndex('deletedAt', 'deletedAt');
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version of the extension upgrade the schema
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => reject(request.error || new Error('Failed to open history database'));
+  });
+
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Wrap an IDBRequest in a Promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run work inside a transaction over several stores and resolve once it has committed
+ */
+async function withTransaction<T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => T | Promise<T>
+): Promise<T> {
+  const db = await openHistoryDB();
+  const transaction = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('History transaction aborted'));
+  });
+
+  const result = await work(transaction);
+  await done;
+  if (mode === 'readwrite' && storeNames.includes(HISTORY_STORE)) {
+    historyVersion++;
+  }
+  return result;
+}
+
+/**
+ * Run work inside a single-store transaction and resolve once it has committed
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => T | Promise<T>,
+  storeName = HISTORY_STORE
+): Promise<T> {
+  return withTransaction([storeName], mode, transaction => work(transaction.objectStore(storeName)));
+}
+
+/**
+ * Convert a data URL into a Blob
+ */
+async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  const response = await fetch(dataUrl);
+  return response.blob();
+}
+
+/**
+ * Convert a Blob back into a data URL
+ */
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Turn a history entry into a record for storage; entries with a recipe drop their image
+ */
+async function toRecord(item: QRCodeData): Promise<HistoryRecord> {
+  const { dataUrl, ...rest } = item;
+  return item.recipe ? rest : { ...rest, image: await dataUrlToBlob(dataUrl) };
+}
+
+/**
+ * Turn a stored record back into a history entry.
+ * Recipe-only entries come back with an empty dataUrl for the caller to render.
+ */
+async function fromRecord(record: HistoryRecord): Promise<QRCodeData> {
+  const { image, ...rest } = record;
+  return { ...rest, dataUrl: image ? await blobToDataUrl(image) : '' };
+}
+
+/**
+ * Save history entries (replacing any with the same id)
+ */
+export async function putHistoryItems(items: QRCodeData[]): Promise<void> {
+  // Blob conversion is async, so it has to finish before the transaction opens
+  const records = await Promise.all(items.map(toRecord));
+  await withStore('readwrite', store => {
+    records.forEach(record => store.put(record));
+  });
+}
+
+/**
+ * Get a single history entry by id
+ */
+export async function getHistoryItem(id: number): Promise<QRCodeData | null> {
+  const record = await withStore('readonly', store => promisifyRequest<HistoryRecord | undefined>(store.get(id)));
+  return record ? fromRecord(record) : null;
+}
+
+/**
+ * Combine the filters of a query into one check on an entry (without its image)
+ */
+export function createHistoryFilter(query: HistoryQuery): ((item: Omit<QRCodeData, 'dataUrl'>) => boolean) | undefined {
+  const { type, tag, collectionId, favorite } = query;
+  const checks: Array<(item: Omit<QRCodeData, 'dataUrl'>) => boolean> = [];
+
+  if (type) checks.push(item => item.type === type);
+  if (tag) checks.push(item => !!item.tags?.includes(tag));
+  if (collectionId !== undefined) checks.push(item => (item.collectionId ?? null) === collectionId);
+  if (favorite !== undefined) checks.push(item => !!item.favorite === favorite);
+  if (query.filter) checks.push(query.filter);
+
+  return checks.length > 0 ? item => checks.every(check => check(item)) : undefined;
+}
+
+/**
+ * Get a page of history, newest first by default.
+ * The most selective filter walks its index (entries there keep creation order)
+ * and every filter is checked on the entries it visits.
+ */
+export async function getHistoryPage(query: HistoryQuery = {}): Promise<HistoryPage> {
+  const { offset = 0, limit = 50, type, tag, collectionId, order = 'newest' } = query;
+  const direction: IDBCursorDirection = order === 'newest' ? 'prev' : 'next';
+
+  const [indexName, indexKey]: [GroupIndex | 'timestamp', string | null] = collectionId
+    ? ['collectionId', collectionId]
+    : tag
+      ? ['tags', tag]
+      : type
+        ? ['type', type]
+        : ['timestamp', null];
+
+  const filter = createHistoryFilter(query);
+
+  const records = await withStore('readonly', store => new Promise<{ page: HistoryRecord[]; total: number }>((resolve, reject) => {
+    const source = store.index(indexName).openCursor(indexKey === null ? null : IDBKeyRange.only(indexKey), direction);
+
+    const page: HistoryRecord[] = [];
+    let total = 0;
+
+    source.onsuccess = () => {
+      const cursor = source.result;
+      if (!cursor) {
+        resolve({ page, total });
+        return;
+      }
+
+      const record = cursor.value as HistoryRecord;
+      if (!filter || filter(record)) {
+        if (total >= offset && page.length < limit) {
+          page.push(record);
+        }
+        total++;
+      }
+      cursor.continue();
+    };
+    source.onerror = () => reject(source.error);
+  }));
+
+  return {
+    items: await Promise.all(records.page.map(fromRecord)),
+    total: records.total,
+    offset,
+    hasMore: offset + records.page.length < records.total
+  };
+}
+
+/**
+ * Get history entries without their images (optionally only those created after
+ * a point in time), newest first
+ */
+export async function getHistoryEntries(since?: string): Promise<Array<Omit<QRCodeData, 'dataUrl'>>> {
+  return withStore('readonly', store => {
+    const range = since ? IDBKeyRange.lowerBound(since, true) : null;
+    return promisifyRequest<HistoryRecord[]>(store.index('timestamp').getAll(range));
+  }).then(records => records.map(({ image, ...rest }) => rest).reverse());
+}
+
+/**
+ * Get every revision saved from a root entry (not the root itself), oldest first
+ */
+export async function getHistoryRevisions(rootId: number): Promise<QRCodeData[]> {
+  const records = await withStore('readonly', store =>
+    promisifyRequest<HistoryRecord[]>(store.index('revisionRoot').getAll(IDBKeyRange.only(rootId)))
+  );
+  const items = await Promise.all(records.map(fromRecord));
+  return items.sort((a, b) => (a.revision?.number || 0) - (b.revision?.number || 0));
+}
+
+/**
+ * Get the ids of root entries that have at least one revision
+ */
+export async function getRevisedRootIds(): Promise<Set<number>> {
+  return withStore('readonly', store => new Promise<Set<number>>((resolve, reject) => {
+    const cursorRequest = store.index('revisionRoot').openKeyCursor(null, 'nextunique');
+    const ids = new Set<number>();
+
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        resolve(ids);
+        return;
+      }
+      ids.add(cursor.key as number);
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  }));
+}
+
+/**
+ * Get the ids of every entry filed under a value of a grouping index
+ */
+export async function getHistoryIdsBy(indexName: GroupIndex, key: string): Promise<number[]> {
+  const keys = await withStore('readonly', store => promisifyRequest(store.index(indexName).getAllKeys(IDBKeyRange.only(key))));
+  return keys as number[];
+}
+
+/**
+ * Count entries for each value of a grouping index (e.g. per tag or collection)
+ */
+export async function countHistoryBy(indexName: GroupIndex): Promise<Map<string, number>> {
+  return withStore('readonly', store => new Promise<Map<string, number>>((resolve, reject) => {
+    const cursorRequest = store.index(indexName).openKeyCursor();
+    const counts = new Map<string, number>();
+
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        resolve(counts);
+        return;
+      }
+      const key = String(cursor.key);
+      counts.set(key, (counts.get(key) || 0) + 1);
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  }));
+}
+
+/**
+ * Change fields of existing entries in one transaction, leaving their images untouched.
+ * Returns how many entries were updated.
+ */
+export async function updateHistoryItems(
+  ids: number[],
+  update: (item: Omit<QRCodeData, 'dataUrl'>) => Partial<Omit<QRCodeData, 'id' | 'dataUrl'>>
+): Promise<number> {
+  return withStore('readwrite', async store => {
+    const records = await Promise.all(ids.map(id => promisifyRequest<HistoryRecord | undefined>(store.get(id))));
+    let updated = 0;
+
+    records.forEach(record => {
+      if (!record) return;
+      const { image, ...item } = record;
+      const next: HistoryRecord = { ...record, ...update(item) };
+      // Cleared fields are removed so the entry drops out of their index
+      (Object.keys(next) as Array<keyof HistoryRecord>).forEach(key => {
+        if (next[key] === undefined) delete next[key];
+      });
+      store.put(next);
+      updated++;
+    });
+
+    return updated;
+  });
+}
+
+/**
+ * Get a value that changes whenever history changes, whether written here or in
+ * another extension context (which changes the count or the newest entry)
+ */
+export async function getHistorySignature(): Promise<string> {
+  const [count, newest] = await withStore('readonly', store => Promise.all([
+    promisifyRequest(store.count()),
+    promisifyRequest(store.index('timestamp').openKeyCursor(null, 'prev')).then(cursor => cursor?.key)
+  ]));
+  return `${historyVersion}:${count}:${newest ?? ''}`;
+}
+
+/**
+ * Count stored history entries
+ */
+export async function countHistory(): Promise<number> {
+  return withStore('readonly', store => promisifyRequest(store.count()));
+}
+
+/**
+ * Delete history entries by id
+ */
+export async function deleteHistoryItems(ids: number[]): Promise<void> {
+  await withStore('readwrite', store => {
+    ids.forEach(id => store.delete(id));
+  });
+}
+
+/**
+ * Hash data into a stable asset id, so the same logo is only stored once
+ */
+async function hashAsset(dataUrl: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(dataUrl));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Store an image asset (e.g. a logo) and return its id
+ */
+export async function saveAsset(dataUrl: string): Promise<string> {
+  const id = await hashAsset(dataUrl);
+  // Reusing a stored asset refreshes savedAt, so clean-up keeps it until the new entry is stored
+  const existing = await withStore('readwrite', async store => {
+    const record = await promisifyRequest<AssetRecord | undefined>(store.get(id));
+    if (record) store.put({ ...record, savedAt: new Date().toISOString() });
+    return record;
+  }, ASSET_STORE);
+  if (existing) return id;
+
+  const data = await dataUrlToBlob(dataUrl);
+  const now = new Date().toISOString();
+  await withStore('readwrite', store => {
+    store.put({ id, data, createdAt: now, savedAt: now } as AssetRecord);
+  }, ASSET_STORE);
+  return id;
+}
+
+/**
+ * Get a stored asset as a data URL
+ */
+export async function getAsset(id: string): Promise<string | null> {
+  const record = await withStore('readonly', store => promisifyRequest<AssetRecord | undefined>(store.get(id)), ASSET_STORE);
+  return record ? blobToDataUrl(record.data) : null;
+}
+
+/**
+ * Get every stored asset as a data URL (for backups)
+ */
+export async function getAllAssets(): Promise<Array<{ id: string; dataUrl: string }>> {
+  const records = await withStore('readonly', store => promisifyRequest<AssetRecord[]>(store.getAll()), ASSET_STORE);
+  return Promise.all(records.map(async record => ({ id: record.id, dataUrl: await blobToDataUrl(record.data) })));
+}
+
+/**
+ * Delete assets that no history or trash entry references any more, skipping recently saved ones.
+ * Returns how many assets were removed.
+ */
+export async function removeUnusedAssets(keep: string[] = []): Promise<number> {
+  const records = await withTransaction([HISTORY_STORE, TRASH_STORE], 'readonly', transaction => Promise.all([
+    promisifyRequest<HistoryRecord[]>(transaction.objectStore(HISTORY_STORE).getAll()),
+    promisifyRequest<TrashRecord[]>(transaction.objectStore(TRASH_STORE).getAll())
+  ]));
+  const used = new Set(keep);
+  records.flat().forEach(record => {
+    if (record.recipe?.logo) used.add(record.recipe.logo.assetId);
+  });
+
+  const cutoff = new Date(Date.now() - ASSET_GRACE_PERIOD_MS).toISOString();
+  return withStore('readwrite', async store => {
+    const assets = await promisifyRequest<AssetRecord[]>(store.getAll());
+    const unused = assets.filter(asset => !used.has(asset.id) && (asset.savedAt || asset.createdAt) < cutoff);
+    unused.forEach(asset => store.delete(asset.id));
+    return unused.length;
+  }, ASSET_STORE);
+}
+
+/**
+ * Delete the oldest entries beyond the retention limit.
+ * Returns how many entries were removed.
+ */
+export async function pruneHistory(maxItems: number): Promise<number> {
+  return withStore('readwrite', store => new Promise<number>((resolve, reject) => {
+    const cursorRequest = store.index('timestamp').openKeyCursor(null, 'prev');
+    let kept = 0;
+    let removed = 0;
+
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        resolve(removed);
+        return;
+      }
+
+      if (kept < maxItems) {
+        kept++;
+      } else {
+        store.delete(cursor.primaryKey);
+        removed++;
+      }
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  }));
+}
+
+/**
+ * Move records between history and trash in one transaction.
+ * Returns the ids that were moved.
+ */
+async function moveRecords(
+  from: string,
+  to: string,
+  ids: number[] | 'all',
+  transform: (record: TrashRecord) => HistoryRecord | TrashRecord
+): Promise<number[]> {
+  return withTransaction([from, to], 'readwrite', async transaction => {
+    const source = transaction.objectStore(from);
+    const target = transaction.objectStore(to);
+    const records = ids === 'all'
+      ? await promisifyRequest<TrashRecord[]>(source.getAll())
+      : (await Promise.all(ids.map(id => promisifyRequest<TrashRecord | undefined>(source.get(id)))))
+          .filter((record): record is TrashRecord => !!record);
+
+    records.forEach(record => {
+      target.put(transform(record));
+      source.delete(record.id);
+    });
+    return records.map(record => record.id);
+  });
+}
+
+/**
+ * Move history entries to the trash (every entry with 'all').
+ * Returns the ids that were moved.
+ */
+export async function moveHistoryToTrash(ids: number[] | 'all'): Promise<number[]> {
+  const deletedAt = new Date().toISOString();
+  return moveRecords(HISTORY_STORE, TRASH_STORE, ids, record => ({ ...record, deletedAt }));
+}
+
+/**
+ * Move entries from the trash back into history.
+ * Returns the ids that were restored.
+ */
+export async function restoreTrashItems(ids: number[] | 'all'): Promise<number[]> {
+  return moveRecords(TRASH_STORE, HISTORY_STORE, ids, ({ deletedAt, ...record }) => record);
+}
+
+/**
+ * Get a page of the trash, most recently deleted first
+ */
+export async function getTrashPage(query: Pick<HistoryQuery, 'offset' | 'limit'> = {}): Promise<{
+  items: TrashedQRCodeData[];
+  total: number;
+  offset: number;
+  hasMore: boolean;
+}> {
+  const { offset = 0, limit = 50 } = query;
+  const { records, total } = await withStore('readonly', async store => {
+    const page = new Promise<TrashRecord[]>((resolve, reject) => {
+      const cursorRequest = store.index('deletedAt').openCursor(null, 'prev');
+      const found: TrashRecord[] = [];
+      let skipped = offset === 0;
+
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || found.length >= limit) {
+          resolve(found);
+          return;
+        }
+        if (!skipped) {
+          skipped = true;
+          cursor.advance(offset);
+          return;
+        }
+        found.push(cursor.value as TrashRecord);
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+
+    const [pageRecords, count] = await Promise.all([page, promisifyRequest(store.count())]);
+    return { records: pageRecords, total: count };
+  }, TRASH_STORE);
+
+  const items = await Promise.all(records.map(async record => ({
+    ...(await fromRecord(record)),
+    deletedAt: record.deletedAt
+  })));
+
+  return { items, total, offset, hasMore: offset + items.length < total };
+}
+
+/**
+ * Count entries in the trash
+ */
+export async function countTrash(): Promise<number> {
+  return withStore('readonly', store => promisifyRequest(store.count()), TRASH_STORE);
+}
+
+/**
+ * Permanently delete entries from the trash (every entry with 'all')
+ */
+export async function deleteTrashItems(ids: number[] | 'all'): Promise<void> {
+  await withStore('readwrite', store => {
+    if (ids === 'all') {
+      store.clear();
+    } else {
+      ids.forEach(id => store.delete(id));
+    }
+  }, TRASH_STORE);
+}
+
+/**
+ * Permanently delete entries that were moved to the trash before a point in time.
+ * Returns how many entries were removed.
+ */
+export async function purgeTrash(deletedBefore: string): Promise<number> {
+  return withStore('readwrite', async store => {
+    const ids = await promisifyRequest(store.index('deletedAt').getAllKeys(IDBKeyRange.upperBound(deletedBefore, true)));
+    ids.forEach(id => store.delete(id));
+    return ids.length;
+  }, TRASH_STORE);
+}
@@ -0,0 +1,356 @@
+/**
+ * History search for QR Super Generator
+ * Parses search queries with field qualifiers and matches them against an in-memory token index
+ */
+
+import type { QRCodeData } from '../types';
+
+type HistoryEntry = Omit<QRCodeData, 'dataUrl'>;
+
+export type SizeComparison = '>' | '>=' | '<' | '<=' | '=';
+
+export interface ParsedSearchQuery {
+  // Free-text words and "quoted phrases", all of which must match
+  terms: string[];
+  phrases: string[];
+  type?: string;
+  domain?: string;
+  tags: string[];
+  before?: number;
+  after?: number;
+  size?: { comparison: SizeComparison; value: number };
+  // Qualifiers that could not be understood, e.g. an invalid date
+  errors: string[];
+}
+
+interface SearchDocument {
+  entry: HistoryEntry;
+  title: string;
+  text: string;
+  domain?: string;
+  size?: number;
+  time: number;
+}
+
+export interface HistorySearchIndex {
+  documents: Map<number, SearchDocument>;
+  // Token -> ids of entries whose title contains it
+  titleTokens: Map<string, Set<number>>;
+  // Token -> ids of entries whose content contains it
+  textTokens: Map<string, Set<number>>;
+}
+
+export interface HistorySearchResult {
+  id: number;
+  score: number;
+  // Words in the entry that matched, for highlighting (fuzzy matches included)
+  matches: string[];
+}
+
+const QUALIFIER_PATTERN = /^(type|domain|tag|before|after|size):(.+)$/i;
+const SIZE_PATTERN = /^(>=|<=|>|<|=)?(\d+)(?:px)?$/;
+
+// Scores per kind of match; titles count for more than content
+const SCORE_TITLE_EXACT = 4;
+const SCORE_TITLE_PREFIX = 3;
+const SCORE_TITLE_FUZZY = 2;
+const SCORE_TEXT = 1;
+
+/**
+ * Split text into lower-case word tokens
+ */
+export function tokenize(value: string): string[] {
+  return value.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(token => token.length > 0);
+}
+
+/**
+ * Parse a date qualifier; a bare year or month covers its whole span from the start
+ */
+function parseDate(value: string): number | null {
+  const match = value.match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?$/);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : 0;
+  const day = match[3] ? Number(match[3]) : 1;
+  const date = new Date(year, month, day);
+
+  // Reject dates that roll over, like 2026-02-30
+  return date.getMonth() === month && date.getDate() === day ? date.getTime() : null;
+}
+
+/**
+ * Parse a search query such as `wifi type:wifi tag:office before:2026-01-01 size:>512`
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const query: ParsedSearchQuery = { terms: [], phrases: [], tags: [], errors: [] };
+  const parts = input.match(/"[^"]*"?|\S+/g) || [];
+
+  parts.forEach(part => {
+    if (part.startsWith('"')) {
+      const phrase = part.replace(/"/g, '').trim().toLowerCase();
+      if (phrase) query.phrases.push(phrase);
+      return;
+    }
+
+    const qualifier = part.match(QUALIFIER_PATTERN);
+    if (!qualifier) {
+      query.terms.push(...tokenize(part));
+      return;
+    }
+
+    const key = qualifier[1].toLowerCase();
+    const value = qualifier[2].toLowerCase();
+
+    switch (key) {
+      case 'type':
+        query.type = value;
+        break;
+      case 'domain':
+        query.domain = value.replace(/^www\./, '');
+        break;
+      case 'tag':
+        query.tags.push(value);
+        break;
+      case 'before':
+      case 'after': {
+        const time = parseDate(value);
+        if (time === null) {
+          query.errors.push(`"${part}" needs a date like 2026-01-01`);
+        } else if (key === 'before') {
+          query.before = time;
+        } else {
+          query.after = time;
+        }
+        break;
+      }
+      case 'size': {
+        const size = value.match(SIZE_PATTERN);
+        if (size) {
+          query.size = { comparison: (size[1] as SizeComparison) || '=', value: Number(size[2]) };
+        } else {
+          query.errors.push(`"${part}" needs a size like size:>512`);
+        }
+        break;
+      }
+    }
+  });
+
+  return query;
+}
+
+/**
+ * Whether a query narrows anything down at all
+ */
+export function isEmptySearchQuery(query: ParsedSearchQuery): boolean {
+  return query.terms.length === 0 && query.phrases.length === 0 && query.tags.length === 0 &&
+    !query.type && !query.domain && query.before === undefined && query.after === undefined && !query.size;
+}
+
+/**
+ * Host name of the URL in an entry, without "www."
+ */
+function getDomain(text: string): string | undefined {
+  const value = text.trim();
+  // Links are often saved without a scheme (e.g. "github.com/user")
+  const url = /^[a-z][a-z0-9+.-]*:\/\//i.test(value)
+    ? value
+    : /^[\w-]+(\.[\w-]+)+(\/|$)/.test(value) ? `https://${value}` : null;
+  if (!url) return undefined;
+
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '') || undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+function addTokens(index: Map<string, Set<number>>, tokens: string[], id: number) {
+  tokens.forEach(token => {
+    let ids = index.get(token);
+    if (!ids) {
+      ids = new Set();
+      index.set(token, ids);
+    }
+    ids.add(id);
+  });
+}
+
+/**
+ * Build a search index over history entries
+ */
+export function buildSearchIndex(entries: HistoryEntry[]): HistorySearchIndex {
+  const index: HistorySearchIndex = { documents: new Map(), titleTokens: new Map(), textTokens: new Map() };
+
+  entries.forEach(entry => {
+    index.documents.set(entry.id, {
+      entry,
+      title: entry.title.toLowerCase(),
+      text: entry.text.toLowerCase(),
+      domain: getDomain(entry.text),
+      size: entry.recipe?.render.width ?? entry.metadata?.size,
+      time: new Date(entry.timestamp).getTime()
+    });
+    addTokens(index.titleTokens, tokenize(entry.title), entry.id);
+    addTokens(index.textTokens, tokenize(entry.text), entry.id);
+  });
+
+  return index;
+}
+
+/**
+ * Edit distance between two words (insertions, deletions, substitutions and swaps),
+ * giving up once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(row[j] + 1, next[j - 1] + 1, row[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousRow[j - 2] + 1);
+      }
+      next.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previousRow = row;
+    row = next;
+  }
+
+  return row[b.length];
+}
+
+// Longer words tolerate more typos
+const allowedTypos = (term: string) => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+/**
+ * Score how one free-text term matches each entry, keeping the best match per entry
+ */
+function matchTerm(index: HistorySearchIndex, term: string): Map<number, { score: number; token: string }> {
+  const found = new Map<number, { score: number; token: string }>();
+  const record = (ids: Set<number>, score: number, token: string) => {
+    ids.forEach(id => {
+      const current = found.get(id);
+      if (!current || current.score < score) found.set(id, { score, token });
+    });
+  };
+
+  const typos = allowedTypos(term);
+  index.titleTokens.forEach((ids, token) => {
+    if (token === term) {
+      record(ids, SCORE_TITLE_EXACT, token);
+    } else if (token.startsWith(term)) {
+      record(ids, SCORE_TITLE_PREFIX, token);
+    } else if (typos > 0 && editDistance(term, token.slice(0, term.length + typos), typos) <= typos) {
+      record(ids, SCORE_TITLE_FUZZY, token);
+    }
+  });
+
+  index.textTokens.forEach((ids, token) => {
+    if (token.startsWith(term)) record(ids, SCORE_TEXT, token);
+  });
+
+  return found;
+}
+
+/**
+ * Check the qualifiers of a query against one entry
+ */
+function matchesQualifiers(doc: SearchDocument, query: ParsedSearchQuery): boolean {
+  const { entry } = doc;
+
+  if (query.type && entry.type !== query.type && entry.recipe?.contentType !== query.type) return false;
+  if (query.domain && !(doc.domain === query.domain || doc.domain?.endsWith(`.${query.domain}`))) return false;
+  if (query.tags.some(tag => !entry.tags?.includes(tag))) return false;
+  if (query.before !== undefined && !(doc.time < query.before)) return false;
+  if (query.after !== undefined && !(doc.time >= query.after)) return false;
+  if (query.phrases.some(phrase => !doc.title.includes(phrase) && !doc.text.includes(phrase))) return false;
+
+  if (query.size) {
+    if (doc.size === undefined) return false;
+    const { comparison, value } = query.size;
+    const ok = comparison === '>' ? doc.size > value
+      : comparison === '>=' ? doc.size >= value
+        : comparison === '<' ? doc.size < value
+          : comparison === '<=' ? doc.size <= value
+            : doc.size === value;
+    if (!ok) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Search the index. With free-text terms results are ranked by relevance, then recency;
+ * otherwise they come back newest first.
+ */
+export function searchIndex(
+  index: HistorySearchIndex,
+  query: ParsedSearchQuery,
+  filter?: (entry: HistoryEntry) => boolean
+): HistorySearchResult[] {
+  let candidates: Map<number, HistorySearchResult>;
+
+  if (query.terms.length > 0) {
+    // Every term has to match; start from the first and narrow down
+    const termMatches = query.terms.map(term => matchTerm(index, term));
+    candidates = new Map();
+    termMatches[0].forEach((match, id) => {
+      if (termMatches.every(matches => matches.has(id))) {
+        candidates.set(id, {
+          id,
+          score: termMatches.reduce((total, matches) => total + matches.get(id)!.score, 0),
+          matches: termMatches.map(matches => matches.get(id)!.token)
+        });
+      }
+    });
+  } else {
+    candidates = new Map(Array.from(index.documents.keys(), id => [id, { id, score: 0, matches: [] }]));
+  }
+
+  const results: HistorySearchResult[] = [];
+  candidates.forEach(result => {
+    const doc = index.documents.get(result.id);
+    if (!doc || !matchesQualifiers(doc, query) || (filter && !filter(doc.entry))) return;
+    results.push({ ...result, matches: [...result.matches, ...query.phrases] });
+  });
+
+  return results.sort((a, b) =>
+    b.score - a.score || index.documents.get(b.id)!.time - index.documents.get(a.id)!.time
+  );
+}
+
+/**
+ * Find where matched words occur in a piece of text, as merged [start, end) ranges
+ */
+export function getHighlightRanges(value: string, matches: string[]): Array<[number, number]> {
+  const lower = value.toLowerCase();
+  const ranges: Array<[number, number]> = [];
+
+  matches.filter(match => match.length > 0).forEach(match => {
+    let start = lower.indexOf(match);
+    while (start !== -1) {
+      ranges.push([start, start + match.length]);
+      start = lower.indexOf(match, start + match.length);
+    }
+  });
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  return ranges.reduce<Array<[number, number]>>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+    return merged;
+  }, []);
+}
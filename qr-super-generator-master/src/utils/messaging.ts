@@ -0,0 +1,144 @@
+/**
+ * Typed messaging for QR Super Generator
+ * Request/response contracts between popup, background and content scripts
+ */
+
+import {
+  BackgroundMessageMap,
+  ChromeMessage,
+  ContentMessageMap,
+  ErrorCode,
+  ExtensionError,
+  MessageMap,
+  MessageResponse
+} from '../types';
+import { sendMessageToBackground, sendMessageToTab } from './chrome-apis';
+
+/**
+ * Error thrown by typed senders when the other side answers with an ExtensionError
+ */
+export class MessageError extends Error {
+  readonly code: ErrorCode;
+  readonly context?: ExtensionError['context'];
+
+  constructor(error: ExtensionError) {
+    super(error.message);
+    this.name = 'MessageError';
+    this.code = error.code;
+    this.context = error.context;
+  }
+}
+
+/**
+ * Build a structured error for a message response
+ */
+export function createExtensionError(code: ErrorCode, message: string, action?: string): ExtensionError {
+  return {
+    code,
+    message,
+    timestamp: new Date().toISOString(),
+    context: {
+      action,
+      url: typeof location !== 'undefined' ? location.href : undefined,
+      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined
+    }
+  };
+}
+
+// Actions whose request payload is void can be sent without data
+type SendArgs<M extends MessageMap<M>, A extends keyof M> =
+  M[A]['request'] extends void ? [data?: M[A]['request']] : [data: M[A]['request']];
+
+/**
+ * Unwrap a response, turning failures (or a missing handler) into a MessageError
+ */
+function unwrapResponse<T>(action: string, response: MessageResponse<T> | undefined): T {
+  if (!response) {
+    throw new MessageError(createExtensionError('UNKNOWN_ACTION', `No response for "${action}"`, action));
+  }
+
+  if (!response.success) {
+    throw new MessageError(response.error);
+  }
+
+  return response.data;
+}
+
+/**
+ * Send a typed message to the background service worker
+ */
+export async function sendToBackground<A extends keyof BackgroundMessageMap>(
+  action: A,
+  ...[data]: SendArgs<BackgroundMessageMap, A>
+): Promise<BackgroundMessageMap[A]['response']> {
+  const response = await sendMessageToBackground({ action, data });
+  return unwrapResponse(action, response);
+}
+
+/**
+ * Send a typed message to the content script in a tab
+ */
+export async function sendToTab<A extends keyof ContentMessageMap>(
+  tabId: number,
+  action: A,
+  ...[data]: SendArgs<ContentMessageMap, A>
+): Promise<ContentMessageMap[A]['response']> {
+  const response = await sendMessageToTab(tabId, { action, data });
+  return unwrapResponse(action, response);
+}
+
+export type MessageHandlers<M extends MessageMap<M>> = {
+  [A in keyof M]: (
+    data: M[A]['request'],
+    sender: chrome.runtime.MessageSender
+  ) => M[A]['response'] | Promise<M[A]['response']>;
+};
+
+/**
+ * Create an onMessage listener that dispatches actions to handlers.
+ * Handler errors are reported as ExtensionErrors; an Error carrying a `code`
+ * keeps it, anything else gets the action's fallback code.
+ */
+export function createMessageRouter<M extends MessageMap<M>>(
+  handlers: MessageHandlers<M>,
+  fallbackCodes: Partial<Record<keyof M, ErrorCode>> = {}
+) {
+  return (
+    message: unknown,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response: MessageResponse<unknown>) => void
+  ): boolean => {
+    // Broadcast events (e.g. qr-generated) carry a type, not an action
+    if (!message || typeof message !== 'object' || !('action' in message)) {
+      return false;
+    }
+
+    const { action, data } = message as ChromeMessage<M>;
+    const handler = handlers[action];
+
+    if (!handler) {
+      sendResponse({
+        success: false,
+        error: createExtensionError('UNKNOWN_ACTION', `Unknown action "${String(action)}"`, String(action))
+      });
+      return false;
+    }
+
+    Promise.resolve()
+      .then(() => handler(data, sender))
+      .then(result => sendResponse({ success: true, data: result }))
+      .catch(error => {
+        console.error(`Error handling "${String(action)}":`, error);
+        const code: ErrorCode = error instanceof MessageError
+          ? error.code
+          : fallbackCodes[action] || 'INTERNAL_ERROR';
+        sendResponse({
+          success: false,
+          error: createExtensionError(code, error instanceof Error ? error.message : String(error), String(action))
+        });
+      });
+
+    // Keep the channel open for the async response
+    return true;
+  };
+}
@@ -0,0 +1,324 @@
+/**
+ * Payment payloads for QR Super Generator
+ * Builds EPC069-12 SEPA credit transfer codes ("GiroCode") and validates IBANs, BICs and creditor references
+ */
+
+import type { SEPAPayment } from '../types';
+
+// Field limits from EPC069-12
+const MAX_NAME_LENGTH = 70;
+const MAX_REFERENCE_LENGTH = 35;
+const MAX_REMITTANCE_LENGTH = 140;
+const MAX_INFORMATION_LENGTH = 70;
+const MAX_PAYLOAD_BYTES = 331;
+export const MIN_EPC_AMOUNT = 0.01;
+export const MAX_EPC_AMOUNT = 999999999.99;
+
+// IBAN lengths of the SEPA countries
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AT: 20, BE: 16, BG: 22, CH: 21, CY: 28, CZ: 24, DE: 22, DK: 18, EE: 20,
+  ES: 24, FI: 18, FR: 27, GB: 22, GI: 23, GR: 27, HR: 21, HU: 28, IE: 22, IS: 26,
+  IT: 27, LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MT: 31, NL: 18, NO: 15, PL: 28,
+  PT: 25, RO: 24, SE: 24, SI: 19, SK: 24, SM: 27, VA: 22
+};
+
+// SEPA countries outside the EEA, where the BIC is still required
+const NON_EEA_COUNTRIES = ['AD', 'CH', 'GB', 'GI', 'MC', 'SM', 'VA'];
+
+const BIC_PATTERN = /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/;
+
+/**
+ * Remove spaces and use upper case, as IBANs and references are often written in groups
+ */
+export function normalizeAccountText(value: string): string {
+  return value.replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Format an IBAN in groups of four for display
+ */
+export function formatIBAN(iban: string): string {
+  return normalizeAccountText(iban).replace(/(.{4})(?=.)/g, '$1 ');
+}
+
+/**
+ * ISO 7064 mod 97-10 remainder of an alphanumeric string, with letters counted as 10-35
+ */
+export function mod97(value: string): number {
+  const digits = value.replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+  // Work through the number in chunks so it never exceeds safe integers
+  let remainder = 0;
+  for (let i = 0; i < digits.length; i += 7) {
+    remainder = Number(`${remainder}${digits.slice(i, i + 7)}`) % 97;
+  }
+  return remainder;
+}
+
+/**
+ * Check an IBAN's format, country length and mod-97 check digits
+ */
+export function validateIBAN(value: string): { isValid: boolean; error?: string } {
+  const iban = normalizeAccountText(value);
+
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{1,30}$/.test(iban)) {
+    return { isValid: false, error: 'IBAN must start with a country code and two check digits' };
+  }
+
+  const expectedLength = IBAN_LENGTHS[iban.slice(0, 2)];
+  if (!expectedLength) {
+    return { isValid: false, error: `${iban.slice(0, 2)} is not a SEPA country` };
+  }
+  if (iban.length !== expectedLength) {
+    return { isValid: false, error: `${iban.slice(0, 2)} IBANs have ${expectedLength} characters` };
+  }
+
+  if (mod97(iban.slice(4) + iban.slice(0, 4)) !== 1) {
+    return { isValid: false, error: 'IBAN check digits are wrong; check for typos' };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Check the format of a BIC (SWIFT code)
+ */
+export function isValidBIC(value: string): boolean {
+  return BIC_PATTERN.test(normalizeAccountText(value));
+}
+
+/**
+ * Check an ISO 11649 creditor reference (RF followed by two check digits and up to 21 characters)
+ */
+export function isValidCreditorReference(value: string): boolean {
+  const reference = normalizeAccountText(value);
+  return /^RF\d{2}[A-Z0-9]{1,21}$/.test(reference) && mod97(reference.slice(4) + reference.slice(0, 4)) === 1;
+}
+
+/**
+ * Turn an invoice number into an ISO 11649 creditor reference by adding the RF check digits
+ */
+export function createCreditorReference(base: string): string {
+  const value = normalizeAccountText(base).replace(/[^A-Z0-9]/g, '');
+  if (!value || value.length > 21) {
+    throw new Error('A creditor reference needs 1 to 21 letters or digits');
+  }
+  const check = 98 - mod97(`${value}RF00`);
+  return `RF${String(check).padStart(2, '0')}${value}`;
+}
+
+/**
+ * Whether an amount is within the EPC limits and has at most two decimals
+ */
+function isValidAmount(amount: number): boolean {
+  return amount >= MIN_EPC_AMOUNT && amount <= MAX_EPC_AMOUNT && Math.abs(Math.round(amount * 100) - amount * 100) < 1e-6;
+}
+
+/**
+ * Build an EPC069-12 (version 002, UTF-8) SEPA credit transfer payload
+ */
+export function buildEPCPayload(payment: SEPAPayment): string {
+  const reference = payment.reference ? normalizeAccountText(payment.reference) : '';
+  const lines = [
+    'BCD',
+    '002',
+    '1',
+    'SCT',
+    payment.bic ? normalizeAccountText(payment.bic) : '',
+    payment.name.trim(),
+    normalizeAccountText(payment.iban),
+    payment.amount !== undefined ? `EUR${payment.amount.toFixed(2)}` : '',
+    payment.purpose?.trim().toUpperCase() || '',
+    reference,
+    // Structured and unstructured remittance are mutually exclusive
+    reference ? '' : payment.remittance?.trim() || '',
+    payment.information?.trim() || ''
+  ];
+
+  // Nothing may follow the last populated element
+  while (lines[lines.length - 1] === '') lines.pop();
+  return lines.join('\n');
+}
+
+/**
+ * Check a payment against the EPC069-12 rules
+ */
+export function validateEPCPayment(payment: SEPAPayment): { isValid: boolean; error?: string } {
+  const name = payment.name.trim();
+  if (!name) {
+    return { isValid: false, error: 'Beneficiary name is required' };
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    return { isValid: false, error: `Beneficiary name can be at most ${MAX_NAME_LENGTH} characters` };
+  }
+
+  const iban = validateIBAN(payment.iban);
+  if (!iban.isValid) return iban;
+
+  if (payment.bic) {
+    if (!isValidBIC(payment.bic)) {
+      return { isValid: false, error: 'BIC must be 8 or 11 letters and digits' };
+    }
+  } else if (NON_EEA_COUNTRIES.includes(normalizeAccountText(payment.iban).slice(0, 2))) {
+    return { isValid: false, error: 'A BIC is required for accounts outside the EEA' };
+  }
+
+  if (payment.amount !== undefined && !isValidAmount(payment.amount)) {
+    return { isValid: false, error: `Amount must be between €${MIN_EPC_AMOUNT} and €${MAX_EPC_AMOUNT.toLocaleString()} with at most two decimals` };
+  }
+
+  if (payment.purpose?.trim() && !/^[A-Z0-9]{4}$/i.test(payment.purpose.trim())) {
+    return { isValid: false, error: 'Purpose must be a four-character code, e.g. GDDS' };
+  }
+
+  if (payment.reference && payment.remittance?.trim()) {
+    return { isValid: false, error: 'Use either a creditor reference or remittance text, not both' };
+  }
+  if (payment.reference) {
+    if (normalizeAccountText(payment.reference).length > MAX_REFERENCE_LENGTH || !isValidCreditorReference(payment.reference)) {
+      return { isValid: false, error: 'Reference must be a valid RF creditor reference (ISO 11649)' };
+    }
+  }
+  if ((payment.remittance?.trim().length || 0) > MAX_REMITTANCE_LENGTH) {
+    return { isValid: false, error: `Remittance text can be at most ${MAX_REMITTANCE_LENGTH} characters` };
+  }
+  if ((payment.information?.trim().length || 0) > MAX_INFORMATION_LENGTH) {
+    return { isValid: false, error: `Note to the payer can be at most ${MAX_INFORMATION_LENGTH} characters` };
+  }
+
+  if (new TextEncoder().encode(buildEPCPayload(payment)).length > MAX_PAYLOAD_BYTES) {
+    return { isValid: false, error: `Payment data is longer than ${MAX_PAYLOAD_BYTES} bytes` };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Read an amount such as "1,234.56", "1.234,56" or "€ 12,50"; empty means no amount
+ */
+export function parseAmount(value: string): number | undefined {
+  let text = value.replace(/[\s€]|EUR/gi, '');
+  if (!text) return undefined;
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma > lastDot && /,\d{1,2}$/.test(text)) {
+    // Decimal comma; dots group thousands
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+
+  const amount = Number(text);
+  return Number.isNaN(amount) ? NaN : amount;
+}
+
+/**
+ * Split CSV text into rows, handling quoted fields. The delimiter (comma, semicolon or tab)
+ * is taken from the header line.
+ */
+function parseCSV(text: string): string[][] {
+  const header = text.split(/\r?\n/, 1)[0];
+  const delimiter = [';', '\t', ','].reduce((best, candidate) =>
+    header.split(candidate).length > header.split(best).length ? candidate : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+// Header names accepted for each column, lower case
+const INVOICE_COLUMNS: Record<keyof SEPAPayment | 'invoice', string[]> = {
+  invoice: ['invoice', 'invoice number', 'invoice no', 'number', 'title'],
+  name: ['name', 'beneficiary', 'creditor', 'recipient', 'payee'],
+  iban: ['iban', 'account'],
+  bic: ['bic', 'swift'],
+  amount: ['amount', 'total', 'sum'],
+  purpose: ['purpose'],
+  reference: ['reference', 'creditor reference', 'rf'],
+  remittance: ['remittance', 'remittance text', 'message', 'description', 'text'],
+  information: ['information', 'note']
+};
+
+export interface InvoiceRow {
+  // Row in the file, counting the header as row 1 and skipping blank lines
+  line: number;
+  title: string;
+  payment: SEPAPayment;
+  error?: string;
+}
+
+/**
+ * Read payments from an invoice CSV with a header row. Rows that fail validation carry an error.
+ */
+export function parseInvoiceCSV(text: string): InvoiceRow[] {
+  const [header, ...rows] = parseCSV(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    throw new Error('The CSV file is empty');
+  }
+
+  const names = header.map(cell => cell.trim().toLowerCase());
+  const columnOf = (key: keyof typeof INVOICE_COLUMNS) => names.findIndex(name => INVOICE_COLUMNS[key].includes(name));
+  if (columnOf('iban') === -1 || columnOf('name') === -1) {
+    throw new Error('The CSV needs at least "name" and "iban" columns');
+  }
+
+  return rows.map((cells, index) => {
+    const cell = (key: keyof typeof INVOICE_COLUMNS) => {
+      const column = columnOf(key);
+      return column === -1 ? '' : (cells[column] || '').trim();
+    };
+
+    const amount = parseAmount(cell('amount'));
+    const payment: SEPAPayment = {
+      name: cell('name'),
+      iban: cell('iban'),
+      bic: cell('bic') || undefined,
+      amount,
+      purpose: cell('purpose') || undefined,
+      reference: cell('reference') || undefined,
+      remittance: cell('remittance') || undefined,
+      information: cell('information') || undefined
+    };
+
+    const title = cell('invoice') || payment.reference || payment.remittance || payment.name;
+    const validation = amount !== undefined && Number.isNaN(amount)
+      ? { isValid: false, error: `"${cell('amount')}" is not an amount` }
+      : validateEPCPayment(payment);
+
+    return { line: index + 2, title, payment, error: validation.error };
+  });
+}
@@ -0,0 +1,479 @@
+/**
+ * PDF export for QR Super Generator
+ * Builds print-ready PDF documents entirely in the popup, without any network access
+ */
+
+import { addQRFrame, generateQRCode, generateQRCodeWithLogo, LogoOptions, QROptions } from './qr-generator';
+import { layoutSwissQRBill, SwissBillElement, SwissBillRenderOptions } from './swiss-qr-bill-renderer';
+import type { QRRecipeFrame, SwissQRBill } from '../types';
+
+export type PaperSize = 'A4' | 'Letter';
+export type PDFLayout = 'single' | 'grid';
+
+export interface PDFExportItem {
+  text: string;
+  title?: string;
+  options?: QROptions;
+  logo?: LogoOptions;
+  frame?: QRRecipeFrame;
+}
+
+export interface PDFExportOptions {
+  paperSize?: PaperSize;
+  layout?: PDFLayout;
+  margin?: number; // millimetres
+  dpi?: number;
+  codeSize?: number; // millimetres, defaults depend on layout
+  showCaptions?: boolean;
+  documentTitle?: string;
+}
+
+// Page dimensions in PDF points (1/72 inch)
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> = {
+  A4: { width: 595.28, height: 841.89 },
+  Letter: { width: 612, height: 792 }
+};
+
+const DEFAULT_PDF_OPTIONS: Required<Omit<PDFExportOptions, 'codeSize' | 'documentTitle'>> = {
+  paperSize: 'A4',
+  layout: 'single',
+  margin: 15,
+  dpi: 300,
+  showCaptions: true
+};
+
+const MAX_RASTER_SIZE = 4096;
+const TITLE_FONT_SIZE = 11;
+const TEXT_FONT_SIZE = 8;
+const LINE_GAP = 3;
+const GRID_GAP_MM = 6;
+
+interface PlacedCode {
+  item: PDFExportItem;
+  x: number;
+  y: number;
+  size: number;
+  captionWidth: number;
+}
+
+interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/**
+ * Convert millimetres to PDF points
+ */
+function mmToPt(mm: number): number {
+  return (mm * 72) / 25.4;
+}
+
+/**
+ * Encode a string as Latin-1 bytes; characters outside the range become '?'
+ */
+function toLatin1Bytes(value: string): Uint8Array {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    bytes[i] = code <= 0xff ? code : 0x3f;
+  }
+  return bytes;
+}
+
+/**
+ * Escape text for a PDF literal string
+ */
+function escapePDFText(value: string): string {
+  return value
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+/**
+ * Wrap text into lines that fit the given width.
+ * Helvetica glyphs average roughly half an em, which is close enough for captions.
+ */
+function wrapText(text: string, maxWidth: number, fontSize: number, maxLines: number): string[] {
+  const maxChars = Math.max(1, Math.floor(maxWidth / (fontSize * 0.52)));
+  const lines: string[] = [];
+  let remaining = text.replace(/\s+/g, ' ').trim();
+
+  while (remaining.length > 0 && lines.length < maxLines) {
+    if (remaining.length <= maxChars) {
+      lines.push(remaining);
+      remaining = '';
+      break;
+    }
+
+    // Prefer breaking at a space or URL separator, otherwise hard-break
+    const slice = remaining.slice(0, maxChars);
+    const breakAt = Math.max(slice.lastIndexOf(' '), slice.lastIndexOf('/'), slice.lastIndexOf('-'));
+    const cut = breakAt > maxChars / 2 ? breakAt + 1 : maxChars;
+    lines.push(remaining.slice(0, cut).trim());
+    remaining = remaining.slice(cut).trim();
+  }
+
+  if (remaining.length > 0 && lines.length > 0) {
+    const last = lines[lines.length - 1];
+    lines[lines.length - 1] = `${last.slice(0, Math.max(0, maxChars - 3))}...`;
+  }
+
+  return lines;
+}
+
+/**
+ * Load an image from a data URL
+ */
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load QR image'));
+    image.src = src;
+  });
+}
+
+/**
+ * Render a data URL onto a white canvas and extract the RGB samples
+ */
+async function rasterize(dataUrl: string): Promise<RasterImage> {
+  const image = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) {
+    throw new Error('Canvas context not available');
+  }
+
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0);
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const rgb = new Uint8Array(canvas.width * canvas.height * 3);
+  for (let src = 0, dst = 0; src < data.length; src += 4, dst += 3) {
+    rgb[dst] = data[src];
+    rgb[dst + 1] = data[src + 1];
+    rgb[dst + 2] = data[src + 2];
+  }
+
+  return { width: canvas.width, height: canvas.height, data: rgb };
+}
+
+/**
+ * Compress bytes with zlib/deflate (PDF FlateDecode) using the browser's CompressionStream
+ */
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Minimal PDF object writer that tracks byte offsets for the cross-reference table
+ */
+function createPDFWriter() {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (value: string | Uint8Array) => {
+    const bytes = typeof value === 'string' ? toLatin1Bytes(value) : value;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  const reserve = (): number => {
+    offsets.push(0);
+    return offsets.length;
+  };
+
+  const writeObject = (id: number, body: string) => {
+    offsets[id - 1] = length;
+    write(`${id} 0 obj\n${body}\nendobj\n`);
+  };
+
+  const writeStream = (id: number, dictionary: string, data: Uint8Array) => {
+    offsets[id - 1] = length;
+    write(`${id} 0 obj\n<< ${dictionary} /Length ${data.length} >>\nstream\n`);
+    write(data);
+    write('\nendstream\nendobj\n');
+  };
+
+  const finish = (rootId: number, infoId: number): Blob => {
+    const xrefOffset = length;
+    write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+    offsets.forEach(offset => write(`${offset.toString().padStart(10, '0')} 00000 n \n`));
+    write(`trailer\n<< /Size ${offsets.length + 1} /Root ${rootId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+    return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+  };
+
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+
+  return { reserve, writeObject, writeStream, finish };
+}
+
+/**
+ * Lay out codes on pages according to the chosen layout
+ */
+function layoutPages(
+  items: PDFExportItem[],
+  options: typeof DEFAULT_PDF_OPTIONS & PDFExportOptions
+): PlacedCode[][] {
+  const page = PAPER_SIZES[options.paperSize];
+  const margin = mmToPt(options.margin);
+  const contentWidth = page.width - margin * 2;
+  const contentHeight = page.height - margin * 2;
+  const captionHeight = options.showCaptions
+    ? TITLE_FONT_SIZE + LINE_GAP + (TEXT_FONT_SIZE + LINE_GAP) * 2 + LINE_GAP * 2
+    : 0;
+
+  if (options.layout === 'single') {
+    const size = Math.min(
+      options.codeSize ? mmToPt(options.codeSize) : mmToPt(120),
+      contentWidth,
+      contentHeight - captionHeight
+    );
+
+    if (size <= 0) {
+      throw new Error('Margins leave no room for the QR code');
+    }
+
+    return items.map(item => [{
+      item,
+      x: (page.width - size) / 2,
+      y: page.height - margin - size,
+      size,
+      captionWidth: contentWidth
+    }]);
+  }
+
+  const gap = mmToPt(GRID_GAP_MM);
+  const size = Math.min(options.codeSize ? mmToPt(options.codeSize) : mmToPt(50), contentWidth);
+  const cellHeight = size + captionHeight;
+  const columns = Math.max(1, Math.floor((contentWidth + gap) / (size + gap)));
+  const rows = Math.floor((contentHeight + gap) / (cellHeight + gap));
+
+  if (rows < 1) {
+    throw new Error('Margins leave no room for the QR code');
+  }
+
+  const perPage = columns * rows;
+  const gridWidth = columns * size + (columns - 1) * gap;
+  const offsetX = margin + (contentWidth - gridWidth) / 2;
+  const pages: PlacedCode[][] = [];
+
+  items.forEach((item, index) => {
+    const slot = index % perPage;
+    if (slot === 0) {
+      pages.push([]);
+    }
+
+    const column = slot % columns;
+    const row = Math.floor(slot / columns);
+    pages[pages.length - 1].push({
+      item,
+      x: offsetX + column * (size + gap),
+      y: page.height - margin - row * (cellHeight + gap) - size,
+      size,
+      captionWidth: size
+    });
+  });
+
+  return pages;
+}
+
+/**
+ * Build the content stream for one placed code and its caption
+ */
+function drawPlacedCode(placed: PlacedCode, imageName: string, showCaptions: boolean, aspect = 1): string {
+  // Framed codes are taller than wide; they keep their proportions and are centered in the square slot
+  const width = placed.size * Math.min(1, aspect);
+  const height = placed.size * Math.min(1, 1 / aspect);
+  const x = placed.x + (placed.size - width) / 2;
+  const ops = [`q ${width.toFixed(2)} 0 0 ${height.toFixed(2)} ${x.toFixed(2)} ${placed.y.toFixed(2)} cm /${imageName} Do Q`];
+
+  if (!showCaptions) {
+    return ops.join('\n');
+  }
+
+  const lines: Array<{ text: string; font: string; size: number; gray: number }> = [];
+  const title = placed.item.title?.trim();
+  if (title) {
+    wrapText(title, placed.captionWidth, TITLE_FONT_SIZE, 1)
+      .forEach(text => lines.push({ text, font: 'F2', size: TITLE_FONT_SIZE, gray: 0 }));
+  }
+  wrapText(placed.item.text, placed.captionWidth, TEXT_FONT_SIZE, title ? 2 : 3)
+    .forEach(text => lines.push({ text, font: 'F1', size: TEXT_FONT_SIZE, gray: 0.35 }));
+
+  let baseline = placed.y - LINE_GAP * 2;
+  for (const line of lines) {
+    baseline -= line.size;
+    // Center the caption under the code
+    const estimatedWidth = Math.min(line.text.length * line.size * 0.52, placed.captionWidth);
+    const anchorX = placed.x + placed.size / 2 - estimatedWidth / 2;
+    ops.push(
+      `BT /${line.font} ${line.size} Tf ${line.gray} g ${anchorX.toFixed(2)} ${baseline.toFixed(2)} Td (${escapePDFText(line.text)}) Tj ET`
+    );
+    baseline -= LINE_GAP;
+  }
+
+  return ops.join('\n');
+}
+
+/**
+ * Export QR codes to a PDF document.
+ * 'single' places one code per page; 'grid' fills each sheet with as many codes as fit.
+ */
+export async function exportQRCodesToPDF(items: PDFExportItem[], options: PDFExportOptions = {}): Promise<Blob> {
+  if (items.length === 0) {
+    throw new Error('Nothing to export');
+  }
+
+  const settings = { ...DEFAULT_PDF_OPTIONS, ...options };
+  const page = PAPER_SIZES[settings.paperSize];
+  const pages = layoutPages(items, settings);
+  const writer = createPDFWriter();
+
+  const catalogId = writer.reserve();
+  const pagesId = writer.reserve();
+  const regularFontId = writer.reserve();
+  const boldFontId = writer.reserve();
+  const infoId = writer.reserve();
+
+  writer.writeObject(regularFontId, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  writer.writeObject(boldFontId, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  const pageIds: number[] = [];
+
+  for (const placements of pages) {
+    const pageId = writer.reserve();
+    const contentId = writer.reserve();
+    const xObjects: string[] = [];
+    const drawOps: string[] = [];
+
+    for (let i = 0; i < placements.length; i++) {
+      const placed = placements[i];
+      const pixelSize = Math.min(Math.round((placed.size / 72) * settings.dpi), MAX_RASTER_SIZE);
+      const renderOptions: QROptions = { ...placed.item.options, width: pixelSize, type: 'image/png' };
+      let dataUrl = placed.item.logo
+        ? (await generateQRCodeWithLogo(placed.item.text, placed.item.logo, renderOptions)).dataUrl
+        : await generateQRCode(placed.item.text, renderOptions);
+      if (placed.item.frame?.text.trim()) {
+        dataUrl = await addQRFrame(dataUrl, placed.item.frame, renderOptions);
+      }
+      const raster = await rasterize(dataUrl);
+      const imageId = writer.reserve();
+      const imageName = `Im${i + 1}`;
+
+      writer.writeStream(
+        imageId,
+        `/Type /XObject /Subtype /Image /Width ${raster.width} /Height ${raster.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Interpolate false /Filter /FlateDecode`,
+        await deflate(raster.data)
+      );
+
+      xObjects.push(`/${imageName} ${imageId} 0 R`);
+      drawOps.push(drawPlacedCode(placed, imageName, settings.showCaptions, raster.width / raster.height));
+    }
+
+    writer.writeStream(contentId, '/Filter /FlateDecode', await deflate(toLatin1Bytes(drawOps.join('\n'))));
+    writer.writeObject(
+      pageId,
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${page.width} ${page.height}] ` +
+      `/Resources << /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >> /XObject << ${xObjects.join(' ')} >> >> ` +
+      `/Contents ${contentId} 0 R >>`
+    );
+    pageIds.push(pageId);
+  }
+
+  writer.writeObject(pagesId, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+  writer.writeObject(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+  writer.writeObject(
+    infoId,
+    `<< /Title (${escapePDFText(settings.documentTitle || 'QR Codes')}) /Producer (QR Super Generator) >>`
+  );
+
+  return writer.finish(catalogId, infoId);
+}
+
+/**
+ * Estimate the width of Helvetica text in points, for right-aligned labels
+ */
+function estimateTextWidth(text: string, size: number): number {
+  return text.length * size * 0.52;
+}
+
+/**
+ * Draw one element of a QR-bill layout; `left` and `top` place the slip on the page in points
+ */
+function drawSwissBillElement(element: SwissBillElement, left: number, top: number): string {
+  const x = (mm: number) => (left + mmToPt(mm)).toFixed(2);
+  const y = (mm: number) => (top - mmToPt(mm)).toFixed(2);
+
+  switch (element.kind) {
+    case 'text': {
+      const offset = element.align === 'end' ? estimateTextWidth(element.text, element.size) : 0;
+      return `BT /${element.bold ? 'F2' : 'F1'} ${element.size} Tf 0 g ${(left + mmToPt(element.x) - offset).toFixed(2)} ${y(element.y)} Td (${escapePDFText(element.text)}) Tj ET`;
+    }
+    case 'rect':
+      return `${element.fill === 'black' ? 0 : 1} g ${x(element.x)} ${y(element.y + element.height)} ${mmToPt(element.width).toFixed(2)} ${mmToPt(element.height).toFixed(2)} re f`;
+    case 'line': {
+      const [first, ...rest] = element.points;
+      const path = [`${x(first[0])} ${y(first[1])} m`, ...rest.map(([px, py]) => `${x(px)} ${y(py)} l`)].join(' ');
+      return `0 G ${mmToPt(element.width).toFixed(2)} w ${element.dashed ? '[3 3] 0 d' : '[] 0 d'} ${path} S`;
+    }
+    case 'qr': {
+      // Modules are drawn as vector squares so the code stays sharp at any print resolution
+      const moduleSize = mmToPt(element.size / element.matrix.size);
+      const squares: string[] = [];
+      element.matrix.modules.forEach((row, r) => row.forEach((dark, c) => {
+        if (dark) {
+          squares.push(`${(left + mmToPt(element.x) + c * moduleSize).toFixed(2)} ${(top - mmToPt(element.y) - (r + 1) * moduleSize).toFixed(2)} ${moduleSize.toFixed(3)} ${moduleSize.toFixed(3)} re`);
+        }
+      }));
+      return `0 g ${squares.join('\n')} f`;
+    }
+  }
+}
+
+/**
+ * Export a Swiss QR-bill to PDF.
+ * With the receipt the slip sits at the bottom of an A4 page, where invoices put it; the payment part alone gets an A6 page.
+ */
+export async function exportSwissQRBillToPDF(bill: SwissQRBill, options: SwissBillRenderOptions = {}): Promise<Blob> {
+  const layout = layoutSwissQRBill(bill, options);
+  const page = options.receipt === false
+    ? { width: mmToPt(layout.width), height: mmToPt(layout.height) }
+    : PAPER_SIZES.A4;
+  const writer = createPDFWriter();
+
+  const catalogId = writer.reserve();
+  const pagesId = writer.reserve();
+  const regularFontId = writer.reserve();
+  const boldFontId = writer.reserve();
+  const infoId = writer.reserve();
+  const pageId = writer.reserve();
+  const contentId = writer.reserve();
+
+  writer.writeObject(regularFontId, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  writer.writeObject(boldFontId, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  const top = mmToPt(layout.height);
+  const drawOps = layout.elements.map(element => drawSwissBillElement(element, 0, top));
+
+  writer.writeStream(contentId, '/Filter /FlateDecode', await deflate(toLatin1Bytes(drawOps.join('\n'))));
+  writer.writeObject(
+    pageId,
+    `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${page.width.toFixed(2)} ${page.height.toFixed(2)}] ` +
+    `/Resources << /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >> >> /Contents ${contentId} 0 R >>`
+  );
+  writer.writeObject(pagesId, `<< /Type /Pages /Kids [${pageId} 0 R] /Count 1 >>`);
+  writer.writeObject(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+  writer.writeObject(infoId, `<< /Title (QR-bill ${escapePDFText(bill.creditor.name.trim())}) /Producer (QR Super Generator) >>`);
+
+  return writer.finish(catalogId, infoId);
+}
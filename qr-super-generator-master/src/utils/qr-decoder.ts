@@ -0,0 +1,240 @@
+/**
+ * Local QR decoding for QR Super Generator
+ * Reads QR codes back out of rendered bitmaps without any network access
+ */
+
+import jsQR from 'jsqr';
+import { createCanvas, loadImageSource } from './qr-renderer';
+
+export interface DecodedQRCode {
+  data: string;
+  location: {
+    topLeft: { x: number; y: number };
+    topRight: { x: number; y: number };
+    bottomRight: { x: number; y: number };
+    bottomLeft: { x: number; y: number };
+  };
+}
+
+// Stop looking for more codes after this many in a single image
+const MAX_CODES_PER_IMAGE = 20;
+
+// Larger images are scaled down before scanning to keep decoding responsive
+const MAX_SCAN_DIMENSION = 2048;
+
+export interface QRVerificationResult {
+  verified: boolean;
+  decodedText?: string;
+  error?: string;
+}
+
+/**
+ * Decode a single QR code from raw RGBA pixels
+ */
+export function decodeQRCodeFromImageData(imageData: ImageData): DecodedQRCode | null {
+  return decodePixels(imageData.data, imageData.width, imageData.height);
+}
+
+/**
+ * Run the decoder over an RGBA buffer
+ */
+function decodePixels(pixels: Uint8ClampedArray, width: number, height: number): DecodedQRCode | null {
+  const result = jsQR(pixels, width, height, {
+    inversionAttempts: 'attemptBoth'
+  });
+
+  if (!result) return null;
+
+  return {
+    data: result.data,
+    location: {
+      topLeft: result.location.topLeftCorner,
+      topRight: result.location.topRightCorner,
+      bottomRight: result.location.bottomRightCorner,
+      bottomLeft: result.location.bottomLeftCorner
+    }
+  };
+}
+
+/**
+ * Paint over a decoded code (plus its quiet zone) so the next pass finds a different one
+ */
+function maskCode(pixels: Uint8ClampedArray, width: number, height: number, location: DecodedQRCode['location']): boolean {
+  const corners = [location.topLeft, location.topRight, location.bottomRight, location.bottomLeft];
+  const xs = corners.map(point => point.x);
+  const ys = corners.map(point => point.y);
+  const padding = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)) * 0.1;
+
+  const left = Math.max(0, Math.floor(Math.min(...xs) - padding));
+  const right = Math.min(width, Math.ceil(Math.max(...xs) + padding));
+  const top = Math.max(0, Math.floor(Math.min(...ys) - padding));
+  const bottom = Math.min(height, Math.ceil(Math.max(...ys) + padding));
+
+  if (right <= left || bottom <= top) return false;
+
+  for (let y = top; y < bottom; y++) {
+    pixels.fill(255, (y * width + left) * 4, (y * width + right) * 4);
+  }
+
+  return true;
+}
+
+/**
+ * Decode the first QR code found in any of a set of overlapping windows.
+ * The decoder picks one trio of finder patterns per pass, so with several codes in view
+ * it can pair patterns from different codes; smaller windows isolate them.
+ */
+function decodeInWindows(pixels: Uint8ClampedArray, width: number, height: number): DecodedQRCode | null {
+  for (const divisions of [2, 3]) {
+    const windowWidth = Math.ceil((width * 2) / (divisions + 1));
+    const windowHeight = Math.ceil((height * 2) / (divisions + 1));
+
+    for (let row = 0; row < divisions; row++) {
+      for (let col = 0; col < divisions; col++) {
+        const left = Math.min(width - windowWidth, Math.round((col * windowWidth) / 2));
+        const top = Math.min(height - windowHeight, Math.round((row * windowHeight) / 2));
+        const windowPixels = new Uint8ClampedArray(windowWidth * windowHeight * 4);
+
+        for (let y = 0; y < windowHeight; y++) {
+          const start = ((top + y) * width + left) * 4;
+          windowPixels.set(pixels.subarray(start, start + windowWidth * 4), y * windowWidth * 4);
+        }
+
+        const decoded = decodePixels(windowPixels, windowWidth, windowHeight);
+        if (decoded) {
+          const shift = (point: { x: number; y: number }) => ({ x: point.x + left, y: point.y + top });
+          return {
+            data: decoded.data,
+            location: {
+              topLeft: shift(decoded.location.topLeft),
+              topRight: shift(decoded.location.topRight),
+              bottomRight: shift(decoded.location.bottomRight),
+              bottomLeft: shift(decoded.location.bottomLeft)
+            }
+          };
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Decode every QR code in raw RGBA pixels, in reading order (top to bottom, left to right)
+ */
+export function decodeAllQRCodesFromImageData(imageData: ImageData, maxCodes = MAX_CODES_PER_IMAGE): DecodedQRCode[] {
+  // Work on a copy so masking found codes doesn't touch the caller's pixels
+  const pixels = new Uint8ClampedArray(imageData.data);
+  const codes: DecodedQRCode[] = [];
+
+  while (codes.length < maxCodes) {
+    const decoded = decodePixels(pixels, imageData.width, imageData.height) ||
+      decodeInWindows(pixels, imageData.width, imageData.height);
+    if (!decoded) break;
+
+    codes.push(decoded);
+    if (!maskCode(pixels, imageData.width, imageData.height, decoded.location)) break;
+  }
+
+  return codes.sort((a, b) => {
+    const rowA = Math.min(a.location.topLeft.y, a.location.topRight.y);
+    const rowB = Math.min(b.location.topLeft.y, b.location.topRight.y);
+    const sameRow = Math.abs(rowA - rowB) < Math.abs(a.location.bottomLeft.y - a.location.topLeft.y) / 2;
+    return sameRow ? a.location.topLeft.x - b.location.topLeft.x : rowA - rowB;
+  });
+}
+
+/**
+ * Rasterize an image source, scaling it down to fit within maxDimension
+ */
+async function rasterize(source: string | Blob, maxDimension: number): Promise<{ imageData: ImageData; scale: number }> {
+  const image = await loadImageSource(source);
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+
+  try {
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+
+    if (!ctx) {
+      throw new Error('Canvas context not available');
+    }
+
+    ctx.drawImage(image, 0, 0, width, height);
+    return { imageData: ctx.getImageData(0, 0, width, height), scale };
+  } finally {
+    if ('close' in image) image.close();
+  }
+}
+
+/**
+ * Rasterize an image source (data URL, object URL or Blob) into RGBA pixels
+ */
+export async function loadImageData(source: string | Blob): Promise<ImageData> {
+  return (await rasterize(source, Infinity)).imageData;
+}
+
+/**
+ * Decode a single QR code from an image data URL or Blob
+ */
+export async function decodeQRCode(source: string | Blob): Promise<DecodedQRCode | null> {
+  try {
+    const imageData = await loadImageData(source);
+    return decodeQRCodeFromImageData(imageData);
+  } catch (error) {
+    console.error('QR decoding failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Decode every QR code in an image data URL or Blob, e.g. a photo or screenshot.
+ * Locations are reported in the coordinates of the original image.
+ */
+export async function decodeAllQRCodes(source: string | Blob, maxCodes = MAX_CODES_PER_IMAGE): Promise<DecodedQRCode[]> {
+  let scan: { imageData: ImageData; scale: number };
+
+  try {
+    scan = await rasterize(source, MAX_SCAN_DIMENSION);
+  } catch (error) {
+    console.error('Failed to read image for scanning:', error);
+    throw new Error('Could not read this image');
+  }
+
+  const { imageData, scale } = scan;
+  return decodeAllQRCodesFromImageData(imageData, maxCodes).map(code => ({
+    data: code.data,
+    location: {
+      topLeft: unscalePoint(code.location.topLeft, scale),
+      topRight: unscalePoint(code.location.topRight, scale),
+      bottomRight: unscalePoint(code.location.bottomRight, scale),
+      bottomLeft: unscalePoint(code.location.bottomLeft, scale)
+    }
+  }));
+}
+
+/**
+ * Map a point from a scaled-down scan back onto the original image
+ */
+function unscalePoint(point: { x: number; y: number }, scale: number): { x: number; y: number } {
+  return { x: point.x / scale, y: point.y / scale };
+}
+
+/**
+ * Check that a rendered QR image decodes back to exactly the expected text
+ */
+export async function verifyQRCode(source: string | Blob, expectedText: string): Promise<QRVerificationResult> {
+  const decoded = await decodeQRCode(source);
+
+  if (!decoded) {
+    return { verified: false, error: 'No readable QR code found in the rendered image' };
+  }
+
+  if (decoded.data !== expectedText) {
+    return { verified: false, decodedText: decoded.data, error: 'Decoded content does not match the input' };
+  }
+
+  return { verified: true, decodedText: decoded.data };
+}
@@ -1,4 +1,20 @@
 import QRCode from 'qrcode';
+import type { CalendarEvent, ContactFormat, ContactInfo, DetectedContentType, EyeColors, FileFormat, FinderStyle, LogoShape, ModuleStyle, QRCodeData, QRGradient, QRRecipeFrame, SEPAPayment, SwissQRBill, WiFiCredentials } from '../types';
+import { buildCalendarPayload, CalendarPayloadOptions, validateCalendarEvent } from './calendar-payload';
+import { buildContactPayload, validateContact } from './contact-payload';
+import { buildEPCPayload, validateEPCPayment } from './payment-payload';
+import { buildSwissQRBillPayload, getSwissCrossRects, validateSwissQRBill } from './swiss-qr-bill';
+import { buildWiFiPayload, validateWiFiCredentials } from './wifi-payload';
+import {
+  canvasToDataUrl,
+  createCanvas,
+  loadImageSource,
+  needsCustomRenderer,
+  renderQRCodeCanvas,
+  renderQRCodeSVG,
+  svgToDataUrl
+} from './qr-renderer';
+import { QRVerificationResult, verifyQRCode } from './qr-decoder';
 
 export interface QROptions {
   width?: number;
@@ -7,39 +23,107 @@ export interface QROptions {
     dark?: string;
     light?: string;
   };
-  errorCorrectionLevel?: 'L' | 'M' | 'Q' | 'H';
+  errorCorrectionLevel?: ErrorCorrectionLevel;
   type?: 'image/png' | 'image/jpeg' | 'image/webp';
   quality?: number;
+  moduleStyle?: ModuleStyle;
+  finderStyle?: FinderStyle;
+  gradient?: QRGradient;
+  eyeColor?: EyeColors;
 }
 
-export interface WiFiQRData {
-  ssid: string;
-  password: string;
-  security: 'WPA' | 'WEP' | 'nopass';
-  hidden?: boolean;
+// Minimum WCAG contrast ratio between any dark paint and the background
+export const MIN_COLOR_CONTRAST = 3;
+
+export type ErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface QRMatrixOptions {
+  errorCorrectionLevel?: ErrorCorrectionLevel;
+  version?: number;
+  maskPattern?: number;
+}
+
+export interface QRPatternRegion {
+  row: number;
+  col: number;
+  size: number;
+}
+
+export interface QRTimingPattern {
+  row: number;
+  col: number;
+  length: number;
+  direction: 'horizontal' | 'vertical';
+}
+
+export interface QRMatrixSegment {
+  mode: 'numeric' | 'alphanumeric' | 'byte' | 'kanji';
+  data: string;
+  length: number;
+}
+
+export interface QRMatrix {
+  size: number;
+  modules: boolean[][];
+  functionModules: boolean[][];
+  version: number;
+  maskPattern: number;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  segments: QRMatrixSegment[];
+  patterns: {
+    finders: QRPatternRegion[];
+    alignments: QRPatternRegion[];
+    timing: QRTimingPattern[];
+  };
 }
 
-export interface ContactQRData {
-  name?: string;
-  phone?: string;
-  email?: string;
-  organization?: string;
-  url?: string;
+export interface LogoOptions {
+  dataUrl: string;
+  shape?: LogoShape;
+  padding?: number; // clear space around the logo, in modules
 }
 
-export interface CalendarQRData {
-  title: string;
-  start: Date;
-  end: Date;
-  location?: string;
-  description?: string;
+export interface LogoQRResult {
+  dataUrl: string;
+  logoModules: number; // side of the area covered by the logo, in modules
+  maxLogoModules: number; // largest side the error correction budget allows, in modules
 }
 
+export interface VerifiedQRCode {
+  dataUrl: string;
+  verification: QRVerificationResult;
+}
+
+// Share of codewords each error correction level can restore
+const ERROR_RECOVERY: Record<ErrorCorrectionLevel, number> = { L: 0.07, M: 0.15, Q: 0.25, H: 0.3 };
+
+// Only half the recovery budget goes to the logo, leaving the rest for print defects and blur
+const LOGO_RECOVERY_SHARE = 0.5;
+
+export type WiFiQRData = WiFiCredentials;
+
+export type ContactQRData = ContactInfo;
+
+export type CalendarQRData = CalendarEvent;
+
+export type PaymentQRData = SEPAPayment;
+
+export type SwissQRBillData = SwissQRBill;
+
 /**
  * Generate QR code from text with customizable options
  */
 export async function generateQRCode(text: string, options: QROptions = {}): Promise<string> {
+  assertColorContrast(options);
+
   try {
+    // Styled shapes, gradients and eye colors are drawn by our own renderer from the module matrix
+    if (needsCustomRenderer(options)) {
+      const matrix = generateQRMatrix(text, { errorCorrectionLevel: options.errorCorrectionLevel || 'M' });
+      const canvas = renderQRCodeCanvas(matrix, options);
+      return await canvasToDataUrl(canvas, options.type || 'image/png', options.quality);
+    }
+
     const qrOptions: QRCode.QRCodeToDataURLOptions = {
       width: options.width || 256,
       margin: options.margin || 1,
@@ -59,67 +143,286 @@ export async function generateQRCode(text: string, options: QROptions = {}): Pro
   }
 }
 
+/**
+ * Generate QR code and decode the rendered bitmap to confirm it scans back to the input.
+ * Logo renders are already verified while the logo is being sized.
+ */
+export async function generateVerifiedQRCode(
+  text: string,
+  options: QROptions = {},
+  logo?: LogoOptions
+): Promise<VerifiedQRCode> {
+  if (logo) {
+    const result = await generateQRCodeWithLogo(text, logo, options);
+    return { dataUrl: result.dataUrl, verification: { verified: true, decodedText: text } };
+  }
+
+  const dataUrl = await generateQRCode(text, options);
+  const verification = await verifyQRCode(dataUrl, text);
+
+  if (!verification.verified) {
+    console.error('QR verification failed:', verification.error);
+  }
+
+  return { dataUrl, verification };
+}
+
+// qrcode encodes the error correction level as its two format bits
+const ERROR_LEVEL_BY_BIT: Record<number, ErrorCorrectionLevel> = { 0: 'M', 1: 'L', 2: 'H', 3: 'Q' };
+
+/**
+ * Get the row/column coordinates of alignment pattern centers for a version
+ */
+function getAlignmentCoordinates(version: number): number[] {
+  if (version === 1) return [];
+
+  const count = Math.floor(version / 7) + 2;
+  const size = version * 4 + 17;
+  const interval = size === 145 ? 26 : Math.ceil((size - 13) / (2 * count - 2)) * 2;
+  const positions = [size - 7];
+
+  for (let i = 1; i < count - 1; i++) {
+    positions[i] = positions[i - 1] - interval;
+  }
+
+  positions.push(6);
+  return positions.reverse();
+}
+
+/**
+ * Locate the finder, alignment and timing patterns of a symbol
+ */
+function getPatternRegions(version: number, size: number): QRMatrix['patterns'] {
+  const finders: QRPatternRegion[] = [
+    { row: 0, col: 0, size: 7 },
+    { row: 0, col: size - 7, size: 7 },
+    { row: size - 7, col: 0, size: 7 }
+  ];
+
+  const coordinates = getAlignmentCoordinates(version);
+  const last = coordinates.length - 1;
+  const alignments: QRPatternRegion[] = [];
+
+  coordinates.forEach((row, i) => {
+    coordinates.forEach((col, j) => {
+      // Skip the three corners occupied by finder patterns
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+        return;
+      }
+      alignments.push({ row: row - 2, col: col - 2, size: 5 });
+    });
+  });
+
+  const timing: QRTimingPattern[] = [
+    { row: 6, col: 8, length: size - 16, direction: 'horizontal' },
+    { row: 8, col: 6, length: size - 16, direction: 'vertical' }
+  ];
+
+  return { finders, alignments, timing };
+}
+
+/**
+ * Generate the raw module matrix for a QR code.
+ * This is the single source of truth for custom renderers and scannability checks.
+ */
+export function generateQRMatrix(text: string, options: QRMatrixOptions = {}): QRMatrix {
+  const validation = validateQRText(text);
+  if (!validation.isValid) {
+    throw new Error(validation.error || 'Invalid QR text');
+  }
+
+  const qr = QRCode.create(text, {
+    errorCorrectionLevel: options.errorCorrectionLevel || 'M',
+    version: options.version,
+    maskPattern: options.maskPattern as QRCode.QRCodeMaskPattern | undefined
+  });
+
+  const size = qr.modules.size;
+  const modules: boolean[][] = [];
+  const functionModules: boolean[][] = [];
+
+  for (let row = 0; row < size; row++) {
+    modules.push([]);
+    functionModules.push([]);
+    for (let col = 0; col < size; col++) {
+      modules[row].push(qr.modules.get(row, col) === 1);
+      functionModules[row].push(qr.modules.isReserved(row, col) === 1);
+    }
+  }
+
+  const segments: QRMatrixSegment[] = qr.segments.map(segment => ({
+    mode: segment.mode.id.toLowerCase() as QRMatrixSegment['mode'],
+    data: segment.data instanceof Uint8Array
+      ? new TextDecoder().decode(segment.data)
+      : segment.data,
+    length: segment.getLength()
+  }));
+
+  return {
+    size,
+    modules,
+    functionModules,
+    version: qr.version,
+    maskPattern: qr.maskPattern ?? 0,
+    errorCorrectionLevel: ERROR_LEVEL_BY_BIT[qr.errorCorrectionLevel.bit],
+    segments,
+    patterns: getPatternRegions(qr.version, size)
+  };
+}
+
+/**
+ * Generate QR code as SVG markup (vector output for print and design tools)
+ */
+export async function generateQRCodeSVG(text: string, options: QROptions = {}): Promise<string> {
+  assertColorContrast(options);
+
+  try {
+    const matrix = generateQRMatrix(text, {
+      errorCorrectionLevel: options.errorCorrectionLevel || 'M'
+    });
+
+    return renderQRCodeSVG(matrix, options);
+  } catch (error) {
+    console.error('SVG QR Code generation failed:', error);
+    throw new Error('Failed to generate QR code');
+  }
+}
+
+/**
+ * Generate QR code as a data URL in the requested file format
+ */
+export async function generateQRCodeForFormat(
+  text: string,
+  format: FileFormat,
+  options: QROptions = {}
+): Promise<string> {
+  switch (format) {
+    case 'svg':
+      return svgToDataUrl(await generateQRCodeSVG(text, options));
+    case 'jpg':
+      return generateQRCode(text, { ...options, type: 'image/jpeg' });
+    case 'png':
+      return generateQRCode(text, { ...options, type: 'image/png' });
+    default:
+      // PDF documents are assembled by the pdf-exporter module
+      throw new Error(`Unsupported image format: ${format}`);
+  }
+}
+
 /**
  * Generate QR code for WiFi credentials
  */
 export async function generateWiFiQR(data: WiFiQRData, options: QROptions = {}): Promise<string> {
-  const wifiString = `WIFI:T:${data.security};S:${data.ssid};P:${data.password};H:${data.hidden ? 'true' : 'false'};;`;
-  return generateQRCode(wifiString, options);
+  const validation = validateWiFiCredentials(data);
+  if (!validation.isValid) {
+    throw new Error(validation.error);
+  }
+
+  return generateQRCode(buildWiFiPayload(data), options);
 }
 
 /**
- * Generate QR code for contact information (vCard)
+ * Generate QR code for contact information (vCard or MECARD)
  */
-export async function generateContactQR(data: ContactQRData, options: QROptions = {}): Promise<string> {
-  const vcard = [
-    'BEGIN:VCARD',
-    'VERSION:3.0',
-    data.name ? `FN:${data.name}` : '',
-    data.phone ? `TEL:${data.phone}` : '',
-    data.email ? `EMAIL:${data.email}` : '',
-    data.organization ? `ORG:${data.organization}` : '',
-    data.url ? `URL:${data.url}` : '',
-    'END:VCARD'
-  ].filter(line => line !== '').join('\n');
+export async function generateContactQR(
+  data: ContactQRData,
+  options: QROptions = {},
+  format: ContactFormat = 'vcard3'
+): Promise<string> {
+  const validation = validateContact(data);
+  if (!validation.isValid) {
+    throw new Error(validation.error);
+  }
 
-  return generateQRCode(vcard, options);
+  return generateQRCode(buildContactPayload(data, format), options);
 }
 
 /**
- * Generate QR code for calendar events
+ * Generate QR code for calendar events (iCalendar)
  */
-export async function generateCalendarQR(data: CalendarQRData, options: QROptions = {}): Promise<string> {
-  const formatDate = (date: Date): string => {
-    return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-  };
+export async function generateCalendarQR(
+  data: CalendarQRData,
+  options: QROptions = {},
+  payloadOptions: CalendarPayloadOptions = {}
+): Promise<string> {
+  const validation = validateCalendarEvent(data);
+  if (!validation.isValid) {
+    throw new Error(validation.error);
+  }
+
+  return generateQRCode(buildCalendarPayload(data, payloadOptions), options);
+}
+
+/**
+ * Generate QR code for a SEPA credit transfer (EPC069-12)
+ */
+export async function generatePaymentQR(data: PaymentQRData, options: QROptions = {}): Promise<string> {
+  const validation = validateEPCPayment(data);
+  if (!validation.isValid) {
+    throw new Error(validation.error);
+  }
+
+  // EPC069-12 requires error correction level M
+  return generateQRCode(buildEPCPayload(data), { ...options, errorCorrectionLevel: 'M' });
+}
+
+/**
+ * Generate QR code for a Swiss QR-bill (SPC 0200), with the Swiss cross in the center
+ */
+export async function generateSwissQRBillQR(data: SwissQRBillData, options: QROptions = {}): Promise<string> {
+  const validation = validateSwissQRBill(data);
+  if (!validation.isValid) {
+    throw new Error(validation.error);
+  }
+
+  return generateSwissQRCode(buildSwissQRBillPayload(data), options);
+}
+
+/**
+ * Render an SPC payload that has already been built, with the Swiss cross in the center
+ */
+export async function generateSwissQRCode(payload: string, options: QROptions = {}): Promise<string> {
+  try {
+    // The QR-bill standard requires level M and plain black modules
+    const renderOptions: QROptions = { ...options, errorCorrectionLevel: 'M', color: { dark: '#000000', light: '#FFFFFF' } };
+    const matrix = generateQRMatrix(payload, { errorCorrectionLevel: 'M' });
+    const canvas = renderQRCodeCanvas(matrix, { width: renderOptions.width, margin: renderOptions.margin });
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+
+    if (!ctx) {
+      throw new Error('Canvas context not available');
+    }
 
-  const vevent = [
-    'BEGIN:VCALENDAR',
-    'VERSION:2.0',
-    'BEGIN:VEVENT',
-    `DTSTART:${formatDate(data.start)}`,
-    `DTEND:${formatDate(data.end)}`,
-    `SUMMARY:${data.title}`,
-    data.location ? `LOCATION:${data.location}` : '',
-    data.description ? `DESCRIPTION:${data.description}` : '',
-    'END:VEVENT',
-    'END:VCALENDAR'
-  ].filter(line => line !== '').join('\n');
+    // The cross is 7 mm on a 46 mm code, centered on the modules
+    const margin = renderOptions.margin || 1;
+    const moduleSize = canvas.width / (matrix.size + margin * 2);
+    const crossSize = (matrix.size * moduleSize * 7) / 46;
+    const crossOffset = (canvas.width - crossSize) / 2;
+    getSwissCrossRects(crossOffset, crossOffset, crossSize).forEach(rect => {
+      ctx.fillStyle = rect.fill === 'black' ? '#000000' : '#FFFFFF';
+      ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+    });
 
-  return generateQRCode(vevent, options);
+    return await canvasToDataUrl(canvas, renderOptions.type || 'image/png', renderOptions.quality);
+  } catch (error) {
+    console.error('Swiss QR-bill generation failed:', error);
+    throw new Error('Failed to generate QR code');
+  }
 }
 
 /**
- * Generate QR codes for multiple texts (batch processing)
+ * Generate QR codes for multiple texts (batch processing); codes that fail to decode are reported as errors
  */
 export async function generateBatchQRCodes(
   texts: string[], 
   options: QROptions = {}
-): Promise<Array<{ text: string; dataUrl: string; error?: string }>> {
+): Promise<Array<{ text: string; dataUrl: string; error?: string; verified?: boolean }>> {
   const results = await Promise.allSettled(
     texts.map(async (text) => {
-      const dataUrl = await generateQRCode(text, options);
-      return { text, dataUrl };
+      const { dataUrl, verification } = await generateVerifiedQRCode(text, options);
+      return verification.verified
+        ? { text, dataUrl, verified: true }
+        : { text, dataUrl, verified: false, error: `Scannability check failed: ${verification.error}` };
     })
   );
 
@@ -151,6 +454,130 @@ export function validateQRText(text: string): { isValid: boolean; error?: string
   return { isValid: true };
 }
 
+/**
+ * Parse a #rgb, #rrggbb or #rrggbbaa color into its channels
+ */
+function parseHexColor(color: string): { r: number; g: number; b: number } | null {
+  const hex = color.trim().replace(/^#/, '');
+
+  if (/^[0-9a-f]{3}$/i.test(hex)) {
+    return {
+      r: parseInt(hex[0] + hex[0], 16),
+      g: parseInt(hex[1] + hex[1], 16),
+      b: parseInt(hex[2] + hex[2], 16)
+    };
+  }
+
+  if (/^([0-9a-f]{6}|[0-9a-f]{8})$/i.test(hex)) {
+    return {
+      r: parseInt(hex.slice(0, 2), 16),
+      g: parseInt(hex.slice(2, 4), 16),
+      b: parseInt(hex.slice(4, 6), 16)
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Get the WCAG relative luminance of a hex color
+ */
+function getRelativeLuminance(color: { r: number; g: number; b: number }): number {
+  const channel = (value: number) => {
+    const c = value / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+
+  return 0.2126 * channel(color.r) + 0.7152 * channel(color.g) + 0.0722 * channel(color.b);
+}
+
+/**
+ * Get the WCAG contrast ratio between two hex colors (1 to 21), or null if either cannot be parsed
+ */
+export function getContrastRatio(first: string, second: string): number | null {
+  const a = parseHexColor(first);
+  const b = parseHexColor(second);
+
+  if (!a || !b) return null;
+
+  const l1 = getRelativeLuminance(a);
+  const l2 = getRelativeLuminance(b);
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+
+/**
+ * Validate that gradient stops and eye colors stay distinguishable from the background.
+ * Scanners binarize by brightness, so the stop closest to the background is the weakest point.
+ */
+export function validateColorContrast(options: QROptions): { isValid: boolean; error?: string } {
+  const background = options.color?.light || '#FFFFFF';
+  const paints: Array<{ label: string; color: string }> = [];
+
+  options.gradient?.stops.forEach((stop, index) => {
+    paints.push({ label: `Gradient stop ${index + 1}`, color: stop.color });
+  });
+  if (options.eyeColor?.outer) paints.push({ label: 'Outer eye color', color: options.eyeColor.outer });
+  if (options.eyeColor?.inner) paints.push({ label: 'Inner eye color', color: options.eyeColor.inner });
+
+  for (const paint of paints) {
+    const ratio = getContrastRatio(paint.color, background);
+    if (ratio !== null && ratio < MIN_COLOR_CONTRAST) {
+      return {
+        isValid: false,
+        error: `${paint.label} (${paint.color}) is too close to the background (contrast ${ratio.toFixed(1)}:1, minimum ${MIN_COLOR_CONTRAST}:1)`
+      };
+    }
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Throw when the color contrast check fails
+ */
+function assertColorContrast(options: QROptions): void {
+  const contrast = validateColorContrast(options);
+  if (!contrast.isValid) {
+    throw new Error(contrast.error || 'Insufficient color contrast');
+  }
+}
+
+/**
+ * Build history metadata that captures every render option needed to reproduce a code
+ */
+export function buildQRMetadata(options: QROptions): NonNullable<QRCodeData['metadata']> {
+  return {
+    size: options.width || 256,
+    errorLevel: options.errorCorrectionLevel || 'M',
+    color: {
+      dark: options.color?.dark || '#000000',
+      light: options.color?.light || '#FFFFFF'
+    },
+    moduleStyle: options.moduleStyle || 'square',
+    finderStyle: options.finderStyle || 'square',
+    gradient: options.gradient,
+    eyeColor: options.eyeColor
+  };
+}
+
+/**
+ * Restore render options from history metadata so stored codes re-render identically
+ */
+export function metadataToQROptions(metadata: QRCodeData['metadata'] = {}): QROptions {
+  return {
+    width: metadata.size || 256,
+    errorCorrectionLevel: (metadata.errorLevel as ErrorCorrectionLevel) || 'M',
+    color: {
+      dark: metadata.color?.dark || '#000000',
+      light: metadata.color?.light || '#FFFFFF'
+    },
+    moduleStyle: metadata.moduleStyle,
+    finderStyle: metadata.finderStyle,
+    gradient: metadata.gradient,
+    eyeColor: metadata.eyeColor
+  };
+}
+
 /**
  * Get optimal QR code size based on text length
  */
@@ -225,70 +652,132 @@ export async function generateLocationQR(latitude: number, longitude: number, op
 }
 
 /**
- * Generate QR code with logo/image overlay (advanced)
+ * Get the largest logo (side length in modules) the code can lose to an overlay.
+ * The budget is the data area times the recoverable share for the matrix's error correction level.
  */
-export async function generateQRCodeWithLogo(text: string, logoDataUrl: string, options: QROptions = {}): Promise<string> {
-  try {
-    // First generate the basic QR code
-    const qrDataUrl = await generateQRCode(text, { ...options, errorCorrectionLevel: 'H' }); // Use high error correction for logo overlay
-    
-    // Create canvas for composition
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    
+export function getMaxLogoModules(matrix: QRMatrix, shape: LogoShape = 'rounded'): number {
+  let dataModules = 0;
+  matrix.functionModules.forEach(row => row.forEach(isFunction => {
+    if (!isFunction) dataModules++;
+  }));
+
+  const budget = dataModules * ERROR_RECOVERY[matrix.errorCorrectionLevel] * LOGO_RECOVERY_SHARE;
+  // A circle only covers pi/4 of its bounding square
+  const side = shape === 'circle' ? Math.sqrt((budget * 4) / Math.PI) : Math.sqrt(budget);
+  // Keep clear of the finder patterns and their separators
+  const maxSide = Math.min(Math.floor(side), matrix.size - 18);
+
+  // Odd sides keep the logo centred on the module grid
+  return Math.max(0, maxSide % 2 === 0 ? maxSide - 1 : maxSide);
+}
+
+/**
+ * Generate QR code with a logo overlay sized from the error correction capacity.
+ * Each candidate is decoded locally and the logo shrinks until the result scans.
+ */
+export async function generateQRCodeWithLogo(text: string, logo: LogoOptions, options: QROptions = {}): Promise<LogoQRResult> {
+  const shape = logo.shape || 'rounded';
+  const padding = Math.max(0, logo.padding ?? 1);
+  const errorCorrectionLevel = options.errorCorrectionLevel || 'H';
+  const renderOptions: QROptions = { ...options, errorCorrectionLevel };
+
+  const matrix = generateQRMatrix(text, { errorCorrectionLevel });
+  const maxLogoModules = getMaxLogoModules(matrix, shape);
+
+  if (maxLogoModules < 3 + padding * 2) {
+    throw new Error('Not enough error correction for a logo. Raise the error correction level or shorten the content.');
+  }
+
+  const qrDataUrl = await generateQRCode(text, renderOptions);
+  const [qrImage, logoImage] = await Promise.all([
+    loadImageSource(qrDataUrl),
+    loadImageSource(logo.dataUrl)
+  ]);
+
+  const size = qrImage.width;
+  const moduleSize = size / (matrix.size + (options.margin || 1) * 2);
+
+  for (let side = maxLogoModules; side >= 3 + padding * 2; side -= 2) {
+    const canvas = createCanvas(size, size);
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+
     if (!ctx) {
       throw new Error('Canvas context not available');
     }
-    
-    const size = options.width || 256;
-    canvas.width = size;
-    canvas.height = size;
-    
-    // Load QR code image
-    const qrImage = new Image();
-    await new Promise((resolve, reject) => {
-      qrImage.onload = resolve;
-      qrImage.onerror = reject;
-      qrImage.src = qrDataUrl;
-    });
-    
-    // Draw QR code
+
     ctx.drawImage(qrImage, 0, 0, size, size);
-    
-    // Load logo image
-    const logoImage = new Image();
-    await new Promise((resolve, reject) => {
-      logoImage.onload = resolve;
-      logoImage.onerror = reject;
-      logoImage.src = logoDataUrl;
-    });
-    
-    // Calculate logo size (should be max 10% of QR code to maintain readability)
-    const logoSize = Math.min(size * 0.1, 50);
-    const logoX = (size - logoSize) / 2;
-    const logoY = (size - logoSize) / 2;
-    
-    // Draw white background circle for logo
-    ctx.fillStyle = options.color?.light || '#FFFFFF';
+
+    const plateSize = side * moduleSize;
+    const plateX = (size - plateSize) / 2;
+
+    // Clear a plate behind the logo so stray modules don't show through transparent areas
     ctx.beginPath();
-    ctx.arc(size / 2, size / 2, logoSize / 2 + 2, 0, 2 * Math.PI);
-    ctx.fill();
-    
-    // Draw logo
-    ctx.drawImage(logoImage, logoX, logoY, logoSize, logoSize);
-    
-    return canvas.toDataURL(options.type || 'image/png');
-  } catch (error) {
-    console.error('Logo overlay failed, returning basic QR code:', error);
-    // Fallback to basic QR code if logo overlay fails
-    return generateQRCode(text, options);
+    if (shape === 'circle') {
+      ctx.arc(size / 2, size / 2, plateSize / 2, 0, 2 * Math.PI);
+    } else {
+      ctx.roundRect(plateX, plateX, plateSize, plateSize, shape === 'rounded' ? plateSize * 0.2 : 0);
+    }
+    if (shape !== 'none') {
+      ctx.fillStyle = options.color?.light || '#FFFFFF';
+      ctx.fill();
+    }
+
+    // Fit the logo inside the plate, preserving its aspect ratio
+    const innerSize = (shape === 'circle' ? plateSize / Math.SQRT2 : plateSize) - padding * 2 * moduleSize;
+    const scale = innerSize / Math.max(logoImage.width, logoImage.height);
+    const logoWidth = logoImage.width * scale;
+    const logoHeight = logoImage.height * scale;
+
+    ctx.save();
+    ctx.clip();
+    ctx.drawImage(logoImage, (size - logoWidth) / 2, (size - logoHeight) / 2, logoWidth, logoHeight);
+    ctx.restore();
+
+    const dataUrl = await canvasToDataUrl(canvas, options.type || 'image/png', options.quality);
+    if ((await verifyQRCode(dataUrl, text)).verified) {
+      return { dataUrl, logoModules: side, maxLogoModules };
+    }
   }
+
+  throw new Error('The logo makes this QR code unreadable. Try a smaller padding or a higher error correction level.');
+}
+
+/**
+ * Put a rendered QR code in a coloured frame with a caption underneath.
+ * The frame sits outside the quiet zone, so scannability is unchanged.
+ */
+export async function addQRFrame(dataUrl: string, frame: QRRecipeFrame, options: QROptions = {}): Promise<string> {
+  const qrImage = await loadImageSource(dataUrl);
+  const size = qrImage.width;
+  const border = Math.round(size * 0.04);
+  const captionHeight = Math.round(size * 0.16);
+  const width = size + border * 2;
+  const height = size + border * 2 + captionHeight;
+
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+
+  if (!ctx) {
+    throw new Error('Canvas context not available');
+  }
+
+  ctx.fillStyle = frame.color;
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(qrImage, border, border, size, size);
+
+  ctx.fillStyle = frame.textColor || '#FFFFFF';
+  ctx.font = `600 ${Math.round(captionHeight * 0.5)}px -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(frame.text, width / 2, size + border + captionHeight / 2, size);
+
+  return canvasToDataUrl(canvas, options.type || 'image/png', options.quality);
 }
 
 /**
  * Detect QR code type from text content
  */
-export function detectQRType(text: string): 'url' | 'email' | 'phone' | 'sms' | 'wifi' | 'location' | 'vcard' | 'vevent' | 'text' {
+export function detectQRType(text: string): DetectedContentType {
   const trimmedText = text.trim().toLowerCase();
   
   if (trimmedText.startsWith('http://') || trimmedText.startsWith('https://')) {
@@ -311,6 +800,14 @@ export function detectQRType(text: string): 'url' | 'email' | 'phone' | 'sms' |
     return 'wifi';
   }
   
+  if (trimmedText.startsWith('bcd\n') || trimmedText.startsWith('bcd\r\n')) {
+    return 'payment';
+  }
+  
+  if (trimmedText.startsWith('spc\n') || trimmedText.startsWith('spc\r\n')) {
+    return 'payment';
+  }
+  
   if (trimmedText.startsWith('geo:')) {
     return 'location';
   }
@@ -351,13 +848,15 @@ export async function generateBatchQRCodesWithProgress(
   texts: string[],
   options: QROptions = {},
   onProgress?: (completed: number, total: number) => void
-): Promise<Array<{ text: string; dataUrl: string; error?: string }>> {
-  const results: Array<{ text: string; dataUrl: string; error?: string }> = [];
+): Promise<Array<{ text: string; dataUrl: string; error?: string; verified?: boolean }>> {
+  const results: Array<{ text: string; dataUrl: string; error?: string; verified?: boolean }> = [];
   
   for (let i = 0; i < texts.length; i++) {
     try {
-      const dataUrl = await generateQRCode(texts[i], options);
-      results.push({ text: texts[i], dataUrl });
+      const { dataUrl, verification } = await generateVerifiedQRCode(texts[i], options);
+      results.push(verification.verified
+        ? { text: texts[i], dataUrl, verified: true }
+        : { text: texts[i], dataUrl, verified: false, error: `Scannability check failed: ${verification.error}` });
     } catch (error) {
       results.push({
         text: texts[i],
@@ -0,0 +1,193 @@
+/**
+ * QR generation recipes for QR Super Generator
+ * A recipe holds everything needed to render a code again, so history keeps recipes instead of images
+ */
+
+import type { QRCodeData, QRRecipe, QRRecipeFrame } from '../types';
+import {
+  addQRFrame,
+  generateQRCode,
+  generateQRCodeWithLogo,
+  generateSwissQRCode,
+  LogoOptions,
+  metadataToQROptions,
+  QROptions
+} from './qr-generator';
+import { getAsset, saveAsset } from './history-db';
+
+// Size of list previews, and how many are kept in memory
+const THUMBNAIL_WIDTH = 128;
+const THUMBNAIL_CACHE_LIMIT = 100;
+
+const thumbnailCache = new Map<string, Promise<string>>();
+
+/**
+ * Whether a recipe is a Swiss QR-bill, whose code must carry the Swiss cross
+ */
+function isSwissQRBillRecipe(recipe: QRRecipe): boolean {
+  return recipe.contentType === 'payment' && (typeof recipe.fields?.bill === 'string' || /^SPC\r?\n/.test(recipe.payload));
+}
+
+export interface RecipeExtras {
+  contentType?: QRRecipe['contentType'];
+  fields?: QRRecipe['fields'];
+  logo?: LogoOptions;
+  frame?: QRRecipeFrame;
+}
+
+// A history entry unpacked into the inputs of a generator form
+export interface EditableRecipe {
+  payload: string;
+  contentType: QRRecipe['contentType'];
+  fields?: QRRecipe['fields'];
+  options: QROptions;
+  logo?: LogoOptions;
+  frame?: QRRecipeFrame;
+  // The recipe had a logo whose asset has since been removed
+  logoMissing?: boolean;
+}
+
+/**
+ * Keep only the options that affect how a code looks, dropping unset values
+ */
+function pickRenderOptions(options: QROptions): QRRecipe['render'] {
+  const render: QRRecipe['render'] = {
+    width: options.width,
+    margin: options.margin,
+    color: options.color,
+    errorCorrectionLevel: options.errorCorrectionLevel,
+    moduleStyle: options.moduleStyle,
+    finderStyle: options.finderStyle,
+    gradient: options.gradient,
+    eyeColor: options.eyeColor
+  };
+
+  // A JSON round trip drops undefined values and detaches the recipe from live UI state
+  return JSON.parse(JSON.stringify(render));
+}
+
+/**
+ * Build a recipe for a code. A logo is stored as an asset and referenced by id.
+ */
+export async function createRecipe(payload: string, options: QROptions = {}, extras: RecipeExtras = {}): Promise<QRRecipe> {
+  const recipe: QRRecipe = {
+    version: 1,
+    payload,
+    contentType: extras.contentType || 'text',
+    render: pickRenderOptions(options)
+  };
+
+  if (extras.fields) {
+    recipe.fields = { ...extras.fields };
+  }
+
+  if (extras.logo) {
+    recipe.logo = {
+      assetId: await saveAsset(extras.logo.dataUrl),
+      shape: extras.logo.shape,
+      padding: extras.logo.padding
+    };
+  }
+
+  if (extras.frame?.text.trim()) {
+    recipe.frame = { ...extras.frame };
+  }
+
+  return recipe;
+}
+
+/**
+ * Render a recipe. The same recipe always produces the same image.
+ */
+export async function renderRecipe(recipe: QRRecipe, overrides: Pick<QROptions, 'width' | 'type' | 'quality'> = {}): Promise<string> {
+  const options: QROptions = { ...recipe.render, ...overrides };
+  let dataUrl: string;
+
+  if (isSwissQRBillRecipe(recipe)) {
+    dataUrl = await generateSwissQRCode(recipe.payload, options);
+  } else if (recipe.logo) {
+    const logoDataUrl = await getAsset(recipe.logo.assetId);
+    if (!logoDataUrl) {
+      throw new Error('The logo for this QR code is no longer available');
+    }
+
+    const result = await generateQRCodeWithLogo(
+      recipe.payload,
+      { dataUrl: logoDataUrl, shape: recipe.logo.shape, padding: recipe.logo.padding },
+      options
+    );
+    dataUrl = result.dataUrl;
+  } else {
+    dataUrl = await generateQRCode(recipe.payload, options);
+  }
+
+  return recipe.frame ? addQRFrame(dataUrl, recipe.frame, options) : dataUrl;
+}
+
+/**
+ * Get a small preview of a recipe, rendering it only the first time
+ */
+export function getRecipeThumbnail(recipe: QRRecipe): Promise<string> {
+  const key = JSON.stringify(recipe);
+  const cached = thumbnailCache.get(key);
+
+  if (cached) {
+    // Move to the back so the least recently used preview is evicted first
+    thumbnailCache.delete(key);
+    thumbnailCache.set(key, cached);
+    return cached;
+  }
+
+  // Logo sizing is verified by decoding, which needs the full resolution
+  const thumbnail = renderRecipe(recipe, recipe.logo ? {} : { width: THUMBNAIL_WIDTH, type: 'image/png' });
+  thumbnail.catch(() => thumbnailCache.delete(key));
+  thumbnailCache.set(key, thumbnail);
+
+  if (thumbnailCache.size > THUMBNAIL_CACHE_LIMIT) {
+    const oldest = thumbnailCache.keys().next().value;
+    if (oldest !== undefined) thumbnailCache.delete(oldest);
+  }
+
+  return thumbnail;
+}
+
+/**
+ * Get a full-quality image for a history entry
+ */
+export async function renderHistoryItem(item: QRCodeData, overrides: Pick<QROptions, 'width' | 'type' | 'quality'> = {}): Promise<string> {
+  return item.recipe ? renderRecipe(item.recipe, overrides) : item.dataUrl;
+}
+
+/**
+ * Restore the generator inputs of a history entry. Entries saved before recipes
+ * existed fall back to their metadata options.
+ */
+export async function loadRecipeForEditing(item: QRCodeData): Promise<EditableRecipe> {
+  const { recipe } = item;
+  if (!recipe) {
+    return {
+      payload: item.text,
+      contentType: item.type || 'text',
+      options: metadataToQROptions(item.metadata)
+    };
+  }
+
+  const editable: EditableRecipe = {
+    payload: recipe.payload,
+    contentType: recipe.contentType,
+    fields: recipe.fields ? { ...recipe.fields } : undefined,
+    options: JSON.parse(JSON.stringify(recipe.render)),
+    frame: recipe.frame ? { ...recipe.frame } : undefined
+  };
+
+  if (recipe.logo) {
+    const logoDataUrl = await getAsset(recipe.logo.assetId);
+    if (logoDataUrl) {
+      editable.logo = { dataUrl: logoDataUrl, shape: recipe.logo.shape, padding: recipe.logo.padding };
+    } else {
+      editable.logoMissing = true;
+    }
+  }
+
+  return editable;
+}
@@ -0,0 +1,462 @@
+/**
+ * Rendering for QR Super Generator
+ * Turns a QR module matrix into standalone SVG markup or a canvas drawing,
+ * with support for styled module and finder ("eye") shapes and gradient fills
+ */
+
+import type { FinderStyle, ModuleStyle, QRGradient } from '../types';
+import type { QRMatrix, QROptions } from './qr-generator';
+
+export type RenderCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+interface StyledPaths {
+  modules: string;
+  finderOuter: string;
+  finderInner: string;
+}
+
+// Corner radii in clockwise order: top-left, top-right, bottom-right, bottom-left
+type CornerRadii = [number, number, number, number];
+
+type GradientGeometry =
+  | { type: 'linear'; x1: number; y1: number; x2: number; y2: number }
+  | { type: 'radial'; cx: number; cy: number; r: number };
+
+interface FillColors {
+  modules: string;
+  finderOuter: string;
+  finderInner: string;
+}
+
+/**
+ * Escape a value for use inside an XML attribute
+ */
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Format a coordinate without floating point noise
+ */
+function n(value: number): string {
+  return Number(value.toFixed(3)).toString();
+}
+
+/**
+ * Path for a rectangle with individually rounded corners
+ */
+function roundedRectPath(x: number, y: number, width: number, height: number, radii: CornerRadii): string {
+  const [tl, tr, br, bl] = radii;
+  const arc = (r: number, endX: number, endY: number) => (r > 0 ? `A${n(r)} ${n(r)} 0 0 1 ${n(endX)} ${n(endY)}` : '');
+
+  return [
+    `M${n(x + tl)} ${n(y)}`,
+    `H${n(x + width - tr)}`,
+    arc(tr, x + width, y + tr),
+    `V${n(y + height - br)}`,
+    arc(br, x + width - br, y + height),
+    `H${n(x + bl)}`,
+    arc(bl, x, y + height - bl),
+    `V${n(y + tl)}`,
+    arc(tl, x + tl, y),
+    'Z'
+  ].join('');
+}
+
+/**
+ * Path for a circle
+ */
+function circlePath(cx: number, cy: number, r: number): string {
+  return `M${n(cx - r)} ${n(cy)}a${n(r)} ${n(r)} 0 1 0 ${n(r * 2)} 0a${n(r)} ${n(r)} 0 1 0 ${n(-r * 2)} 0Z`;
+}
+
+/**
+ * Path for a diamond inscribed in a unit module
+ */
+function diamondPath(x: number, y: number): string {
+  return `M${n(x + 0.5)} ${n(y)}L${n(x + 1)} ${n(y + 0.5)}L${n(x + 0.5)} ${n(y + 1)}L${n(x)} ${n(y + 0.5)}Z`;
+}
+
+/**
+ * Check whether a module belongs to one of the three finder patterns
+ */
+function isFinderModule(matrix: QRMatrix, row: number, col: number): boolean {
+  return matrix.patterns.finders.some(finder =>
+    row >= finder.row && row < finder.row + finder.size &&
+    col >= finder.col && col < finder.col + finder.size
+  );
+}
+
+/**
+ * Check whether a module belongs to an alignment pattern
+ */
+function isAlignmentModule(matrix: QRMatrix, row: number, col: number): boolean {
+  return matrix.patterns.alignments.some(alignment =>
+    row >= alignment.row && row < alignment.row + alignment.size &&
+    col >= alignment.col && col < alignment.col + alignment.size
+  );
+}
+
+/**
+ * Check whether a module is dark, treating out-of-range positions as light
+ */
+function isDark(matrix: QRMatrix, row: number, col: number): boolean {
+  return row >= 0 && col >= 0 && row < matrix.size && col < matrix.size && matrix.modules[row][col];
+}
+
+/**
+ * Build the path for a single dark data module in the requested style.
+ * Rounded styles only round corners that are not joined to a neighbouring module,
+ * so adjacent modules flow into each other instead of breaking apart.
+ */
+function modulePath(matrix: QRMatrix, row: number, col: number, x: number, y: number, style: ModuleStyle): string {
+  if (style === 'dot') {
+    return circlePath(x + 0.5, y + 0.5, 0.5);
+  }
+
+  if (style === 'diamond') {
+    return diamondPath(x, y);
+  }
+
+  const top = isDark(matrix, row - 1, col);
+  const right = isDark(matrix, row, col + 1);
+  const bottom = isDark(matrix, row + 1, col);
+  const left = isDark(matrix, row, col - 1);
+
+  if (style === 'classy') {
+    // Leaf shape: only the top-left and bottom-right corners curve
+    return roundedRectPath(x, y, 1, 1, [
+      !top && !left ? 0.5 : 0,
+      0,
+      !bottom && !right ? 0.5 : 0,
+      0
+    ]);
+  }
+
+  const radius = style === 'extra-rounded' ? 0.5 : 0.3;
+  return roundedRectPath(x, y, 1, 1, [
+    !top && !left ? radius : 0,
+    !top && !right ? radius : 0,
+    !bottom && !right ? radius : 0,
+    !bottom && !left ? radius : 0
+  ]);
+}
+
+/**
+ * Build the outer ring (7x7 with a 5x5 hole) and inner block (3x3) of a finder pattern
+ */
+function finderPaths(x: number, y: number, style: FinderStyle): { outer: string; inner: string } {
+  switch (style) {
+    case 'dot':
+      return {
+        outer: circlePath(x + 3.5, y + 3.5, 3.5) + circlePath(x + 3.5, y + 3.5, 2.5),
+        inner: circlePath(x + 3.5, y + 3.5, 1.5)
+      };
+    case 'rounded':
+      return {
+        outer: roundedRectPath(x, y, 7, 7, [1.5, 1.5, 1.5, 1.5]) + roundedRectPath(x + 1, y + 1, 5, 5, [1, 1, 1, 1]),
+        inner: roundedRectPath(x + 2, y + 2, 3, 3, [0.75, 0.75, 0.75, 0.75])
+      };
+    case 'extra-rounded':
+      return {
+        outer: roundedRectPath(x, y, 7, 7, [2.5, 2.5, 2.5, 2.5]) + roundedRectPath(x + 1, y + 1, 5, 5, [1.5, 1.5, 1.5, 1.5]),
+        inner: roundedRectPath(x + 2, y + 2, 3, 3, [1.2, 1.2, 1.2, 1.2])
+      };
+    case 'classy':
+      return {
+        outer: roundedRectPath(x, y, 7, 7, [3, 0, 3, 0]) + roundedRectPath(x + 1, y + 1, 5, 5, [2, 0, 2, 0]),
+        inner: roundedRectPath(x + 2, y + 2, 3, 3, [1.5, 0, 1.5, 0])
+      };
+    default:
+      return {
+        outer: roundedRectPath(x, y, 7, 7, [0, 0, 0, 0]) + roundedRectPath(x + 1, y + 1, 5, 5, [0, 0, 0, 0]),
+        inner: roundedRectPath(x + 2, y + 2, 3, 3, [0, 0, 0, 0])
+      };
+  }
+}
+
+/**
+ * Build the square-module path.
+ * Horizontal runs of dark modules are merged into a single rectangle to keep the markup small.
+ */
+function buildSquarePath(matrix: QRMatrix, margin: number, skipFinders: boolean): string {
+  const { size, modules } = matrix;
+  const commands: string[] = [];
+
+  for (let row = 0; row < size; row++) {
+    let col = 0;
+    while (col < size) {
+      if (!modules[row][col] || (skipFinders && isFinderModule(matrix, row, col))) {
+        col++;
+        continue;
+      }
+
+      const start = col;
+      while (col < size && modules[row][col] && !(skipFinders && isFinderModule(matrix, row, col))) {
+        col++;
+      }
+
+      const length = col - start;
+      commands.push(`M${start + margin} ${row + margin}h${length}v1h-${length}z`);
+    }
+  }
+
+  return commands.join('');
+}
+
+/**
+ * Check whether the options need the custom renderer (styled shapes, gradients or eye colors)
+ */
+export function needsCustomRenderer(options: QROptions): boolean {
+  return (options.moduleStyle || 'square') !== 'square' ||
+    (options.finderStyle || 'square') !== 'square' ||
+    !!options.gradient ||
+    !!options.eyeColor?.outer ||
+    !!options.eyeColor?.inner;
+}
+
+/**
+ * Compute gradient coordinates spanning the symbol area (quiet zone excluded), in module units.
+ * Linear gradients are stretched so both ends reach the corners at any angle.
+ */
+function getGradientGeometry(gradient: QRGradient, matrix: QRMatrix, margin: number): GradientGeometry {
+  const center = margin + matrix.size / 2;
+  const half = matrix.size / 2;
+
+  if (gradient.type === 'radial') {
+    return { type: 'radial', cx: center, cy: center, r: half * Math.SQRT2 };
+  }
+
+  const angle = ((gradient.rotation || 0) * Math.PI) / 180;
+  const reach = half * (Math.abs(Math.cos(angle)) + Math.abs(Math.sin(angle)));
+  const dx = Math.cos(angle) * reach;
+  const dy = Math.sin(angle) * reach;
+  return { type: 'linear', x1: center - dx, y1: center - dy, x2: center + dx, y2: center + dy };
+}
+
+/**
+ * Sort gradient stops and clamp their offsets to the 0..1 range
+ */
+function normalizeStops(gradient: QRGradient): QRGradient['stops'] {
+  return [...gradient.stops]
+    .map(stop => ({ ...stop, offset: Math.min(1, Math.max(0, stop.offset)) }))
+    .sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Build the SVG definition for a gradient fill
+ */
+function svgGradientDefinition(id: string, gradient: QRGradient, geometry: GradientGeometry): string {
+  const stops = normalizeStops(gradient)
+    .map(stop => `<stop offset="${n(stop.offset)}" stop-color="${escapeAttribute(stop.color)}"/>`)
+    .join('');
+
+  if (geometry.type === 'radial') {
+    return `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${n(geometry.cx)}" cy="${n(geometry.cy)}" r="${n(geometry.r)}">${stops}</radialGradient>`;
+  }
+
+  return `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${n(geometry.x1)}" y1="${n(geometry.y1)}" x2="${n(geometry.x2)}" y2="${n(geometry.y2)}">${stops}</linearGradient>`;
+}
+
+/**
+ * Resolve the paint for modules and eyes; eyes fall back to the module paint
+ */
+function resolveFillColors(options: QROptions, modulePaint: string): FillColors {
+  return {
+    modules: modulePaint,
+    finderOuter: options.eyeColor?.outer || modulePaint,
+    finderInner: options.eyeColor?.inner || modulePaint
+  };
+}
+
+/**
+ * Build the styled paths for a matrix in module coordinates (margin included)
+ */
+function buildStyledPaths(matrix: QRMatrix, options: QROptions): StyledPaths {
+  const margin = options.margin || 1;
+  const moduleStyle = options.moduleStyle || 'square';
+  const finderStyle = options.finderStyle || 'square';
+
+  let modules = '';
+  if (moduleStyle === 'square') {
+    modules = buildSquarePath(matrix, margin, true);
+  } else {
+    const parts: string[] = [];
+    for (let row = 0; row < matrix.size; row++) {
+      for (let col = 0; col < matrix.size; col++) {
+        if (!matrix.modules[row][col] || isFinderModule(matrix, row, col)) {
+          continue;
+        }
+
+        // Diamonds cover only half a module, too little for scanners to lock onto alignment patterns
+        const style = moduleStyle === 'diamond' && isAlignmentModule(matrix, row, col) ? 'square' : moduleStyle;
+        parts.push(
+          style === 'square'
+            ? roundedRectPath(col + margin, row + margin, 1, 1, [0, 0, 0, 0])
+            : modulePath(matrix, row, col, col + margin, row + margin, style)
+        );
+      }
+    }
+    modules = parts.join('');
+  }
+
+  let finderOuter = '';
+  let finderInner = '';
+  for (const finder of matrix.patterns.finders) {
+    const paths = finderPaths(finder.col + margin, finder.row + margin, finderStyle);
+    finderOuter += paths.outer;
+    finderInner += paths.inner;
+  }
+
+  return { modules, finderOuter, finderInner };
+}
+
+/**
+ * Render a QR module matrix as SVG markup.
+ * Coordinates are expressed in modules and scaled through the viewBox, so the output stays crisp at any size.
+ */
+export function renderQRCodeSVG(matrix: QRMatrix, options: QROptions = {}): string {
+  const margin = options.margin || 1;
+  const width = options.width || 256;
+  const dark = escapeAttribute(options.color?.dark || '#000000');
+  const light = escapeAttribute(options.color?.light || '#FFFFFF');
+  const viewBoxSize = matrix.size + margin * 2;
+
+  if (!needsCustomRenderer(options)) {
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${width}" viewBox="0 0 ${viewBoxSize} ${viewBoxSize}" shape-rendering="crispEdges">`,
+      `<rect width="${viewBoxSize}" height="${viewBoxSize}" fill="${light}"/>`,
+      `<path fill="${dark}" d="${buildSquarePath(matrix, margin, false)}"/>`,
+      '</svg>'
+    ].join('');
+  }
+
+  const paths = buildStyledPaths(matrix, options);
+  const gradientId = 'qr-module-gradient';
+  const defs = options.gradient
+    ? `<defs>${svgGradientDefinition(gradientId, options.gradient, getGradientGeometry(options.gradient, matrix, margin))}</defs>`
+    : '';
+  const fills = resolveFillColors(options, options.gradient ? `url(#${gradientId})` : options.color?.dark || '#000000');
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${width}" viewBox="0 0 ${viewBoxSize} ${viewBoxSize}">`,
+    defs,
+    `<rect width="${viewBoxSize}" height="${viewBoxSize}" fill="${light}"/>`,
+    `<path fill="${escapeAttribute(fills.modules)}" d="${paths.modules}"/>`,
+    `<path fill="${escapeAttribute(fills.finderOuter)}" fill-rule="evenodd" d="${paths.finderOuter}"/>`,
+    `<path fill="${escapeAttribute(fills.finderInner)}" d="${paths.finderInner}"/>`,
+    '</svg>'
+  ].join('');
+}
+
+/**
+ * Create a canvas, falling back to OffscreenCanvas where there is no DOM (service worker)
+ */
+export function createCanvas(width: number, height: number): RenderCanvas {
+  if (typeof document !== 'undefined') {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  }
+
+  return new OffscreenCanvas(width, height);
+}
+
+/**
+ * Load an image (data URL, object URL or Blob) into something drawable on a canvas.
+ * Image elements are preferred where there is a DOM because createImageBitmap cannot decode SVG.
+ */
+export async function loadImageSource(source: string | Blob): Promise<HTMLImageElement | ImageBitmap> {
+  if (typeof Image !== 'undefined') {
+    const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+
+    try {
+      const image = new Image();
+      await new Promise((resolve, reject) => {
+        image.onload = resolve;
+        image.onerror = () => reject(new Error('Failed to load image'));
+        image.src = url;
+      });
+      return image;
+    } finally {
+      if (typeof source !== 'string') URL.revokeObjectURL(url);
+    }
+  }
+
+  const blob = typeof source === 'string' ? await (await fetch(source)).blob() : source;
+  return createImageBitmap(blob);
+}
+
+/**
+ * Render a QR module matrix onto a canvas using the same geometry as the SVG renderer
+ */
+export function renderQRCodeCanvas(matrix: QRMatrix, options: QROptions = {}): RenderCanvas {
+  const margin = options.margin || 1;
+  const width = options.width || 256;
+  const viewBoxSize = matrix.size + margin * 2;
+  const canvas = createCanvas(width, width);
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+
+  if (!ctx) {
+    throw new Error('Canvas context not available');
+  }
+
+  const paths = buildStyledPaths(matrix, options);
+  let modulePaint: string | CanvasGradient = options.color?.dark || '#000000';
+
+  ctx.fillStyle = options.color?.light || '#FFFFFF';
+  ctx.fillRect(0, 0, width, width);
+
+  ctx.save();
+  ctx.scale(width / viewBoxSize, width / viewBoxSize);
+
+  // Gradient coordinates are in module units, resolved against the scaled transform at fill time
+  if (options.gradient) {
+    const geometry = getGradientGeometry(options.gradient, matrix, margin);
+    const gradient = geometry.type === 'radial'
+      ? ctx.createRadialGradient(geometry.cx, geometry.cy, 0, geometry.cx, geometry.cy, geometry.r)
+      : ctx.createLinearGradient(geometry.x1, geometry.y1, geometry.x2, geometry.y2);
+    normalizeStops(options.gradient).forEach(stop => gradient.addColorStop(stop.offset, stop.color));
+    modulePaint = gradient;
+  }
+
+  ctx.fillStyle = modulePaint;
+  ctx.fill(new Path2D(paths.modules));
+  ctx.fillStyle = options.eyeColor?.outer || modulePaint;
+  ctx.fill(new Path2D(paths.finderOuter), 'evenodd');
+  ctx.fillStyle = options.eyeColor?.inner || modulePaint;
+  ctx.fill(new Path2D(paths.finderInner));
+  ctx.restore();
+
+  return canvas;
+}
+
+/**
+ * Encode a canvas as a data URL (OffscreenCanvas only offers blobs, so those are base64-encoded here)
+ */
+export async function canvasToDataUrl(canvas: RenderCanvas, type = 'image/png', quality?: number): Promise<string> {
+  if (!(typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas)) {
+    return (canvas as HTMLCanvasElement).toDataURL(type, quality);
+  }
+
+  const blob = await canvas.convertToBlob({ type, quality });
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+
+  return `data:${blob.type};base64,${btoa(binary)}`;
+}
+
+/**
+ * Wrap SVG markup in a data URL so it can be downloaded, previewed or zipped like raster output
+ */
+export function svgToDataUrl(svg: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
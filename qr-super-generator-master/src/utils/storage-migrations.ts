@@ -0,0 +1,207 @@
+/**
+ * Storage schema migrations for QR Super Generator
+ * Moves data written by older versions into the current storage layout
+ */
+
+import type { AnalyticsData, ExtensionSettings, QRCodeData } from '../types';
+import { getFromStorage, removeFromStorage, saveToStorage, StorageData } from './chrome-apis';
+import { STORAGE_KEYS } from './storage';
+import { putHistoryItems } from './history-db';
+
+interface StorageMigration {
+  version: number;
+  description: string;
+  // Receives a snapshot of everything in storage and returns the migrated snapshot
+  migrate: (data: StorageData) => StorageData | Promise<StorageData>;
+}
+
+// Keys written by versions before the schema was versioned
+const LEGACY_KEYS = {
+  QR_OPTIONS: 'qrOptions',
+  ANALYTICS: 'analytics',
+  PREFERENCES: 'preferences',
+  HISTORY: 'qrHistory',
+  TYPED_PREFERENCES: 'qr_preferences',
+  USER_PREFERENCES: 'user_preferences',
+  TYPED_ANALYTICS: 'qr_analytics'
+} as const;
+
+// Generated history was kept in chrome.storage until schema v2 moved it to IndexedDB
+const STORAGE_HISTORY_KEY = 'qr_history';
+
+/**
+ * Combine analytics recorded under different keys. Each key was fed by a
+ * different code path, so counters add up rather than overwrite each other.
+ */
+function mergeAnalytics(...sources: Array<Partial<AnalyticsData> | undefined>): Partial<AnalyticsData> {
+  const present = sources.filter((source): source is Partial<AnalyticsData> => !!source);
+  if (present.length === 0) return {};
+
+  const sum = (key: 'qrCodesGenerated' | 'timesOpened' | 'totalDownloads') =>
+    present.reduce((total, source) => total + (source[key] || 0), 0);
+  const pick = (key: 'installDate' | 'lastGenerated' | 'lastOpened', latest: boolean) => {
+    const dates = present.map(source => source[key]).filter((date): date is string => !!date).sort();
+    return latest ? dates[dates.length - 1] : dates[0];
+  };
+
+  const featuresUsed: Record<string, number> = {};
+  present.forEach(source => {
+    Object.entries(source.featuresUsed || {}).forEach(([feature, count]) => {
+      featuresUsed[feature] = (featuresUsed[feature] || 0) + (count || 0);
+    });
+  });
+
+  const merged: Partial<AnalyticsData> = {
+    ...Object.assign({}, ...[...present].reverse()),
+    qrCodesGenerated: sum('qrCodesGenerated'),
+    timesOpened: sum('timesOpened'),
+    totalDownloads: sum('totalDownloads'),
+    featuresUsed
+  };
+
+  const installDate = pick('installDate', false);
+  const lastGenerated = pick('lastGenerated', true);
+  const lastOpened = pick('lastOpened', true);
+  if (installDate) merged.installDate = installDate;
+  if (lastGenerated) merged.lastGenerated = lastGenerated;
+  if (lastOpened) merged.lastOpened = lastOpened;
+
+  return merged;
+}
+
+/**
+ * Merge history lists, newest first, keeping the first copy of each id
+ */
+function mergeHistory(...lists: unknown[]): QRCodeData[] {
+  const seen = new Set<number>();
+  const merged: QRCodeData[] = [];
+
+  lists.forEach(list => {
+    if (!Array.isArray(list)) return;
+    list.forEach((item: QRCodeData) => {
+      if (!item || typeof item.text !== 'string' || seen.has(item.id)) return;
+      seen.add(item.id);
+      merged.push(item);
+    });
+  });
+
+  return merged.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+}
+
+// Ordered list of migrations; each runs once, when the stored schema version is below its own
+const MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Consolidate background and legacy keys into qr_settings / qr_history',
+    migrate: (data) => {
+      const settings: Partial<ExtensionSettings> = data[STORAGE_KEYS.SETTINGS] || {};
+      const migrated: StorageData = { ...data };
+
+      // Values saved under the canonical key are the most recent user choices
+      migrated[STORAGE_KEYS.SETTINGS] = {
+        ...settings,
+        qrOptions: {
+          ...data[LEGACY_KEYS.QR_OPTIONS],
+          ...settings.qrOptions
+        },
+        preferences: {
+          ...data[LEGACY_KEYS.PREFERENCES],
+          ...data[LEGACY_KEYS.USER_PREFERENCES],
+          ...data[LEGACY_KEYS.TYPED_PREFERENCES],
+          ...settings.preferences
+        },
+        analytics: mergeAnalytics(settings.analytics, data[LEGACY_KEYS.ANALYTICS], data[LEGACY_KEYS.TYPED_ANALYTICS])
+      };
+
+      migrated[STORAGE_HISTORY_KEY] = mergeHistory(data[STORAGE_HISTORY_KEY], data[LEGACY_KEYS.HISTORY]);
+
+      if (data[STORAGE_KEYS.DECODED_HISTORY] !== undefined && !Array.isArray(data[STORAGE_KEYS.DECODED_HISTORY])) {
+        migrated[STORAGE_KEYS.DECODED_HISTORY] = [];
+      }
+
+      Object.values(LEGACY_KEYS).forEach(key => delete migrated[key]);
+      return migrated;
+    }
+  },
+  {
+    version: 2,
+    description: 'Move generated QR history into IndexedDB',
+    migrate: async (data) => {
+      const history = mergeHistory(data[STORAGE_HISTORY_KEY]);
+      // Entries without an image were already hidden as corrupted; there is nothing to store for them
+      const storable = history.filter(item => typeof item.dataUrl === 'string' && item.dataUrl.startsWith('data:image/'));
+
+      if (storable.length < history.length) {
+        console.warn(`Skipped ${history.length - storable.length} history entries without an image`);
+      }
+
+      // Writes are keyed by id, so a re-run after an interruption just overwrites
+      await putHistoryItems(storable);
+
+      const migrated: StorageData = { ...data };
+      delete migrated[STORAGE_HISTORY_KEY];
+      return migrated;
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Get the schema version of the data in storage (0 for unversioned data)
+ */
+export async function getSchemaVersion(): Promise<number> {
+  const result = await getFromStorage(STORAGE_KEYS.SCHEMA_VERSION);
+  return result[STORAGE_KEYS.SCHEMA_VERSION] || 0;
+}
+
+/**
+ * Bring a storage snapshot written by an older version (e.g. an imported backup)
+ * up to the current schema. History in the snapshot is moved into IndexedDB,
+ * the same as during an update.
+ */
+export async function migrateStorageSnapshot(data: StorageData): Promise<StorageData> {
+  const version: number = data[STORAGE_KEYS.SCHEMA_VERSION] || 0;
+  let migrated: StorageData = JSON.parse(JSON.stringify(data));
+
+  for (const migration of MIGRATIONS.filter(migration => migration.version > version)) {
+    migrated = await migration.migrate(migrated);
+  }
+
+  return { ...migrated, [STORAGE_KEYS.SCHEMA_VERSION]: Math.max(version, CURRENT_SCHEMA_VERSION) };
+}
+
+/**
+ * Run every pending migration in order and record the resulting schema version.
+ * Changed keys and the new version are written together before legacy keys are
+ * removed, so an interrupted run never loses data or re-applies a migration.
+ */
+export async function runStorageMigrations(): Promise<number> {
+  const storedVersion = await getSchemaVersion();
+  const pending = MIGRATIONS.filter(migration => migration.version > storedVersion);
+
+  for (const migration of pending) {
+    try {
+      const data = await getFromStorage(null);
+      const migrated = await migration.migrate(JSON.parse(JSON.stringify(data)));
+
+      const changes: StorageData = {};
+      Object.keys(migrated).forEach(key => {
+        if (JSON.stringify(migrated[key]) !== JSON.stringify(data[key])) {
+          changes[key] = migrated[key];
+        }
+      });
+      const removed = Object.keys(data).filter(key => !(key in migrated));
+
+      await saveToStorage({ ...changes, [STORAGE_KEYS.SCHEMA_VERSION]: migration.version });
+      if (removed.length > 0) {
+        await removeFromStorage(removed);
+      }
+    } catch (error) {
+      console.error(`Storage migration to v${migration.version} failed:`, error);
+      throw new Error(`Storage migration to v${migration.version} failed`);
+    }
+  }
+
+  return pending.length > 0 ? pending[pending.length - 1].version : storedVersion;
+}
@@ -6,21 +6,78 @@
 import type {
   ExtensionSettings,
   QRCodeData,
+  DecodedQRData,
   UserPreferences,
   AnalyticsData,
-  QRGenerationOptions
+  QRCollection,
+  QRGenerationOptions,
+  QRRevision,
+  QRTemplate,
+  TrashedQRCodeData
 } from '../types';
-
-// Storage keys
+import {
+  countHistory,
+  countTrash,
+  countHistoryBy,
+  createHistoryFilter,
+  deleteHistoryItems,
+  deleteTrashItems,
+  getAllAssets,
+  getHistoryItem,
+  getHistoryPage,
+  getHistoryEntries,
+  getHistoryIdsBy,
+  getHistoryRevisions,
+  getHistorySignature,
+  getRevisedRootIds,
+  getTrashPage,
+  HistoryPage,
+  HistoryQuery,
+  moveHistoryToTrash,
+  pruneHistory,
+  purgeTrash,
+  putHistoryItems,
+  restoreTrashItems,
+  removeUnusedAssets,
+  saveAsset,
+  updateHistoryItems
+} from './history-db';
+import { getRecipeThumbnail } from './qr-recipe';
+import { migrateStorageSnapshot } from './storage-migrations';
+import {
+  buildSearchIndex,
+  HistorySearchIndex,
+  isEmptySearchQuery,
+  parseSearchQuery,
+  searchIndex
+} from './history-search';
+
+// Storage keys (the one storage layout; see storage-migrations.ts for older ones)
 export const STORAGE_KEYS = {
+  SCHEMA_VERSION: 'schema_version',
   SETTINGS: 'qr_settings',
-  HISTORY: 'qr_history',
-  ANALYTICS: 'qr_analytics',
-  PREFERENCES: 'user_preferences',
+  DECODED_HISTORY: 'qr_decoded_history',
   RECENT_COLORS: 'recent_colors',
-  TEMPLATES: 'qr_templates'
+  TEMPLATES: 'qr_templates',
+  COLLECTIONS: 'qr_collections'
 } as const;
 
+// Search index over history, rebuilt only when history has changed
+let searchIndexCache: { signature: string; index: HistorySearchIndex } | null = null;
+
+// Tags are stored lower-case so "Work" and "work" are the same tag
+const MAX_TAG_LENGTH = 32;
+
+// Generated QR history lives in IndexedDB; this many entries are kept unless the user changes it
+export const DEFAULT_HISTORY_RETENTION = 5000;
+
+// Deleted codes wait this many days in the trash before they are purged
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Kept by clearAllStorage: the schema version (so migrations don't run again), settings,
+// and the collections that trashed entries still belong to
+const PRESERVED_STORAGE_KEYS: string[] = [STORAGE_KEYS.SCHEMA_VERSION, STORAGE_KEYS.SETTINGS, STORAGE_KEYS.COLLECTIONS];
+
 // Default settings
 const DEFAULT_SETTINGS: ExtensionSettings = {
   qrOptions: {
@@ -41,7 +98,9 @@ const DEFAULT_SETTINGS: ExtensionSettings = {
     defaultQRType: 'url',
     batchLimit: 50,
     compressionLevel: 'medium',
-    copyBehavior: 'image'
+    copyBehavior: 'image',
+    historyRetention: DEFAULT_HISTORY_RETENTION,
+    trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS
   },
   analytics: {
     enabled: true,
@@ -140,11 +199,101 @@ export async function setUserPreferences(preferences: Partial<UserPreferences>):
 }
 
 /**
- * Get QR code history
+ * Fill in preview images for entries stored as recipes
+ */
+async function withPreviews(items: QRCodeData[]): Promise<QRCodeData[]> {
+  return Promise.all(items.map(async item => {
+    if (item.dataUrl || !item.recipe) return item;
+
+    try {
+      return { ...item, dataUrl: await getRecipeThumbnail(item.recipe) };
+    } catch (error) {
+      console.error(`Failed to render QR code ${item.id}:`, error);
+      return item;
+    }
+  }));
+}
+
+/**
+ * Get QR code history, newest first
  */
 export async function getQRHistory(limit = 50): Promise<QRCodeData[]> {
-  const history = await getStorageData<QRCodeData[]>(STORAGE_KEYS.HISTORY, []);
-  return history.slice(0, limit);
+  const page = await getHistoryPage({ limit });
+  return withPreviews(page.items);
+}
+
+/**
+ * Get one page of QR code history
+ */
+export async function getQRHistoryPage(query: HistoryQuery = {}): Promise<HistoryPage> {
+  const page = await getHistoryPage(query);
+  return { ...page, items: await withPreviews(page.items) };
+}
+
+/**
+ * Get every QR code in history without images (for statistics), newest first
+ */
+export async function getQRHistoryEntries(): Promise<Array<Omit<QRCodeData, 'dataUrl'>>> {
+  return getHistoryEntries();
+}
+
+/**
+ * Count all QR codes in history
+ */
+export async function getQRHistoryCount(): Promise<number> {
+  return countHistory();
+}
+
+/**
+ * Get the search index over history, building it again if history changed
+ */
+async function getSearchIndex(): Promise<HistorySearchIndex> {
+  const signature = await getHistorySignature();
+  if (searchIndexCache?.signature !== signature) {
+    searchIndexCache = { signature, index: buildSearchIndex(await getHistoryEntries()) };
+  }
+  return searchIndexCache.index;
+}
+
+export interface HistorySearchPage extends HistoryPage {
+  // Words that matched in each returned entry, for highlighting
+  matches: Record<number, string[]>;
+  // Parts of the search that could not be understood
+  errors: string[];
+}
+
+/**
+ * Search QR code history with a query such as `github type:url tag:work before:2026-01-01 size:>512`.
+ * Query filters (type, tag, collection, favorites) narrow the results further;
+ * results are ranked by relevance unless the oldest come first.
+ */
+export async function searchQRHistory(search: string, query: HistoryQuery = {}): Promise<HistorySearchPage> {
+  const { offset = 0, limit = 50, order = 'newest' } = query;
+  const parsed = parseSearchQuery(search);
+
+  if (isEmptySearchQuery(parsed)) {
+    const page = await getQRHistoryPage(query);
+    return { ...page, matches: {}, errors: parsed.errors };
+  }
+
+  const index = await getSearchIndex();
+  const results = searchIndex(index, parsed, createHistoryFilter(query));
+  if (order === 'oldest') {
+    const time = (id: number) => index.documents.get(id)?.time || 0;
+    results.sort((a, b) => time(a.id) - time(b.id));
+  }
+
+  const pageResults = results.slice(offset, offset + limit);
+  const items = await Promise.all(pageResults.map(result => getHistoryItem(result.id)));
+
+  return {
+    items: await withPreviews(items.filter((item): item is QRCodeData => !!item)),
+    total: results.length,
+    offset,
+    hasMore: offset + pageResults.length < results.length,
+    matches: Object.fromEntries(pageResults.map(result => [result.id, result.matches])),
+    errors: parsed.errors
+  };
 }
 
 /**
@@ -153,23 +302,25 @@ export async function getQRHistory(limit = 50): Promise<QRCodeData[]> {
 export async function addToQRHistory(qrData: QRCodeData): Promise<void> {
   try {
     // Validate QR data before saving
-    if (!qrData || !qrData.dataUrl || !qrData.text || !qrData.timestamp) {
+    if (!qrData || !qrData.text || !qrData.timestamp || (!qrData.dataUrl && !qrData.recipe)) {
       throw new Error('Invalid QR data provided');
     }
 
-    // Ensure dataUrl is a valid data URL
-    if (!qrData.dataUrl.startsWith('data:image/')) {
+    // Entries without a recipe keep their image, which must be a valid data URL
+    if (!qrData.recipe && !qrData.dataUrl.startsWith('data:image/')) {
       throw new Error('Invalid QR code data URL');
     }
 
-    const history = await getStorageData<QRCodeData[]>(STORAGE_KEYS.HISTORY, []);
-    
     // Remove duplicates based on text content and timestamp proximity (within 1 minute)
-    const oneMinuteAgo = Date.now() - 60000;
-    const filteredHistory = history.filter(item => 
-      item.text !== qrData.text || 
-      new Date(item.timestamp).getTime() < oneMinuteAgo
-    );
+    const oneMinuteAgo = new Date(Date.now() - 60000).toISOString();
+    const recent = await getHistoryEntries(oneMinuteAgo);
+    // Entries in a revision chain, and entries the user has tagged, starred or filed, are kept even when the text is unchanged
+    const revisedIds = await getRevisedRootIds();
+    const duplicates = recent
+      .filter(item => item.text === qrData.text)
+      .filter(item => !item.revision && !revisedIds.has(item.id) && item.id !== qrData.revision?.rootId)
+      .filter(item => !item.favorite && !item.collectionId && !item.tags?.length)
+      .map(item => item.id);
     
     // Ensure QR data has required fields with defaults
     const validatedQrData: QRCodeData = {
@@ -188,10 +339,16 @@ export async function addToQRHistory(qrData: QRCodeData): Promise<void> {
       }
     };
     
-    // Add new item to beginning
-    const newHistory = [validatedQrData, ...filteredHistory].slice(0, 100); // Keep max 100 items
-    
-    await setStorageData(STORAGE_KEYS.HISTORY, newHistory);
+    if (duplicates.length > 0) {
+      await deleteHistoryItems(duplicates);
+    }
+    await putHistoryItems([validatedQrData]);
+
+    const preferences = await getUserPreferences();
+    const pruned = await pruneHistory(preferences.historyRetention || DEFAULT_HISTORY_RETENTION);
+    if (duplicates.length > 0 || pruned > 0) {
+      await removeUnusedAssets(await getTemplateAssetIds());
+    }
   } catch (error) {
     console.error('Failed to save QR to history:', error);
     throw error;
@@ -199,19 +356,278 @@ export async function addToQRHistory(qrData: QRCodeData): Promise<void> {
 }
 
 /**
- * Clear QR code history
+ * Build the revision link for a code saved by editing `parent`
+ */
+export async function createRevisionLink(parent: QRCodeData): Promise<QRRevision> {
+  const rootId = parent.revision?.rootId ?? parent.id;
+  const revisions = await getHistoryRevisions(rootId);
+  const latest = revisions.reduce((max, item) => Math.max(max, item.revision?.number || 1), parent.revision?.number || 1);
+
+  return { rootId, parentId: parent.id, number: latest + 1 };
+}
+
+/**
+ * Get the full revision chain an entry belongs to, oldest first.
+ * The root is missing from the chain if it has been deleted.
+ */
+export async function getQRRevisionChain(item: QRCodeData): Promise<QRCodeData[]> {
+  const rootId = item.revision?.rootId ?? item.id;
+  const [root, revisions] = await Promise.all([getHistoryItem(rootId), getHistoryRevisions(rootId)]);
+  return withPreviews(root ? [root, ...revisions] : revisions);
+}
+
+/**
+ * Get the ids of entries that have been edited into later revisions
+ */
+export async function getRevisedQRIds(): Promise<Set<number>> {
+  return getRevisedRootIds();
+}
+
+/**
+ * Move every QR code in history to the trash.
+ * Returns the ids that were moved, so the action can be undone.
+ */
+export async function clearQRHistory(): Promise<number[]> {
+  return moveHistoryToTrash('all');
+}
+
+/**
+ * Move specific QR codes from history to the trash.
+ * Returns the ids that were moved, so the action can be undone.
+ */
+export async function removeFromQRHistory(ids: number | number[]): Promise<number[]> {
+  return moveHistoryToTrash(Array.isArray(ids) ? ids : [ids]);
+}
+
+/**
+ * Get a page of QR codes in the trash, most recently deleted first
+ */
+export async function getTrashedQRCodes(query: Pick<HistoryQuery, 'offset' | 'limit'> = {}): Promise<{
+  items: TrashedQRCodeData[];
+  total: number;
+  offset: number;
+  hasMore: boolean;
+}> {
+  const page = await getTrashPage(query);
+  const previews = await withPreviews(page.items);
+  return { ...page, items: page.items.map((item, i) => ({ ...item, dataUrl: previews[i].dataUrl })) };
+}
+
+/**
+ * Count QR codes in the trash
+ */
+export async function getTrashCount(): Promise<number> {
+  return countTrash();
+}
+
+/**
+ * Move QR codes from the trash back into history (every one with 'all')
+ */
+export async function restoreQRCodes(ids: number[] | 'all'): Promise<number[]> {
+  return restoreTrashItems(ids);
+}
+
+/**
+ * Permanently delete QR codes from the trash (every one with 'all')
+ */
+export async function deleteQRCodesPermanently(ids: number[] | 'all'): Promise<void> {
+  await deleteTrashItems(ids);
+  await removeUnusedAssets(await getTemplateAssetIds());
+}
+
+/**
+ * Permanently delete QR codes that have been in the trash longer than the user's
+ * trash retention. Returns how many were removed.
+ */
+export async function purgeExpiredTrash(): Promise<number> {
+  const preferences = await getUserPreferences();
+  const days = preferences.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+  if (days <= 0) return 0;
+
+  const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const purged = await purgeTrash(cutoff);
+  if (purged > 0) {
+    await removeUnusedAssets(await getTemplateAssetIds());
+  }
+  return purged;
+}
+
+/**
+ * Change how many days deleted QR codes stay in the trash (0 keeps them until emptied)
+ */
+export async function setTrashRetention(days: number): Promise<void> {
+  if (!Number.isInteger(days) || days < 0) {
+    throw new Error('Trash retention must be zero or a positive whole number of days');
+  }
+
+  await setUserPreferences({ trashRetentionDays: days });
+  await purgeExpiredTrash();
+}
+
+/**
+ * Change how many history entries are kept, dropping the oldest beyond the new limit
+ */
+export async function setHistoryRetention(maxItems: number): Promise<void> {
+  if (!Number.isInteger(maxItems) || maxItems < 1) {
+    throw new Error('History retention must be a positive whole number');
+  }
+
+  await setUserPreferences({ historyRetention: maxItems });
+  if (await pruneHistory(maxItems) > 0) {
+    await removeUnusedAssets(await getTemplateAssetIds());
+  }
+}
+
+/**
+ * Clean up tag input: trimmed, lower-case, single-spaced, unique and not too long
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const cleaned = tags
+    .map(tag => tag.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH))
+    .filter(tag => tag.length > 0);
+  return Array.from(new Set(cleaned));
+}
+
+/**
+ * Add tags to QR codes in history
+ */
+export async function addTagsToQRCodes(ids: number[], tags: string[]): Promise<void> {
+  const added = normalizeTags(tags);
+  if (added.length === 0) return;
+
+  await updateHistoryItems(ids, item => ({ tags: normalizeTags([...(item.tags || []), ...added]) }));
+}
+
+/**
+ * Remove a tag from QR codes in history
+ */
+export async function removeTagFromQRCodes(ids: number[], tag: string): Promise<void> {
+  const [removed] = normalizeTags([tag]);
+  await updateHistoryItems(ids, item => {
+    const tags = (item.tags || []).filter(existing => existing !== removed);
+    return { tags: tags.length > 0 ? tags : undefined };
+  });
+}
+
+/**
+ * Get every tag in use with how many QR codes carry it, most used first
+ */
+export async function getQRTags(): Promise<Array<{ tag: string; count: number }>> {
+  const counts = await countHistoryBy('tags');
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Mark QR codes as favorites, or unmark them
+ */
+export async function setQRFavorite(ids: number | number[], favorite: boolean): Promise<void> {
+  await updateHistoryItems(Array.isArray(ids) ? ids : [ids], () => ({ favorite: favorite || undefined }));
+}
+
+/**
+ * Get QR collections (folders), in the order they were created
+ */
+export async function getQRCollections(): Promise<QRCollection[]> {
+  return await getStorageData<QRCollection[]>(STORAGE_KEYS.COLLECTIONS, []);
+}
+
+/**
+ * Count QR codes in each collection, keyed by collection id
+ */
+export async function getQRCollectionCounts(): Promise<Map<string, number>> {
+  return countHistoryBy('collectionId');
+}
+
+/**
+ * Create a QR collection
+ */
+export async function createQRCollection(name: string): Promise<QRCollection> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Collection name is required');
+  }
+
+  const collections = await getQRCollections();
+  if (collections.some(collection => collection.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new Error(`A collection named "${trimmed}" already exists`);
+  }
+
+  const collection: QRCollection = {
+    id: `collection-${Date.now()}`,
+    name: trimmed,
+    createdAt: new Date().toISOString()
+  };
+  await setStorageData(STORAGE_KEYS.COLLECTIONS, [...collections, collection]);
+  return collection;
+}
+
+/**
+ * Rename a QR collection
+ */
+export async function renameQRCollection(id: string, name: string): Promise<void> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Collection name is required');
+  }
+
+  const collections = await getQRCollections();
+  await setStorageData(
+    STORAGE_KEYS.COLLECTIONS,
+    collections.map(collection => (collection.id === id ? { ...collection, name: trimmed } : collection))
+  );
+}
+
+/**
+ * Delete a QR collection. Its QR codes stay in history, outside any collection.
+ */
+export async function deleteQRCollection(id: string): Promise<void> {
+  const ids = await getHistoryIdsBy('collectionId', id);
+  await updateHistoryItems(ids, () => ({ collectionId: undefined }));
+
+  const collections = await getQRCollections();
+  await setStorageData(STORAGE_KEYS.COLLECTIONS, collections.filter(collection => collection.id !== id));
+}
+
+/**
+ * Move QR codes into a collection, or out of any collection with null
+ */
+export async function moveQRCodesToCollection(ids: number[], collectionId: string | null): Promise<void> {
+  if (collectionId !== null) {
+    const collections = await getQRCollections();
+    if (!collections.some(collection => collection.id === collectionId)) {
+      throw new Error('Collection not found');
+    }
+  }
+
+  await updateHistoryItems(ids, () => ({ collectionId: collectionId ?? undefined }));
+}
+
+/**
+ * Get history of QR codes decoded from images
  */
-export async function clearQRHistory(): Promise<void> {
-  await setStorageData(STORAGE_KEYS.HISTORY, []);
+export async function getDecodedHistory(limit = 50): Promise<DecodedQRData[]> {
+  const history = await getStorageData<DecodedQRData[]>(STORAGE_KEYS.DECODED_HISTORY, []);
+  return history.slice(0, limit);
 }
 
 /**
- * Remove specific QR from history
+ * Add decoded QR codes to the decoded history
  */
-export async function removeFromQRHistory(id: number): Promise<void> {
-  const history = await getStorageData<QRCodeData[]>(STORAGE_KEYS.HISTORY, []);
-  const filtered = history.filter(item => item.id !== id);
-  await setStorageData(STORAGE_KEYS.HISTORY, filtered);
+export async function addToDecodedHistory(entries: DecodedQRData[]): Promise<void> {
+  try {
+    if (entries.some(entry => !entry.text || !entry.timestamp)) {
+      throw new Error('Invalid decoded QR data provided');
+    }
+
+    const history = await getStorageData<DecodedQRData[]>(STORAGE_KEYS.DECODED_HISTORY, []);
+    const newHistory = [...entries, ...history].slice(0, 100); // Keep max 100 items
+
+    await setStorageData(STORAGE_KEYS.DECODED_HISTORY, newHistory);
+  } catch (error) {
+    console.error('Failed to save decoded QR to history:', error);
+    throw error;
+  }
 }
 
 /**
@@ -280,14 +696,22 @@ export async function addRecentColor(color: string): Promise<void> {
 /**
  * Get QR templates
  */
-export async function getQRTemplates(): Promise<any[]> {
-  return await getStorageData<any[]>(STORAGE_KEYS.TEMPLATES, []);
+export async function getQRTemplates(): Promise<QRTemplate[]> {
+  return await getStorageData<QRTemplate[]>(STORAGE_KEYS.TEMPLATES, []);
+}
+
+/**
+ * Logo assets referenced by templates, which must survive history cleanup
+ */
+async function getTemplateAssetIds(): Promise<string[]> {
+  const templates = await getQRTemplates();
+  return templates.flatMap(template => (template.recipe?.logo ? [template.recipe.logo.assetId] : []));
 }
 
 /**
  * Save QR template
  */
-export async function saveQRTemplate(template: any): Promise<void> {
+export async function saveQRTemplate(template: QRTemplate): Promise<void> {
   const templates = await getQRTemplates();
   const newTemplates = [template, ...templates].slice(0, 20); // Keep max 20 templates
   await setStorageData(STORAGE_KEYS.TEMPLATES, newTemplates);
@@ -333,6 +757,10 @@ export async function initializeStorage(): Promise<void> {
  * Export all storage data (for backup)
  */
 export async function exportStorageData(): Promise<string> {
+  // Recipe entries are exported as recipes; their logos travel alongside as assets
+  const history = await getHistoryPage({ limit: Infinity });
+  const assets = await getAllAssets();
+
   return new Promise((resolve, reject) => {
     chrome.storage.local.get(null, (result) => {
       if (chrome.runtime.lastError) {
@@ -343,7 +771,9 @@ export async function exportStorageData(): Promise<string> {
       const exportData = {
         timestamp: new Date().toISOString(),
         version: chrome.runtime.getManifest()?.version || '1.0.0',
-        data: result
+        data: result,
+        history: history.items,
+        assets
       };
       
       resolve(JSON.stringify(exportData, null, 2));
@@ -361,9 +791,22 @@ export async function importStorageData(jsonData: string): Promise<void> {
     if (!importData.data) {
       throw new Error('Invalid backup format');
     }
+
+    // Backups from before the current schema keep history and settings under older keys
+    const data = await migrateStorageSnapshot(importData.data);
+
+    if (Array.isArray(importData.assets)) {
+      for (const asset of importData.assets) {
+        await saveAsset(asset.dataUrl);
+      }
+    }
+
+    if (Array.isArray(importData.history)) {
+      await putHistoryItems(importData.history);
+    }
     
     return new Promise((resolve, reject) => {
-      chrome.storage.local.set(importData.data, () => {
+      chrome.storage.local.set(data, () => {
         if (chrome.runtime.lastError) {
           reject(new Error(chrome.runtime.lastError.message));
           return;
@@ -381,18 +824,30 @@ export async function importStorageData(jsonData: string): Promise<void> {
 }
 
 /**
- * Clear all storage data
+ * Clear stored data. Generated history goes to the trash rather than being
+ * deleted, so it can still be restored until the trash is purged. This is not a
+ * factory reset: the schema version, settings and collections are kept.
  */
 export async function clearAllStorage(): Promise<void> {
+  await moveHistoryToTrash('all');
+
   return new Promise((resolve, reject) => {
-    chrome.storage.local.clear(() => {
+    chrome.storage.local.get(null, (result) => {
       if (chrome.runtime.lastError) {
         reject(new Error(chrome.runtime.lastError.message));
         return;
       }
-      
-      cache.clear();
-      resolve();
+
+      const keys = Object.keys(result).filter(key => !PRESERVED_STORAGE_KEYS.includes(key));
+      chrome.storage.local.remove(keys, () => {
+        if (chrome.runtime.lastError) {
+          reject(new Error(chrome.runtime.lastError.message));
+          return;
+        }
+
+        cache.clear();
+        resolve();
+      });
     });
   });
 }
@@ -435,9 +890,35 @@ export default {
   getUserPreferences,
   setUserPreferences,
   getQRHistory,
+  getQRHistoryPage,
+  getQRHistoryCount,
+  getQRHistoryEntries,
+  searchQRHistory,
   addToQRHistory,
   clearQRHistory,
   removeFromQRHistory,
+  setHistoryRetention,
+  getTrashedQRCodes,
+  getTrashCount,
+  restoreQRCodes,
+  deleteQRCodesPermanently,
+  purgeExpiredTrash,
+  setTrashRetention,
+  createRevisionLink,
+  getQRRevisionChain,
+  getRevisedQRIds,
+  addTagsToQRCodes,
+  removeTagFromQRCodes,
+  getQRTags,
+  setQRFavorite,
+  getQRCollections,
+  getQRCollectionCounts,
+  createQRCollection,
+  renameQRCollection,
+  deleteQRCollection,
+  moveQRCodesToCollection,
+  getDecodedHistory,
+  addToDecodedHistory,
   getAnalytics,
   updateAnalytics,
   trackQRGeneration,
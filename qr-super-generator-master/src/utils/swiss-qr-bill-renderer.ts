@@ -0,0 +1,278 @@
+/**
+ * Swiss QR-bill layout for QR Super Generator
+ * Lays out the receipt and the A6 payment part in millimetres, and renders them as SVG.
+ * The PDF exporter draws the same layout.
+ */
+
+import type { SwissAddress, SwissQRBill } from '../types';
+import { generateQRMatrix, QRMatrix } from './qr-generator';
+import {
+  buildSwissQRBillPayload,
+  formatSwissAccount,
+  formatSwissAmount,
+  formatSwissReference,
+  getSwissAddressLines,
+  getSwissCrossRects,
+  validateSwissQRBill
+} from './swiss-qr-bill';
+
+export interface SwissBillRenderOptions {
+  // Include the 62 mm receipt left of the payment part, as printed at the bottom of an A4 invoice
+  receipt?: boolean;
+}
+
+// Positions are in millimetres from the top left of the slip; text y is the baseline and size is in points
+export type SwissBillElement =
+  | { kind: 'text'; x: number; y: number; size: number; bold?: boolean; align?: 'start' | 'end'; text: string }
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; fill: 'black' | 'white' }
+  | { kind: 'line'; points: Array<[number, number]>; width: number; dashed?: boolean }
+  | { kind: 'qr'; x: number; y: number; size: number; matrix: QRMatrix };
+
+export interface SwissBillLayout {
+  width: number;
+  height: number;
+  elements: SwissBillElement[];
+}
+
+export const SWISS_BILL_HEIGHT = 105;
+export const SWISS_PAYMENT_PART_WIDTH = 148;
+export const SWISS_RECEIPT_WIDTH = 62;
+
+// Dimensions from the QR-bill style guide
+const QR_CODE_SIZE = 46;
+const SWISS_CROSS_SIZE = 7;
+const MARGIN = 5;
+const PT_TO_MM = 25.4 / 72;
+
+// Font sizes and line spacing in points for the receipt and the payment part
+const RECEIPT_FONTS = { heading: 6, value: 8, line: 9 };
+const PAYMENT_FONTS = { heading: 8, value: 10, line: 11 };
+const TITLE_SIZE = 11;
+
+/**
+ * Split text into lines that fit the width; Helvetica averages roughly half an em per glyph
+ */
+function wrapText(text: string, width: number, size: number): string[] {
+  const maxChars = Math.max(1, Math.floor(width / (size * PT_TO_MM * 0.52)));
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.replace(/\s+/g, ' ').trim().split(' ')) {
+    if (line && `${line} ${word}`.length > maxChars) {
+      lines.push(line);
+      line = '';
+    }
+    // Words longer than a line are hard-broken
+    let rest = line ? `${line} ${word}` : word;
+    while (rest.length > maxChars) {
+      lines.push(rest.slice(0, maxChars));
+      rest = rest.slice(maxChars);
+    }
+    line = rest;
+  }
+  if (line) lines.push(line);
+
+  return lines;
+}
+
+/**
+ * Corner marks framing a blank field the payer fills in by hand
+ */
+function cornerMarks(x: number, y: number, width: number, height: number): SwissBillElement[] {
+  const arm = 3;
+  const line = (points: Array<[number, number]>): SwissBillElement => ({ kind: 'line', points, width: 0.75 * PT_TO_MM });
+  return [
+    line([[x, y + arm], [x, y], [x + arm, y]]),
+    line([[x + width - arm, y], [x + width, y], [x + width, y + arm]]),
+    line([[x, y + height - arm], [x, y + height], [x + arm, y + height]]),
+    line([[x + width - arm, y + height], [x + width, y + height], [x + width, y + height - arm]])
+  ];
+}
+
+/**
+ * Lay out the headed information blocks of the receipt or the payment part, top to bottom
+ */
+function layoutInformation(
+  bill: SwissQRBill,
+  x: number,
+  width: number,
+  fonts: typeof RECEIPT_FONTS,
+  isReceipt: boolean
+): SwissBillElement[] {
+  const elements: SwissBillElement[] = [];
+  const lineHeight = fonts.line * PT_TO_MM;
+  let y = isReceipt ? 12 : MARGIN;
+
+  const addSection = (heading: string, lines: string[]) => {
+    y += fonts.heading * PT_TO_MM;
+    elements.push({ kind: 'text', x, y, size: fonts.heading, bold: true, text: heading });
+    lines.flatMap(line => wrapText(line, width, fonts.value)).forEach(line => {
+      y += lineHeight;
+      elements.push({ kind: 'text', x, y, size: fonts.value, text: line });
+    });
+    // A blank line separates the sections
+    y += lineHeight;
+  };
+
+  const address = (party: SwissAddress) => getSwissAddressLines(party);
+
+  addSection('Account / Payable to', [formatSwissAccount(bill.account), ...address(bill.creditor)]);
+
+  if (bill.referenceType !== 'NON' && bill.reference) {
+    addSection('Reference', [formatSwissReference(bill.referenceType, bill.reference)]);
+  }
+
+  // The receipt leaves out the additional information
+  const information = [bill.message?.trim(), bill.billInformation?.trim()].filter((line): line is string => !!line);
+  if (!isReceipt && information.length > 0) {
+    addSection('Additional information', information);
+  }
+
+  if (bill.debtor) {
+    addSection('Payable by', address(bill.debtor));
+  } else {
+    y += fonts.heading * PT_TO_MM;
+    elements.push({ kind: 'text', x, y, size: fonts.heading, bold: true, text: 'Payable by (name/address)' });
+    const box = isReceipt ? { width: 52, height: 20 } : { width: 65, height: 25 };
+    elements.push(...cornerMarks(x, y + 1, box.width, box.height));
+  }
+
+  return elements;
+}
+
+/**
+ * Lay out the currency and amount block
+ */
+function layoutAmount(bill: SwissQRBill, x: number, y: number, fonts: typeof RECEIPT_FONTS, isReceipt: boolean): SwissBillElement[] {
+  const amountX = x + (isReceipt ? 12 : 13);
+  const headingY = y + fonts.heading * PT_TO_MM;
+  const valueY = headingY + fonts.line * PT_TO_MM;
+  const elements: SwissBillElement[] = [
+    { kind: 'text', x, y: headingY, size: fonts.heading, bold: true, text: 'Currency' },
+    { kind: 'text', x: amountX, y: headingY, size: fonts.heading, bold: true, text: 'Amount' },
+    { kind: 'text', x, y: valueY, size: fonts.value, text: bill.currency }
+  ];
+
+  if (bill.amount !== undefined) {
+    elements.push({ kind: 'text', x: amountX, y: valueY, size: fonts.value, text: formatSwissAmount(bill.amount) });
+  } else {
+    // Blank field for the payer, kept clear of the information column
+    const box = isReceipt ? { width: 30, height: 10 } : { width: 40, height: 15 };
+    const boxX = isReceipt ? SWISS_RECEIPT_WIDTH - MARGIN - box.width : x + QR_CODE_SIZE + MARGIN - 1 - box.width;
+    elements.push(...cornerMarks(boxX, headingY + 1, box.width, box.height));
+  }
+
+  return elements;
+}
+
+/**
+ * Lay out a QR-bill: the A6 payment part, optionally preceded by the receipt
+ */
+export function layoutSwissQRBill(bill: SwissQRBill, options: SwissBillRenderOptions = {}): SwissBillLayout {
+  const validation = validateSwissQRBill(bill);
+  if (!validation.isValid) {
+    throw new Error(validation.error);
+  }
+
+  const receipt = options.receipt !== false;
+  const offset = receipt ? SWISS_RECEIPT_WIDTH : 0;
+  const width = offset + SWISS_PAYMENT_PART_WIDTH;
+  const elements: SwissBillElement[] = [];
+  const separator = { kind: 'line' as const, width: 0.2, dashed: true };
+
+  // Perforation lines
+  elements.push({ ...separator, points: [[0, 0], [width, 0]] });
+
+  if (receipt) {
+    const receiptWidth = SWISS_RECEIPT_WIDTH - MARGIN * 2;
+    elements.push({ ...separator, points: [[SWISS_RECEIPT_WIDTH, 0], [SWISS_RECEIPT_WIDTH, SWISS_BILL_HEIGHT]] });
+    elements.push({ kind: 'text', x: MARGIN, y: MARGIN + TITLE_SIZE * PT_TO_MM, size: TITLE_SIZE, bold: true, text: 'Receipt' });
+    elements.push(...layoutInformation(bill, MARGIN, receiptWidth, RECEIPT_FONTS, true));
+    elements.push(...layoutAmount(bill, MARGIN, 68, RECEIPT_FONTS, true));
+    elements.push({
+      kind: 'text',
+      x: SWISS_RECEIPT_WIDTH - MARGIN,
+      y: 82 + RECEIPT_FONTS.heading * PT_TO_MM,
+      size: RECEIPT_FONTS.heading,
+      bold: true,
+      align: 'end',
+      text: 'Acceptance point'
+    });
+  }
+
+  // Payment part: title, code and amount on the left, information on the right
+  elements.push({ kind: 'text', x: offset + MARGIN, y: MARGIN + TITLE_SIZE * PT_TO_MM, size: TITLE_SIZE, bold: true, text: 'Payment part' });
+
+  const codeX = offset + MARGIN;
+  const codeY = 17;
+  const matrix = generateQRMatrix(buildSwissQRBillPayload(bill), { errorCorrectionLevel: 'M' });
+  elements.push({ kind: 'qr', x: codeX, y: codeY, size: QR_CODE_SIZE, matrix });
+  getSwissCrossRects(
+    codeX + (QR_CODE_SIZE - SWISS_CROSS_SIZE) / 2,
+    codeY + (QR_CODE_SIZE - SWISS_CROSS_SIZE) / 2,
+    SWISS_CROSS_SIZE
+  ).forEach(rect => elements.push({ kind: 'rect', ...rect }));
+
+  elements.push(...layoutAmount(bill, offset + MARGIN, 68, PAYMENT_FONTS, false));
+
+  const informationX = offset + MARGIN + QR_CODE_SIZE + MARGIN;
+  elements.push(...layoutInformation(bill, informationX, offset + SWISS_PAYMENT_PART_WIDTH - MARGIN - informationX, PAYMENT_FONTS, false));
+
+  return { width, height: SWISS_BILL_HEIGHT, elements };
+}
+
+/**
+ * Escape text for SVG content and attributes
+ */
+function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Dark modules of a matrix as one SVG path, scaled to the given size in millimetres
+ */
+function qrPath(element: Extract<SwissBillElement, { kind: 'qr' }>): string {
+  const moduleSize = element.size / element.matrix.size;
+  const parts: string[] = [];
+  element.matrix.modules.forEach((row, r) => row.forEach((dark, c) => {
+    if (dark) {
+      const x = +(element.x + c * moduleSize).toFixed(3);
+      const y = +(element.y + r * moduleSize).toFixed(3);
+      const s = +moduleSize.toFixed(3);
+      parts.push(`M${x} ${y}h${s}v${s}h-${s}z`);
+    }
+  }));
+  return parts.join('');
+}
+
+/**
+ * Render a QR-bill as SVG markup sized in millimetres, ready to print at 100%
+ */
+export function renderSwissQRBillSVG(bill: SwissQRBill, options: SwissBillRenderOptions = {}): string {
+  const layout = layoutSwissQRBill(bill, options);
+  const body = layout.elements.map(element => {
+    switch (element.kind) {
+      case 'text':
+        return `<text x="${element.x.toFixed(2)}" y="${element.y.toFixed(2)}" font-size="${(element.size * PT_TO_MM).toFixed(3)}"` +
+          `${element.bold ? ' font-weight="bold"' : ''}${element.align === 'end' ? ' text-anchor="end"' : ''}>${escapeXML(element.text)}</text>`;
+      case 'rect':
+        return `<rect x="${element.x.toFixed(3)}" y="${element.y.toFixed(3)}" width="${element.width.toFixed(3)}" height="${element.height.toFixed(3)}" fill="${element.fill === 'black' ? '#000000' : '#FFFFFF'}"/>`;
+      case 'line':
+        return `<polyline points="${element.points.map(([x, y]) => `${x},${y}`).join(' ')}" fill="none" stroke="#000000" stroke-width="${element.width.toFixed(3)}"` +
+          `${element.dashed ? ' stroke-dasharray="1 1"' : ''}/>`;
+      case 'qr':
+        return `<path fill="#000000" shape-rendering="crispEdges" d="${qrPath(element)}"/>`;
+    }
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}mm" height="${layout.height}mm" viewBox="0 0 ${layout.width} ${layout.height}" font-family="Helvetica, Arial, sans-serif">`,
+    `<rect width="${layout.width}" height="${layout.height}" fill="#FFFFFF"/>`,
+    ...body,
+    '</svg>'
+  ].join('');
+}
@@ -0,0 +1,260 @@
+/**
+ * Swiss QR-bill payloads for QR Super Generator
+ * Builds SPC 0200 payment codes and validates QR-IBANs, QR references and creditor references
+ */
+
+import type { SwissAddress, SwissQRBill, SwissReferenceType } from '../types';
+import { formatIBAN, isValidCreditorReference, MAX_EPC_AMOUNT, MIN_EPC_AMOUNT, normalizeAccountText, validateIBAN } from './payment-payload';
+
+export const SWISS_REFERENCE_LABELS: Record<SwissReferenceType, string> = {
+  QRR: 'QR reference',
+  SCOR: 'Creditor reference',
+  NON: 'No reference'
+};
+
+// Field limits from the Swiss Implementation Guidelines for the QR-bill
+const MAX_NAME_LENGTH = 70;
+const MAX_STREET_LENGTH = 70;
+const MAX_BUILDING_NUMBER_LENGTH = 16;
+const MAX_POSTAL_CODE_LENGTH = 16;
+const MAX_TOWN_LENGTH = 35;
+const MAX_MESSAGE_LENGTH = 140;
+const MAX_PAYLOAD_LENGTH = 997;
+
+// QR-IBANs carry a QR-IID between 30000 and 31999 in place of the bank clearing number
+const QR_IID_MIN = 30000;
+const QR_IID_MAX = 31999;
+
+// Table for the recursive mod 10 check digit of QR references
+const MOD10_TABLE = [0, 9, 4, 6, 8, 2, 7, 1, 3, 5];
+
+// Latin characters allowed in QR-bill text fields
+const ALLOWED_CHARACTERS = /^[ -~\u00A0-\u017F\u0218-\u021B\u20AC]*$/;
+
+/**
+ * Whether an IBAN is a QR-IBAN, which only accepts QR references
+ */
+export function isQRIBAN(account: string): boolean {
+  const iid = Number(normalizeAccountText(account).slice(4, 9));
+  return iid >= QR_IID_MIN && iid <= QR_IID_MAX;
+}
+
+/**
+ * Recursive mod 10 check digit over a string of digits
+ */
+function mod10CheckDigit(digits: string): number {
+  let carry = 0;
+  for (const digit of digits) {
+    carry = MOD10_TABLE[(carry + Number(digit)) % 10];
+  }
+  return (10 - carry) % 10;
+}
+
+/**
+ * Check a 27-digit QR reference and its check digit
+ */
+export function isValidQRReference(value: string): boolean {
+  const reference = normalizeAccountText(value);
+  return /^\d{27}$/.test(reference) && mod10CheckDigit(reference.slice(0, 26)) === Number(reference[26]);
+}
+
+/**
+ * Turn an invoice or customer number into a QR reference by padding it and adding the check digit
+ */
+export function createQRReference(base: string): string {
+  const digits = base.replace(/\D/g, '');
+  if (!digits || digits.length > 26) {
+    throw new Error('A QR reference needs 1 to 26 digits');
+  }
+  const padded = digits.padStart(26, '0');
+  return `${padded}${mod10CheckDigit(padded)}`;
+}
+
+/**
+ * Format a reference for printing: QR references in blocks of five from the right, creditor references in blocks of four
+ */
+export function formatSwissReference(type: SwissReferenceType, reference: string): string {
+  const value = normalizeAccountText(reference);
+  if (type === 'QRR') {
+    return value.replace(/\B(?=(\d{5})+(?!\d))/g, ' ');
+  }
+  return value.replace(/(.{4})(?=.)/g, '$1 ');
+}
+
+/**
+ * Format an amount for printing, with spaces between thousands
+ */
+export function formatSwissAmount(amount: number): string {
+  const [whole, cents] = amount.toFixed(2).split('.');
+  return `${whole.replace(/\B(?=(\d{3})+(?!\d))/g, ' ')}.${cents}`;
+}
+
+/**
+ * Address lines as printed on the payment part: name, street and number, postal code and town
+ */
+export function getSwissAddressLines(address: SwissAddress): string[] {
+  const street = [address.street?.trim(), address.buildingNumber?.trim()].filter(Boolean).join(' ');
+  const country = address.country.trim().toUpperCase();
+  // Foreign addresses are prefixed with the country code
+  const prefix = country && country !== 'CH' && country !== 'LI' ? `${country}-` : '';
+  return [address.name.trim(), street, `${prefix}${address.postalCode.trim()} ${address.town.trim()}`].filter(Boolean);
+}
+
+/**
+ * The account as printed on the payment part
+ */
+export function formatSwissAccount(account: string): string {
+  return formatIBAN(account);
+}
+
+/**
+ * The seven address elements of the payload, empty when there is no address
+ */
+function addressElements(address?: SwissAddress): string[] {
+  if (!address) return ['', '', '', '', '', '', ''];
+  return [
+    'S',
+    address.name.trim(),
+    address.street?.trim() || '',
+    address.buildingNumber?.trim() || '',
+    address.postalCode.trim(),
+    address.town.trim(),
+    address.country.trim().toUpperCase()
+  ];
+}
+
+/**
+ * Build an SPC 0200 (Swiss QR-bill) payload
+ */
+export function buildSwissQRBillPayload(bill: SwissQRBill): string {
+  const lines = [
+    'SPC',
+    '0200',
+    '1',
+    normalizeAccountText(bill.account),
+    ...addressElements(bill.creditor),
+    // Ultimate creditor, reserved for future use
+    ...addressElements(),
+    bill.amount !== undefined ? bill.amount.toFixed(2) : '',
+    bill.currency,
+    ...addressElements(bill.debtor),
+    bill.referenceType,
+    bill.referenceType === 'NON' ? '' : normalizeAccountText(bill.reference || ''),
+    bill.message?.trim() || '',
+    'EPD',
+    bill.billInformation?.trim() || ''
+  ];
+
+  // Optional elements after the trailer are left out when empty
+  while (lines[lines.length - 1] === '') lines.pop();
+  return lines.join('\n');
+}
+
+/**
+ * Check an address against the field limits
+ */
+function validateAddress(address: SwissAddress, role: string): { isValid: boolean; error?: string } {
+  const fields: Array<[string | undefined, number, string]> = [
+    [address.name, MAX_NAME_LENGTH, 'name'],
+    [address.street, MAX_STREET_LENGTH, 'street'],
+    [address.buildingNumber, MAX_BUILDING_NUMBER_LENGTH, 'building number'],
+    [address.postalCode, MAX_POSTAL_CODE_LENGTH, 'postal code'],
+    [address.town, MAX_TOWN_LENGTH, 'town']
+  ];
+
+  if (!address.name.trim() || !address.postalCode.trim() || !address.town.trim()) {
+    return { isValid: false, error: `${role} needs a name, postal code and town` };
+  }
+
+  const tooLong = fields.find(([value, max]) => (value?.trim().length || 0) > max);
+  if (tooLong) {
+    return { isValid: false, error: `${role} ${tooLong[2]} can be at most ${tooLong[1]} characters` };
+  }
+
+  if (!/^[A-Z]{2}$/i.test(address.country.trim())) {
+    return { isValid: false, error: `${role} country must be a two-letter code, e.g. CH` };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Check a bill against the QR-bill rules
+ */
+export function validateSwissQRBill(bill: SwissQRBill): { isValid: boolean; error?: string } {
+  const iban = validateIBAN(bill.account);
+  if (!iban.isValid) return iban;
+
+  if (!['CH', 'LI'].includes(normalizeAccountText(bill.account).slice(0, 2))) {
+    return { isValid: false, error: 'QR-bills need a Swiss or Liechtenstein account' };
+  }
+
+  const creditor = validateAddress(bill.creditor, 'Creditor');
+  if (!creditor.isValid) return creditor;
+
+  if (bill.debtor) {
+    const debtor = validateAddress(bill.debtor, 'Debtor');
+    if (!debtor.isValid) return debtor;
+  }
+
+  if (bill.amount !== undefined) {
+    const cents = Math.round(bill.amount * 100);
+    if (bill.amount < MIN_EPC_AMOUNT || bill.amount > MAX_EPC_AMOUNT || Math.abs(cents - bill.amount * 100) > 1e-6) {
+      return { isValid: false, error: `Amount must be between ${MIN_EPC_AMOUNT} and ${formatSwissAmount(MAX_EPC_AMOUNT)} with at most two decimals` };
+    }
+  }
+
+  // QR-IBANs and QR references only go together
+  const qrIban = isQRIBAN(bill.account);
+  if (qrIban && bill.referenceType !== 'QRR') {
+    return { isValid: false, error: 'A QR-IBAN needs a QR reference' };
+  }
+  if (!qrIban && bill.referenceType === 'QRR') {
+    return { isValid: false, error: 'QR references need a QR-IBAN; use a creditor reference instead' };
+  }
+
+  if (bill.referenceType === 'QRR' && !isValidQRReference(bill.reference || '')) {
+    return { isValid: false, error: 'QR reference must be 27 digits with a valid check digit' };
+  }
+  if (bill.referenceType === 'SCOR' && !isValidCreditorReference(bill.reference || '')) {
+    return { isValid: false, error: 'Reference must be a valid RF creditor reference (ISO 11649)' };
+  }
+
+  const messageLength = (bill.message?.trim().length || 0) + (bill.billInformation?.trim().length || 0);
+  if (messageLength > MAX_MESSAGE_LENGTH) {
+    return { isValid: false, error: `Message and bill information can be at most ${MAX_MESSAGE_LENGTH} characters together` };
+  }
+
+  const payload = buildSwissQRBillPayload(bill);
+  if (!ALLOWED_CHARACTERS.test(payload.replace(/\n/g, ''))) {
+    return { isValid: false, error: 'QR-bills only allow Latin characters' };
+  }
+  if (payload.length > MAX_PAYLOAD_LENGTH) {
+    return { isValid: false, error: `Bill data is longer than ${MAX_PAYLOAD_LENGTH} characters` };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Squares of the Swiss cross that must sit in the center of every QR-bill code, for a cross of the given size.
+ * The black square has a white border, and the white cross follows the proportions of the Swiss flag.
+ */
+export function getSwissCrossRects(
+  x: number,
+  y: number,
+  size: number
+): Array<{ x: number; y: number; width: number; height: number; fill: 'black' | 'white' }> {
+  const border = size / 14;
+  const square = size - border * 2;
+  const barWidth = (square * 6) / 32;
+  const barLength = (square * 20) / 32;
+  const center = size / 2;
+
+  return [
+    { x, y, width: size, height: size, fill: 'white' },
+    { x: x + border, y: y + border, width: square, height: square, fill: 'black' },
+    { x: x + center - barWidth / 2, y: y + center - barLength / 2, width: barWidth, height: barLength, fill: 'white' },
+    { x: x + center - barLength / 2, y: y + center - barWidth / 2, width: barLength, height: barWidth, fill: 'white' }
+  ];
+}
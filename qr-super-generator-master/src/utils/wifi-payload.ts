@@ -0,0 +1,240 @@
+/**
+ * WiFi network payloads for QR Super Generator
+ * Builds and parses `WIFI:` URIs as read by phone cameras (ZXing format, extended by the WPA3 specification)
+ */
+
+import type { WiFiCredentials, WiFiEAPMethod, WiFiPhase2Method, WiFiSecurity } from '../types';
+
+export const WIFI_SECURITY_TYPES: WiFiSecurity[] = ['WPA', 'SAE', 'WEP', 'WPA2-EAP', 'nopass'];
+export const WIFI_EAP_METHODS: WiFiEAPMethod[] = ['PEAP', 'TLS', 'TTLS', 'PWD', 'SIM', 'AKA', 'AKA_PRIME'];
+export const WIFI_PHASE2_METHODS: WiFiPhase2Method[] = ['NONE', 'PAP', 'MSCHAP', 'MSCHAPV2', 'GTC'];
+
+// EAP methods that sign in with a user name and password
+const PASSWORD_EAP_METHODS: WiFiEAPMethod[] = ['PEAP', 'TTLS', 'PWD'];
+
+const MAX_SSID_BYTES = 32;
+const HEX_PATTERN = /^[0-9a-f]+$/i;
+
+// Bit 0 of the R: bitmap disables the WPA2 fallback of WPA3-Personal networks
+const TRANSITION_DISABLE_WPA3 = 0x1;
+
+/**
+ * Escape the characters that delimit fields in a WIFI: payload
+ */
+export function escapeWiFiValue(value: string): string {
+  return value.replace(/([\\;,:"])/g, '\\$1');
+}
+
+/**
+ * Whether the value would be read as hex octets rather than text
+ */
+function looksLikeHex(value: string): boolean {
+  return value.length > 0 && value.length % 2 === 0 && HEX_PATTERN.test(value);
+}
+
+/**
+ * Build the SSID field value. Text SSIDs that look like hex are quoted so they are not read as octets.
+ */
+function formatSsid(credentials: WiFiCredentials): string {
+  if (credentials.hexSsid) return credentials.ssid.toUpperCase();
+  return looksLikeHex(credentials.ssid) ? `"${credentials.ssid}"` : escapeWiFiValue(credentials.ssid);
+}
+
+/**
+ * Build a WIFI: payload from network credentials
+ */
+export function buildWiFiPayload(credentials: WiFiCredentials): string {
+  const fields: Array<[string, string]> = [['T', credentials.security]];
+  const { security, eap } = credentials;
+
+  if (credentials.transitionDisable && (security === 'WPA' || security === 'SAE')) {
+    fields.push(['R', TRANSITION_DISABLE_WPA3.toString(16)]);
+  }
+
+  fields.push(['S', formatSsid(credentials)]);
+
+  if (credentials.hidden) {
+    fields.push(['H', 'true']);
+  }
+
+  if (security === 'WPA2-EAP' && eap) {
+    fields.push(['E', eap.method]);
+    if (eap.phase2 && eap.phase2 !== 'NONE') fields.push(['PH2', eap.phase2]);
+    if (eap.anonymousIdentity) fields.push(['A', escapeWiFiValue(eap.anonymousIdentity)]);
+    if (eap.identity) fields.push(['I', escapeWiFiValue(eap.identity)]);
+  }
+
+  if (security !== 'nopass' && credentials.password) {
+    fields.push(['P', escapeWiFiValue(credentials.password)]);
+  }
+
+  return `WIFI:${fields.map(([key, value]) => `${key}:${value};`).join('')};`;
+}
+
+/**
+ * Split the body of a WIFI: payload into raw `key:value` fields on unescaped semicolons
+ */
+function splitFields(body: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '\\' && i + 1 < body.length) {
+      current += char + body[i + 1];
+      i++;
+    } else if (char === ';') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current) fields.push(current);
+
+  return fields.filter(field => field.length > 0);
+}
+
+/**
+ * Remove backslash escapes from a field value
+ */
+function unescapeWiFiValue(value: string): string {
+  return value.replace(/\\(.)/g, '$1');
+}
+
+/**
+ * Read a field value, noting whether it was wrapped in double quotes
+ */
+function readValue(raw: string): { value: string; quoted: boolean } {
+  if (raw.length >= 2 && raw.startsWith('"') && raw.endsWith('"') && !raw.endsWith('\\"')) {
+    return { value: unescapeWiFiValue(raw.slice(1, -1)), quoted: true };
+  }
+  return { value: unescapeWiFiValue(raw), quoted: false };
+}
+
+/**
+ * Map a T: value onto a security type; older generators also write WPA2 or WPA3
+ */
+function toSecurity(value: string, hasPassword: boolean): WiFiSecurity {
+  switch (value.toUpperCase()) {
+    case 'WPA':
+    case 'WPA2':
+      return 'WPA';
+    case 'SAE':
+    case 'WPA3':
+      return 'SAE';
+    case 'WEP':
+      return 'WEP';
+    case 'WPA2-EAP':
+    case 'WPA3-EAP':
+    case 'EAP':
+      return 'WPA2-EAP';
+    case 'NOPASS':
+      return 'nopass';
+    default:
+      // No T: field means an open network, unless a password says otherwise
+      return hasPassword ? 'WPA' : 'nopass';
+  }
+}
+
+/**
+ * Parse a WIFI: payload back into network credentials. Returns null if the text is not a WIFI: payload.
+ */
+export function parseWiFiPayload(text: string): WiFiCredentials | null {
+  const trimmed = text.trim();
+  if (!/^wifi:/i.test(trimmed)) return null;
+
+  const values = new Map<string, { value: string; quoted: boolean }>();
+  splitFields(trimmed.slice(5)).forEach(field => {
+    const separator = field.indexOf(':');
+    if (separator <= 0) return;
+    const key = field.slice(0, separator).toUpperCase();
+    // The first occurrence of a field wins
+    if (!values.has(key)) values.set(key, readValue(field.slice(separator + 1)));
+  });
+
+  const ssid = values.get('S');
+  if (!ssid) return null;
+
+  const password = values.get('P')?.value || '';
+  const security = toSecurity(values.get('T')?.value || '', password.length > 0);
+  const credentials: WiFiCredentials = {
+    // Unquoted hex SSIDs are read as octets, the way Android does
+    ssid: ssid.value,
+    password: security === 'nopass' ? '' : password,
+    security,
+    hidden: values.get('H')?.value.toLowerCase() === 'true'
+  };
+
+  if (!ssid.quoted && looksLikeHex(ssid.value)) {
+    credentials.hexSsid = true;
+  }
+
+  const transitionDisable = parseInt(values.get('R')?.value || '', 16);
+  if (!Number.isNaN(transitionDisable) && (transitionDisable & TRANSITION_DISABLE_WPA3) !== 0) {
+    credentials.transitionDisable = true;
+  }
+
+  if (security === 'WPA2-EAP') {
+    const method = values.get('E')?.value.toUpperCase() as WiFiEAPMethod | undefined;
+    const phase2 = values.get('PH2')?.value.toUpperCase() as WiFiPhase2Method | undefined;
+    credentials.eap = {
+      method: method && WIFI_EAP_METHODS.includes(method) ? method : 'PEAP',
+      phase2: phase2 && WIFI_PHASE2_METHODS.includes(phase2) ? phase2 : undefined,
+      identity: values.get('I')?.value || undefined,
+      anonymousIdentity: values.get('A')?.value || undefined
+    };
+  }
+
+  return credentials;
+}
+
+/**
+ * Check that credentials describe a network devices can join
+ */
+export function validateWiFiCredentials(credentials: WiFiCredentials): { isValid: boolean; error?: string } {
+  const { ssid, password, security, eap } = credentials;
+
+  if (!ssid) {
+    return { isValid: false, error: 'Network name (SSID) is required' };
+  }
+
+  if (credentials.hexSsid) {
+    if (!looksLikeHex(ssid) || ssid.length > MAX_SSID_BYTES * 2) {
+      return { isValid: false, error: 'A hex SSID needs an even number of hex digits (up to 64)' };
+    }
+  } else if (new TextEncoder().encode(ssid).length > MAX_SSID_BYTES) {
+    return { isValid: false, error: `Network name is longer than ${MAX_SSID_BYTES} bytes` };
+  }
+
+  switch (security) {
+    case 'WPA':
+      if (!(password.length >= 8 && password.length <= 63) && !(password.length === 64 && HEX_PATTERN.test(password))) {
+        return { isValid: false, error: 'WPA passwords are 8 to 63 characters, or 64 hex digits' };
+      }
+      break;
+    case 'SAE':
+      if (!password) {
+        return { isValid: false, error: 'Password is required for WPA3 networks' };
+      }
+      break;
+    case 'WEP':
+      if (![5, 13, 16].includes(password.length) && !([10, 26, 32].includes(password.length) && HEX_PATTERN.test(password))) {
+        return { isValid: false, error: 'WEP keys are 5, 13 or 16 characters, or 10, 26 or 32 hex digits' };
+      }
+      break;
+    case 'WPA2-EAP':
+      if (!eap) {
+        return { isValid: false, error: 'Choose an EAP method for enterprise networks' };
+      }
+      if (PASSWORD_EAP_METHODS.includes(eap.method) && (!eap.identity || !password)) {
+        return { isValid: false, error: `${eap.method} needs an identity and a password` };
+      }
+      if (eap.method === 'TLS' && !eap.identity) {
+        return { isValid: false, error: 'TLS needs an identity' };
+      }
+      break;
+  }
+
+  return { isValid: true };
+}